@@ -91,7 +91,7 @@ export function ActionPreviewCard({
                 </p>
                 
                 {/* Before/After Details */}
-                {(change.details.before || change.details.after) && (
+                {(change.details.before || change.details.after || change.details.value) && (
                   <div className="mt-1 text-xs text-black">
                     {change.details.before && (
                       <div>Before: <code className="bg-gray-200 px-1 rounded">{change.details.before}</code></div>
@@ -3,7 +3,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ChatMessage, ChatState } from '../../types/chat';
+import { ChatMessage, ChatState, DigestRunState } from '../../types/chat';
 import { MessageBubble } from './MessageBubble';
 import { ChatInput } from './ChatInput';
 import { v4 as uuidv4 } from 'uuid';
@@ -17,6 +17,16 @@ export function ChatInterface() {
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const runStreamsRef = useRef<Map<string, EventSource>>(new Map());
+
+  // Close any open progress streams when the chat unmounts
+  useEffect(() => {
+    const streams = runStreamsRef.current;
+    return () => {
+      streams.forEach(stream => stream.close());
+      streams.clear();
+    };
+  }, []);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -67,6 +77,60 @@ What would you like to do?`,
     }));
   }, []);
 
+  const updateDigestRun = (messageId: string, update: Partial<DigestRunState>) => {
+    setChatState(prev => ({
+      ...prev,
+      messages: prev.messages.map(msg =>
+        msg.id === messageId && msg.digestRun
+          ? { ...msg, digestRun: { ...msg.digestRun, ...update } }
+          : msg
+      )
+    }));
+  };
+
+  /**
+   * Follow a digest pipeline run over Server-Sent Events
+   */
+  const followDigestRun = (messageId: string, runId: string) => {
+    if (runStreamsRef.current.has(runId)) return;
+
+    const stream = new EventSource(`/api/agent/runs/${runId}/events`);
+    runStreamsRef.current.set(runId, stream);
+
+    const close = () => {
+      stream.close();
+      runStreamsRef.current.delete(runId);
+    };
+
+    stream.addEventListener('progress', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      updateDigestRun(messageId, { step: data.step, current: data.current, total: data.total });
+    });
+
+    stream.addEventListener('completed', (event) => {
+      const result = JSON.parse((event as MessageEvent).data);
+      updateDigestRun(messageId, { status: 'completed', result });
+      close();
+    });
+
+    stream.addEventListener('failed', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      updateDigestRun(messageId, { status: 'failed', step: data.step, error: data.error });
+      close();
+    });
+
+    stream.onerror = () => {
+      // EventSource retries on its own; give up only once the server has closed the stream for good
+      if (stream.readyState === EventSource.CLOSED) {
+        updateDigestRun(messageId, { status: 'failed', error: 'Lost connection to the digest run' });
+        close();
+      }
+    };
+  };
+
+  const createDigestRun = (runId?: string): DigestRunState | undefined =>
+    runId ? { runId, status: 'running', current: 0, total: 1 } : undefined;
+
   const handleSendMessage = async (message: string) => {
     if (!message.trim() || chatState.isLoading) return;
 
@@ -106,7 +170,8 @@ What would you like to do?`,
         intent: result.intent,
         previewData: result.preview,
         executionResult: result.result,
-        suggestedActions: result.suggestedActions
+        suggestedActions: result.suggestedActions,
+        digestRun: createDigestRun(result.result?.runId)
       };
 
       setChatState(prev => ({
@@ -119,6 +184,10 @@ What would you like to do?`,
         } : undefined
       }));
 
+      if (agentMessage.digestRun) {
+        followDigestRun(agentMessage.id, agentMessage.digestRun.runId);
+      }
+
     } catch (error: any) {
       // Add error message
       const errorMessage: ChatMessage = {
@@ -171,7 +240,8 @@ What would you like to do?`,
           content: result.success ? '' : (result.message || 'Action failed.'),
           timestamp: new Date(),
           status: result.success ? 'completed' : 'error',
-          executionResult: result
+          executionResult: result,
+          digestRun: createDigestRun(result.runId)
         };
 
         setChatState(prev => ({
@@ -181,6 +251,10 @@ What would you like to do?`,
           pendingAction: undefined
         }));
 
+        if (resultMessage.digestRun) {
+          followDigestRun(resultMessage.id, resultMessage.digestRun.runId);
+        }
+
       } else {
         // User cancelled the action
         const cancelMessage: ChatMessage = {
@@ -0,0 +1,79 @@
+// components/agent/DigestRunProgress.tsx
+
+import React from 'react';
+import { DigestRunState } from '../../types/chat';
+
+interface DigestRunProgressProps {
+  run: DigestRunState;
+}
+
+export function DigestRunProgress({ run }: DigestRunProgressProps) {
+  const percentage = run.status === 'completed'
+    ? 100
+    : Math.round((run.current / Math.max(run.total, 1)) * 100);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+      <div className="px-4 py-3 bg-indigo-50 border-b border-indigo-100 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span>{run.status === 'completed' ? '✅' : run.status === 'failed' ? '❌' : '⏳'}</span>
+          <h3 className="font-medium text-indigo-900">
+            {run.status === 'completed' ? 'Digest Ready' : run.status === 'failed' ? 'Digest Failed' : 'Generating Digest'}
+          </h3>
+        </div>
+        {run.status === 'running' && (
+          <span className="text-xs text-indigo-700">{run.current}/{run.total}</span>
+        )}
+      </div>
+
+      <div className="px-4 py-3 space-y-2 text-sm text-black">
+        {run.status === 'running' && (
+          <>
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-500 transition-all duration-500"
+                style={{ width: `${percentage}%` }}
+              />
+            </div>
+            <p>{run.step ? `${run.step}...` : 'Starting pipeline...'}</p>
+          </>
+        )}
+
+        {run.status === 'completed' && run.result && (
+          <>
+            {run.result.title ? (
+              <p className="font-medium">{run.result.title}</p>
+            ) : (
+              <p>{run.result.message}</p>
+            )}
+            {run.result.digestId && (
+              <div>Digest ID: <code className="bg-gray-200 px-1 rounded">{run.result.digestId}</code></div>
+            )}
+            {run.result.twitterUrl && (
+              <div>
+                Twitter:{' '}
+                <a
+                  href={run.result.twitterUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 underline break-all"
+                >
+                  {run.result.twitterUrl}
+                </a>
+              </div>
+            )}
+            <p className="text-xs text-gray-600">
+              {run.result.sourcesCount} sources · {(run.result.processingTimeMs / 1000).toFixed(1)}s
+            </p>
+          </>
+        )}
+
+        {run.status === 'failed' && (
+          <p className="text-red-700">
+            {run.step ? `Failed during ${run.step}: ` : ''}{run.error || 'Unknown error'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import React from 'react';
 import { ChatMessage } from '../../types/chat';
 import { ActionPreviewCard } from './ActionPreviewCard';
 import { SuggestedActions } from './SuggestedActions';
+import { DigestRunProgress } from './DigestRunProgress';
 
 interface MessageBubbleProps {
   message: ChatMessage;
@@ -89,6 +90,13 @@ export function MessageBubble({
           </div>
         )}
 
+        {/* Digest Run Progress (if present) */}
+        {message.digestRun && !isUser && (
+          <div className={message.content || message.executionResult ? "mt-3" : ""}>
+            <DigestRunProgress run={message.digestRun} />
+          </div>
+        )}
+
         {/* Suggested Actions (if present) */}
         {message.suggestedActions && message.suggestedActions.length > 0 && !isUser && (
           <div className={message.content || message.executionResult ? "mt-3" : ""}>
@@ -1,11 +1,15 @@
 // config/data-sources-config.ts
 
+import { join } from 'path';
 import { XAccountConfig, TelegramChannelConfig, RssFeedConfig } from './types';
+import { SourceStore } from './source-store';
 
 /**
  * Twitter/X Configuration
  * 
- * Provides defaults and per-account overrides for Twitter data collection
+ * Built-in defaults and per-account overrides for Twitter data collection.
+ * The defaults can be changed in config/sources.json and overrides set per
+ * source through the source registry.
  */
 export const xConfig = {
   // Global defaults - work for 90% of accounts
@@ -68,18 +72,29 @@ export const rssConfig = {
   } as Record<string, Partial<RssFeedConfig>>
 };
 
+/**
+ * Source settings store (config/sources.json, not committed), falling back to
+ * the built-in defaults above until it's created
+ */
+export const sourceStore = new SourceStore(join(process.cwd(), 'config', 'sources.json'), {
+  twitter: xConfig.defaults,
+  telegram: telegramConfig.defaults,
+  rss: rssConfig.defaults
+}, {
+  twitter: xConfig.accountOverrides,
+  telegram: telegramConfig.channelOverrides,
+  rss: rssConfig.feedOverrides
+});
+
 // Helper functions to get configuration for specific sources
 export function getXAccountConfig(username: string): XAccountConfig {
-  const override = xConfig.accountOverrides[username] || {};
-  return { ...xConfig.defaults, ...override };
+  return sourceStore.resolveConfig('twitter', username);
 }
 
 export function getTelegramChannelConfig(channelName: string): TelegramChannelConfig {
-  const override = telegramConfig.channelOverrides[channelName] || {};
-  return { ...telegramConfig.defaults, ...override };
+  return sourceStore.resolveConfig('telegram', channelName);
 }
 
 export function getRssFeedConfig(feedUrl: string): RssFeedConfig {
-  const override = rssConfig.feedOverrides[feedUrl] || {};
-  return { ...rssConfig.defaults, ...override };
-}
\ No newline at end of file
+  return sourceStore.resolveConfig('rss', feedUrl);
+}
@@ -0,0 +1,225 @@
+// config/source-store.ts
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import fs from 'fs/promises';
+import { z } from 'zod';
+import { XAccountConfig, TelegramChannelConfig, RssFeedConfig } from './types';
+import { SerialQueue, writeJsonFileAtomic } from '../lib/storage/json-file-store';
+import logger from '../lib/logger';
+
+export type SourceType = 'twitter' | 'telegram' | 'rss';
+
+export interface SourceConfigMap {
+  twitter: XAccountConfig;
+  telegram: TelegramChannelConfig;
+  rss: RssFeedConfig;
+}
+
+const positiveInt = z.number().int().positive();
+
+const xAccountConfigSchema = z.object({
+  tweetsPerRequest: positiveInt,
+  maxPages: positiveInt,
+  cacheHours: positiveInt,
+  minTweetLength: positiveInt,
+  minEngagementScore: z.number().int().nonnegative(),
+});
+
+const telegramChannelConfigSchema = z.object({
+  messagesPerChannel: positiveInt,
+  cacheHours: positiveInt,
+  minMessageLength: z.number().int().nonnegative(),
+});
+
+const rssFeedConfigSchema = z.object({
+  articlesPerFeed: positiveInt,
+  cacheHours: positiveInt,
+  minArticleLength: z.number().int().nonnegative(),
+  maxArticleLength: positiveInt,
+});
+
+/**
+ * Schema for config/sources.json: the default settings of each source type.
+ * The sources themselves live in the `sources` table (see SourceRegistry).
+ */
+export const sourceConfigDocumentSchema = z.object({
+  version: z.literal(1),
+  twitter: z.object({ defaults: xAccountConfigSchema }),
+  telegram: z.object({ defaults: telegramChannelConfigSchema }),
+  rss: z.object({ defaults: rssFeedConfigSchema }),
+});
+
+export type SourceConfigDocument = z.infer<typeof sourceConfigDocumentSchema>;
+
+export type SourceOverrides = {
+  [T in SourceType]: Record<string, Partial<SourceConfigMap[T]>>;
+};
+
+const sourceOverridesSchemas = {
+  twitter: xAccountConfigSchema.partial().strict(),
+  telegram: telegramChannelConfigSchema.partial().strict(),
+  rss: rssFeedConfigSchema.partial().strict(),
+};
+
+/**
+ * Validate per-source overrides of the type defaults, throwing on unknown keys or bad values
+ */
+export function validateSourceOverrides<T extends SourceType>(type: T, overrides: unknown): Partial<SourceConfigMap[T]> {
+  const result = sourceOverridesSchemas[type].safeParse(overrides);
+  if (!result.success) {
+    throw new Error(`Invalid ${type} source settings - ${formatIssues(result.error)}`);
+  }
+  return result.data as Partial<SourceConfigMap[T]>;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Normalize a source identifier (usernames are case-insensitive, URLs are kept as-is)
+ */
+export function normalizeSourceIdentifier(type: SourceType, identifier: string): string {
+  const trimmed = identifier.trim();
+  return type === 'rss' ? trimmed : trimmed.replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * JSON-backed store for the per-type source defaults (config/sources.json,
+ * created from the built-in defaults on first use). Per-source overrides come
+ * from the built-in list plus the `config` column of the `sources` table,
+ * which SourceRegistry caches here so the config getters can stay synchronous.
+ * Reads are cached by file mtime; writes are validated, serialized and atomic.
+ */
+export class SourceStore {
+  private filePath: string;
+  private builtInDefaults: SourceConfigMap;
+  private builtInOverrides: SourceOverrides;
+  private registryOverrides: SourceOverrides = { twitter: {}, telegram: {}, rss: {} };
+  private cached?: SourceConfigDocument;
+  private cachedMtimeMs = 0;
+  private writeQueue = new SerialQueue();
+
+  constructor(filePath: string, builtInDefaults: SourceConfigMap, builtInOverrides: SourceOverrides) {
+    this.filePath = filePath;
+    this.builtInDefaults = builtInDefaults;
+    this.builtInOverrides = builtInOverrides;
+  }
+
+  /**
+   * Whether the store file exists yet
+   */
+  exists(): boolean {
+    return existsSync(this.filePath);
+  }
+
+  /**
+   * Write the built-in defaults to the store file if it doesn't exist yet
+   */
+  async ensureCreated(): Promise<void> {
+    if (this.exists()) return;
+
+    await this.update(() => undefined);
+    logger.info(`Created source defaults in ${this.filePath}`);
+  }
+
+  /**
+   * Read the current document. Falls back to the last valid document (or the
+   * built-in defaults) if the file is missing or invalid.
+   */
+  read(): SourceConfigDocument {
+    try {
+      if (!this.exists()) {
+        return this.cached || this.createEmptyDocument();
+      }
+
+      const { mtimeMs } = statSync(this.filePath);
+      if (this.cached && mtimeMs === this.cachedMtimeMs) {
+        return this.cached;
+      }
+
+      this.cached = this.parse(readFileSync(this.filePath, 'utf-8'));
+      this.cachedMtimeMs = mtimeMs;
+      return this.cached;
+    } catch (error: any) {
+      logger.warn(`Invalid source config in ${this.filePath}, using last known good settings`, { error: error.message });
+      return this.cached || this.createEmptyDocument();
+    }
+  }
+
+  /**
+   * Per-source overrides of one type, keyed by identifier (registry values win over built-in ones)
+   */
+  getOverrides<T extends SourceType>(type: T): SourceOverrides[T] {
+    const overrides: Record<string, any> = { ...this.builtInOverrides[type] };
+    for (const [identifier, config] of Object.entries(this.registryOverrides[type])) {
+      overrides[identifier] = { ...overrides[identifier], ...config };
+    }
+    return overrides as SourceOverrides[T];
+  }
+
+  /**
+   * Remember the overrides the registry holds for one source (undefined forgets them)
+   */
+  cacheRegistryOverrides(type: SourceType, identifier: string, config: Record<string, any> | undefined): void {
+    const normalized = normalizeSourceIdentifier(type, identifier);
+    if (config && Object.keys(config).length > 0) {
+      this.registryOverrides[type][normalized] = config;
+    } else {
+      delete this.registryOverrides[type][normalized];
+    }
+  }
+
+  /**
+   * Resolve the effective settings for one source (defaults + its overrides)
+   */
+  resolveConfig<T extends SourceType>(type: T, identifier: string): SourceConfigMap[T] {
+    const normalized = normalizeSourceIdentifier(type, identifier);
+    return { ...this.read()[type].defaults, ...this.getOverrides(type)[normalized] } as SourceConfigMap[T];
+  }
+
+  /**
+   * Apply a change to the document. The mutator works on a copy; the result is
+   * validated and written via a temp file + rename so readers never see a
+   * partial file. Updates are serialized within the process.
+   */
+  update(mutator: (document: SourceConfigDocument) => void): Promise<SourceConfigDocument> {
+    return this.writeQueue.run(async () => {
+      const document = this.exists()
+        ? this.parse(await fs.readFile(this.filePath, 'utf-8'))
+        : this.createEmptyDocument();
+
+      mutator(document);
+
+      const validated = this.validate(document);
+      await writeJsonFileAtomic(this.filePath, validated);
+
+      this.cached = validated;
+      this.cachedMtimeMs = statSync(this.filePath).mtimeMs;
+      return validated;
+    });
+  }
+
+  private parse(content: string): SourceConfigDocument {
+    return this.validate(JSON.parse(content));
+  }
+
+  private validate(document: unknown): SourceConfigDocument {
+    const result = sourceConfigDocumentSchema.safeParse(document);
+    if (!result.success) {
+      throw new Error(`Source config validation failed - ${formatIssues(result.error)}`);
+    }
+    return result.data;
+  }
+
+  private createEmptyDocument(): SourceConfigDocument {
+    return {
+      version: 1,
+      twitter: { defaults: { ...this.builtInDefaults.twitter } },
+      telegram: { defaults: { ...this.builtInDefaults.telegram } },
+      rss: { defaults: { ...this.builtInDefaults.rss } },
+    };
+  }
+}
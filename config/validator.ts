@@ -1,7 +1,7 @@
 // config/validator.ts
 
 import { XAccountConfig, TelegramChannelConfig, RssFeedConfig } from './types';
-import { xConfig, telegramConfig, rssConfig } from './data-sources-config';
+import { sourceStore } from './data-sources-config';
 
 interface ValidationError {
   source: string;
@@ -16,13 +16,15 @@ export class ConfigValidator {
   validateXConfig(): ValidationError[] {
     this.errors = [];
     
+    const { defaults } = sourceStore.read().twitter;
+
     // Validate defaults
-    this.validateXAccountConfig('defaults', xConfig.defaults);
+    this.validateXAccountConfig('defaults', defaults);
     
     // Validate all overrides
-    Object.entries(xConfig.accountOverrides).forEach(([account, config]) => {
-      const fullConfig = { ...xConfig.defaults, ...config };
-      this.validateXAccountConfig(`account:${account}`, fullConfig);
+    Object.entries(sourceStore.getOverrides('twitter')).forEach(([identifier, config]) => {
+      const fullConfig = { ...defaults, ...config };
+      this.validateXAccountConfig(`account:${identifier}`, fullConfig);
     });
     
     return this.errors;
@@ -57,13 +59,15 @@ export class ConfigValidator {
   validateTelegramConfig(): ValidationError[] {
     this.errors = [];
     
+    const { defaults } = sourceStore.read().telegram;
+
     // Validate defaults
-    this.validateTelegramChannelConfig('defaults', telegramConfig.defaults);
+    this.validateTelegramChannelConfig('defaults', defaults);
     
     // Validate overrides
-    Object.entries(telegramConfig.channelOverrides).forEach(([channel, config]) => {
-      const fullConfig = { ...telegramConfig.defaults, ...config };
-      this.validateTelegramChannelConfig(`channel:${channel}`, fullConfig);
+    Object.entries(sourceStore.getOverrides('telegram')).forEach(([identifier, config]) => {
+      const fullConfig = { ...defaults, ...config };
+      this.validateTelegramChannelConfig(`channel:${identifier}`, fullConfig);
     });
     
     return this.errors;
@@ -84,11 +88,13 @@ export class ConfigValidator {
   validateRssConfig(): ValidationError[] {
     this.errors = [];
     
-    this.validateRssFeedConfig('defaults', rssConfig.defaults);
+    const { defaults } = sourceStore.read().rss;
+
+    this.validateRssFeedConfig('defaults', defaults);
     
-    Object.entries(rssConfig.feedOverrides).forEach(([feed, config]) => {
-      const fullConfig = { ...rssConfig.defaults, ...config };
-      this.validateRssFeedConfig(`feed:${feed}`, fullConfig);
+    Object.entries(sourceStore.getOverrides('rss')).forEach(([identifier, config]) => {
+      const fullConfig = { ...defaults, ...config };
+      this.validateRssFeedConfig(`feed:${identifier}`, fullConfig);
     });
     
     return this.errors;
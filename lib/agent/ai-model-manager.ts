@@ -1,23 +1,92 @@
 // lib/agent/ai-model-manager.ts
 
 import { AIService } from '../ai/ai-service';
+import { DIGEST_ANALYSIS_PROFILE, ModelProfileRegistry, modelProfiles } from '../ai/model-profiles';
+import { AIModelConfig, AIModelOptions, AISettingsUpdate } from '../../types/ai';
 import { ConfigOperationResult, ConfigurationChange, ConfigValidationResult } from '../../types/config-agent';
+import { writeJsonFileAtomic } from '../storage/json-file-store';
 import fs from 'fs/promises';
+import { watchFile, unwatchFile, Stats } from 'fs';
 import path from 'path';
 import logger from '../logger';
 
+type AIProvider = AIModelConfig['provider'];
+
+/** Settings tuned from chat, kept per provider so they survive model switches */
+type AISettingsOverrides = Partial<Record<AIProvider, AISettingsUpdate>>;
+
+// Upper bounds for max_tokens (generous - the provider API has the final say)
+const MAX_OUTPUT_TOKENS: Record<AIProvider, number> = {
+  openai: 128000,
+  anthropic: 64000,
+  google: 65536,
+  ollama: 131072
+};
+
+const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Switches and tunes the model behind one model profile (digest analysis by
+ * default). Changes replace the profile in the registry, so they reach every
+ * AIService created from it afterwards without touching other use cases.
+ */
 export class AIModelManager {
-  private aiService: AIService;
+  private profileName: string;
+  private registry: ModelProfileRegistry;
   private configFile: string;
+  private settingsFile: string;
+  private initialConfig: AIModelConfig;
+  private loaded: Promise<void>;
 
-  constructor() {
+  constructor(profileName: string = DIGEST_ANALYSIS_PROFILE, registry: ModelProfileRegistry = modelProfiles) {
+    this.profileName = profileName;
+    this.registry = registry;
     this.configFile = path.join(process.cwd(), 'config', 'current-ai-model.json');
-    this.aiService = AIService.getInstance();
+    this.settingsFile = path.join(process.cwd(), 'config', 'ai-settings.json');
+    this.initialConfig = this.getCurrentConfig();
     
     // Load persisted configuration on startup (don't await)
-    this.loadPersistedConfig().catch(err => 
-      logger.debug('Failed to load persisted AI config on startup', err)
-    );
+    this.loaded = this.loadPersistedConfig().catch(err => {
+      logger.debug('Failed to load persisted AI config on startup', err);
+    });
+  }
+
+  /**
+   * Resolves once the persisted model and settings have been applied
+   */
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  /**
+   * Re-apply the persisted model and settings whenever another process (the
+   * chat agent) changes them. Returns a function that stops following.
+   */
+  followPersistedConfig(): () => void {
+    const files = [this.configFile, this.settingsFile];
+    const listener = (current: Stats, previous: Stats) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+
+      this.loaded = this.loaded
+        .then(() => this.loadPersistedConfig())
+        .catch(error => {
+          logger.warn('Failed to reload persisted AI config', { error: error.message });
+        });
+    };
+
+    for (const file of files) {
+      // Don't keep the process alive just for the watcher
+      watchFile(file, { interval: 2000 }, listener).unref();
+    }
+
+    return () => files.forEach(file => unwatchFile(file, listener));
+  }
+
+  /**
+   * Current configuration of the managed profile
+   */
+  getCurrentConfig(): AIModelConfig {
+    return JSON.parse(JSON.stringify(this.registry.get(this.profileName)));
   }
 
   /**
@@ -25,23 +94,11 @@ export class AIModelManager {
    */
   async switchModel(provider: 'openai' | 'anthropic' | 'google' | 'ollama', modelName?: string, changeId?: string): Promise<ConfigOperationResult> {
     try {
-      const previousConfig = this.aiService.getConfig();
+      const previousConfig = this.getCurrentConfig();
       
       // Switch to new model
-      switch (provider) {
-        case 'openai':
-          this.aiService.useOpenAI(modelName);
-          break;
-        case 'anthropic':
-          this.aiService.useClaude(modelName);
-          break;
-        case 'google':
-          this.aiService.useGemini(modelName);
-          break;
-        case 'ollama':
-          this.aiService.useOllama(modelName);
-          break;
-      }
+      this.useProvider(provider, modelName, previousConfig.fallbacks);
+      await this.applySettingsOverrides();
 
       // Test the new model
       const testResult = await this.testModelConnection();
@@ -87,6 +144,171 @@ export class AIModelManager {
     }
   }
 
+  /**
+   * Work out the options an update would produce for the current model, without applying it
+   */
+  previewSettings(update: AISettingsUpdate): {
+    provider: AIProvider;
+    modelName: string;
+    before: AIModelOptions;
+    after: AIModelOptions;
+    validation: ConfigValidationResult;
+  } {
+    const { provider, modelName, options } = this.getCurrentConfig();
+    const before = this.cloneOptions(options);
+    const after = this.mergeSettings(before, update);
+
+    return {
+      provider,
+      modelName,
+      before,
+      after,
+      validation: this.validateSettings(provider, modelName, update, after)
+    };
+  }
+
+  /**
+   * Tune options (temperature, max tokens, reasoning effort, thinking budget, Ollama URL) of the current model
+   */
+  async updateSettings(update: AISettingsUpdate, changeId?: string): Promise<ConfigOperationResult> {
+    try {
+      const previousConfig = this.getCurrentConfig();
+      const { provider, modelName, before, after, validation } = this.previewSettings(update);
+
+      if (!validation.valid) {
+        return {
+          success: false,
+          message: `Cannot update ${provider} settings: ${validation.errors.join(', ')}`,
+          validationErrors: validation.errors,
+          warnings: validation.warnings
+        };
+      }
+
+      this.useConfig({ ...previousConfig, options: after });
+
+      const overrides = await this.loadSettingsOverrides();
+      const previousOverrides = overrides[provider];
+      overrides[provider] = this.mergeSettings(previousOverrides || {}, update);
+      await this.saveSettingsOverrides(overrides);
+
+      const summary = this.describeSettings(update);
+      const change: ConfigurationChange = {
+        id: changeId || 'ai-settings-change',
+        type: 'UPDATE_AI_SETTINGS',
+        description: `Updated ${provider}/${modelName} settings: ${summary}`,
+        parameters: { provider, modelName, ...update },
+        timestamp: new Date(),
+        status: 'applied',
+        rollbackData: {
+          config: { ...previousConfig, options: before },
+          overrides: previousOverrides ?? null
+        }
+      };
+
+      return {
+        success: true,
+        changeId,
+        message: `✅ Updated ${provider.toUpperCase()} settings: ${summary}`,
+        changes: [change],
+        warnings: validation.warnings
+      };
+
+    } catch (error: any) {
+      logger.error('Failed to update AI settings', { update, error: error.message });
+      return {
+        success: false,
+        message: `Failed to update AI settings: ${error.message}`,
+        validationErrors: [error.message]
+      };
+    }
+  }
+
+  /**
+   * Put back the settings that were active before an update (used by rollbacks)
+   */
+  async restoreSettings(data: { config: AIModelConfig; overrides: AISettingsUpdate | null }): Promise<ConfigOperationResult> {
+    try {
+      if (!data?.config?.provider || !data.config.modelName) {
+        throw new Error('Invalid AI settings rollback data');
+      }
+
+      this.useConfig(data.config);
+
+      const overrides = await this.loadSettingsOverrides();
+      if (data.overrides) {
+        overrides[data.config.provider] = data.overrides;
+      } else {
+        delete overrides[data.config.provider];
+      }
+      await this.saveSettingsOverrides(overrides);
+
+      return {
+        success: true,
+        message: `✅ Restored ${data.config.provider}/${data.config.modelName} settings`
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: `Failed to restore AI settings: ${error.message}`,
+        validationErrors: [error.message]
+      };
+    }
+  }
+
+  /**
+   * Check a settings update against what the provider and model accept
+   */
+  validateSettings(provider: AIProvider, modelName: string, update: AISettingsUpdate, merged: AIModelOptions): ConfigValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (update.temperature !== undefined) {
+      const max = provider === 'anthropic' ? 1 : 2;
+      if (!Number.isFinite(update.temperature) || update.temperature < 0 || update.temperature > max) {
+        errors.push(`Temperature must be between 0 and ${max} for ${provider}`);
+      } else if (provider === 'anthropic' && merged.thinking?.type === 'enabled' && AIService.supportsExtendedThinking(modelName)) {
+        warnings.push('Temperature is ignored while extended thinking is enabled');
+      }
+    }
+
+    if (update.max_tokens !== undefined) {
+      if (!Number.isInteger(update.max_tokens) || update.max_tokens < 1 || update.max_tokens > MAX_OUTPUT_TOKENS[provider]) {
+        errors.push(`Max tokens must be a whole number between 1 and ${MAX_OUTPUT_TOKENS[provider]} for ${provider}`);
+      }
+    }
+
+    if (update.reasoning_effort !== undefined) {
+      if (provider !== 'openai') {
+        errors.push(`Reasoning effort is only supported by OpenAI models (current provider: ${provider})`);
+      } else if (!['low', 'medium', 'high'].includes(update.reasoning_effort)) {
+        errors.push('Reasoning effort must be low, medium or high');
+      } else if (!AIService.isReasoningModel(modelName)) {
+        warnings.push(`${modelName} is not a reasoning model, so reasoning effort has no effect until you switch to one (e.g. o3-mini)`);
+      }
+    }
+
+    if (update.thinking !== undefined) {
+      const budget = update.thinking.budgetTokens;
+      if (provider !== 'anthropic') {
+        errors.push(`Thinking budget is only supported by Anthropic Claude models (current provider: ${provider})`);
+      } else if (budget !== undefined && (!Number.isInteger(budget) || budget < MIN_THINKING_BUDGET)) {
+        errors.push(`Thinking budget must be a whole number of at least ${MIN_THINKING_BUDGET} tokens`);
+      } else if (merged.thinking?.type === 'enabled' && !AIService.supportsExtendedThinking(modelName)) {
+        warnings.push(`${modelName} doesn't support extended thinking, so the budget has no effect until you switch to Claude 3.7 or later`);
+      }
+    }
+
+    if (update.baseURL !== undefined) {
+      if (provider !== 'ollama') {
+        errors.push(`A custom server URL is only supported for Ollama (current provider: ${provider})`);
+      } else if (!this.isHttpUrl(update.baseURL)) {
+        errors.push(`Invalid Ollama server URL: ${update.baseURL}`);
+      }
+    }
+
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
   /**
    * Validate model is available and working
    */
@@ -167,7 +389,7 @@ export class AIModelManager {
     try {
       const testPrompt = "Hello, please respond with 'OK' to confirm you're working.";
       
-      const response = await this.aiService.generateText({
+      const response = await new AIService(this.registry.get(this.profileName)).generateText({
         prompt: testPrompt,
         maxTokens: 10,
         temperature: 0
@@ -236,12 +458,130 @@ export class AIModelManager {
     }
   }
 
-  private async restoreModelConfig(config: any): Promise<void> {
-    if (config.provider && this.aiService.setConfig) {
-      this.aiService.setConfig(config);
+  /**
+   * Restore a previous model configuration (used by failed switches and rollbacks)
+   */
+  async restoreModelConfig(config: AIModelConfig): Promise<ConfigOperationResult> {
+    try {
+      if (!config?.provider || !config.modelName) {
+        throw new Error('Invalid model configuration');
+      }
+
+      this.useConfig(config);
+      await this.persistAIConfig(config.provider, config.modelName);
+
+      return {
+        success: true,
+        message: `✅ Restored ${config.provider}/${config.modelName} model`
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: `Failed to restore AI model configuration: ${error.message}`,
+        validationErrors: [error.message]
+      };
     }
   }
 
+  /**
+   * Human readable summary of a settings update
+   */
+  describeSettings(update: AISettingsUpdate): string {
+    const parts: string[] = [];
+
+    if (update.temperature !== undefined) parts.push(`temperature ${update.temperature}`);
+    if (update.max_tokens !== undefined) parts.push(`max tokens ${update.max_tokens}`);
+    if (update.reasoning_effort !== undefined) parts.push(`reasoning effort ${update.reasoning_effort}`);
+    if (update.thinking !== undefined) {
+      parts.push(update.thinking.type === 'disabled'
+        ? 'thinking disabled'
+        : `thinking budget ${update.thinking.budgetTokens ?? 'default'}`);
+    }
+    if (update.baseURL !== undefined) parts.push(`Ollama server ${update.baseURL}`);
+
+    return parts.join(', ');
+  }
+
+  private mergeSettings<T extends AISettingsUpdate>(options: T, update: AISettingsUpdate): T {
+    const merged: T = { ...options };
+
+    if (update.temperature !== undefined) merged.temperature = update.temperature;
+    if (update.max_tokens !== undefined) merged.max_tokens = update.max_tokens;
+    if (update.reasoning_effort !== undefined) merged.reasoning_effort = update.reasoning_effort;
+    if (update.baseURL !== undefined) merged.baseURL = update.baseURL;
+    if (update.thinking !== undefined) {
+      merged.thinking = { ...options.thinking, ...update.thinking };
+    }
+
+    return merged;
+  }
+
+  private cloneOptions(options: AIModelOptions): AIModelOptions {
+    return JSON.parse(JSON.stringify(options));
+  }
+
+  private isHttpUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Point the profile at a provider's default configuration (optionally another model)
+   */
+  private useProvider(provider: AIProvider, modelName?: string, fallbacks?: AIModelConfig['fallbacks']): void {
+    const defaults = AIService.getDefaultConfig(provider);
+    this.useConfig({
+      ...defaults,
+      modelName: modelName || defaults.modelName,
+      ...(fallbacks && { fallbacks })
+    });
+  }
+
+  /**
+   * Replace the profile's configuration. Creating the service first validates
+   * it (e.g. missing API keys) before anything is changed.
+   */
+  private useConfig(config: AIModelConfig): void {
+    new AIService(config);
+    this.registry.set(this.profileName, config);
+  }
+
+  /**
+   * Apply saved settings for the active provider on top of its defaults
+   */
+  private async applySettingsOverrides(): Promise<void> {
+    const config = this.getCurrentConfig();
+    const overrides = (await this.loadSettingsOverrides())[config.provider];
+
+    if (overrides) {
+      this.useConfig({ ...config, options: this.mergeSettings(this.cloneOptions(config.options), overrides) });
+      logger.info('Applied saved AI settings', { provider: config.provider, settings: overrides });
+    }
+  }
+
+  private async loadSettingsOverrides(): Promise<AISettingsOverrides> {
+    try {
+      const content = await fs.readFile(this.settingsFile, 'utf-8');
+      return JSON.parse(content).providers || {};
+    } catch {
+      return {};
+    }
+  }
+
+  private async saveSettingsOverrides(overrides: AISettingsOverrides): Promise<void> {
+    const content = {
+      providers: overrides,
+      timestamp: new Date().toISOString()
+    };
+
+    await writeJsonFileAtomic(this.settingsFile, content);
+    logger.info('AI settings persisted', { providers: Object.keys(overrides) });
+  }
+
   /**
    * Persist AI configuration to file to prevent reset on refresh
    */
@@ -262,38 +602,44 @@ export class AIModelManager {
   }
 
   /**
-   * Load persisted AI configuration on startup
+   * Load persisted AI configuration on top of the profile's config when this
+   * manager was created, so settings removed since a previous load go too.
+   * The profile is replaced once, with the result.
    */
   private async loadPersistedConfig(): Promise<void> {
+    let config = this.initialConfig;
+
     try {
       const content = await fs.readFile(this.configFile, 'utf-8');
-      const config = JSON.parse(content);
+      const persisted = JSON.parse(content);
       
-      if (config.provider && config.modelName) {
+      if (persisted.provider && persisted.modelName) {
         // Switch to the persisted model
-        switch (config.provider) {
-          case 'openai':
-            this.aiService.useOpenAI(config.modelName);
-            break;
-          case 'anthropic':
-            this.aiService.useClaude(config.modelName);
-            break;
-          case 'google':
-            this.aiService.useGemini(config.modelName);
-            break;
-          case 'ollama':
-            this.aiService.useOllama(config.modelName);
-            break;
-        }
+        const defaults = AIService.getDefaultConfig(persisted.provider);
+        config = {
+          ...defaults,
+          modelName: persisted.modelName,
+          ...(config.fallbacks && { fallbacks: config.fallbacks })
+        };
         
         logger.info('Loaded persisted AI configuration', { 
-          provider: config.provider, 
-          modelName: config.modelName 
+          provider: persisted.provider, 
+          modelName: persisted.modelName 
         });
       }
     } catch (error: any) {
       logger.debug('No persisted AI configuration found, using defaults');
       // File doesn't exist or is invalid, use defaults
     }
+
+    const overrides = (await this.loadSettingsOverrides())[config.provider];
+    if (overrides) {
+      config = { ...config, options: this.mergeSettings(this.cloneOptions(config.options), overrides) };
+      logger.info('Applied saved AI settings', { provider: config.provider, settings: overrides });
+    }
+
+    if (JSON.stringify(config) !== JSON.stringify(this.getCurrentConfig())) {
+      this.useConfig(config);
+    }
   }
-}
\ No newline at end of file
+}
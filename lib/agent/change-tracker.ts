@@ -2,16 +2,33 @@
 
 import fs from 'fs/promises';
 import path from 'path';
-import { ConfigurationChange } from '../../types/config-agent';
+import { ConfigOperationResult, ConfigurationChange } from '../../types/config-agent';
+import { SourceManager } from './source-manager';
+import { AIModelManager } from './ai-model-manager';
+import { ScheduleManager } from './schedule-manager';
+import { SourceType } from '../sources/source-registry';
 import logger from '../logger';
 
+export interface RollbackResult {
+  success: boolean;
+  error?: string;
+  changes?: ConfigurationChange[];
+}
+
 export class ChangeTracker {
   private changesFile: string;
   private changes: ConfigurationChange[] = [];
+  private loaded: Promise<void>;
+  private sourceManager: SourceManager;
+  private aiModelManager: AIModelManager;
+  private scheduleManager: ScheduleManager;
 
-  constructor() {
+  constructor(sourceManager: SourceManager, aiModelManager: AIModelManager, scheduleManager: ScheduleManager) {
     this.changesFile = path.join(process.cwd(), '.agent-changes.json');
-    this.loadChanges();
+    this.sourceManager = sourceManager;
+    this.aiModelManager = aiModelManager;
+    this.scheduleManager = scheduleManager;
+    this.loaded = this.loadChanges();
   }
 
   /**
@@ -19,6 +36,7 @@ export class ChangeTracker {
    */
   async logChange(change: ConfigurationChange): Promise<void> {
     try {
+      await this.loaded;
       this.changes.unshift(change); // Add to beginning
       
       // Keep only last 100 changes
@@ -38,73 +56,197 @@ export class ChangeTracker {
    * Get recent configuration changes
    */
   async getRecentChanges(limit: number = 10): Promise<ConfigurationChange[]> {
+    await this.loaded;
     return this.changes.slice(0, limit);
   }
 
   /**
-   * Rollback a specific change
+   * Rollback every applied change recorded under a change ID (newest first)
    */
-  async rollbackChange(changeId: string): Promise<{ success: boolean; error?: string; changes?: ConfigurationChange[] }> {
+  async rollbackChange(changeId: string): Promise<RollbackResult> {
     try {
-      const change = this.changes.find(c => c.id === changeId);
-      if (!change) {
+      await this.loaded;
+
+      const matching = this.changes.filter(c => c.id === changeId);
+      if (matching.length === 0) {
         return { success: false, error: 'Change not found' };
       }
 
-      if (change.status === 'rolled_back') {
+      const pending = matching.filter(c => c.status === 'applied');
+      if (pending.length === 0) {
         return { success: false, error: 'Change already rolled back' };
       }
 
-      if (!change.rollbackData) {
+      if (pending.some(c => !this.isReversible(c))) {
         return { success: false, error: 'No rollback data available' };
       }
 
-      // Execute rollback based on change type
-      const rollbackResult = await this.executeRollback(change);
-      
-      if (rollbackResult.success) {
-        // Mark as rolled back
-        change.status = 'rolled_back';
+      return await this.rollbackSequence(pending);
+
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Undo every applied change made after the given point in time, newest first.
+   * Stops at the first change that can't be reverted.
+   */
+  async rollbackToPointInTime(timestamp: Date): Promise<RollbackResult> {
+    try {
+      await this.loaded;
+
+      const pending = this.changes.filter(c =>
+        c.status === 'applied' &&
+        this.isReversible(c) &&
+        new Date(c.timestamp).getTime() > timestamp.getTime()
+      );
+
+      if (pending.length === 0) {
+        return { success: true, changes: [] };
+      }
+
+      return await this.rollbackSequence(pending);
+
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Revert changes in the given (newest first) order, saving progress as we go
+   */
+  private async rollbackSequence(changes: ConfigurationChange[]): Promise<RollbackResult> {
+    const rolledBack: ConfigurationChange[] = [];
+
+    for (const change of changes) {
+      const result = await this.executeRollback(change);
+
+      if (!result.success) {
         await this.saveChanges();
-        
+        const reason = `Failed to rollback "${change.description}": ${result.error}`;
         return {
-          success: true,
-          changes: [change]
+          success: false,
+          error: rolledBack.length > 0
+            ? `${reason} (${rolledBack.length} change(s) were rolled back before this)`
+            : reason,
+          changes: rolledBack
         };
-      } else {
-        return rollbackResult;
       }
 
-    } catch (error: any) {
-      return { success: false, error: error.message };
+      change.status = 'rolled_back';
+      rolledBack.push(change);
     }
+
+    await this.saveChanges();
+    return { success: true, changes: rolledBack };
+  }
+
+  private isReversible(change: ConfigurationChange): boolean {
+    return this.getSourceTarget(change) !== null ||
+      (['CHANGE_AI_MODEL', 'UPDATE_AI_SETTINGS', 'UPDATE_SCHEDULE'].includes(change.type) && !!change.rollbackData);
   }
 
   private async executeRollback(change: ConfigurationChange): Promise<{ success: boolean; error?: string }> {
-    // This would integrate with SourceManager and AIModelManager to actually rollback changes
-    // For now, we'll just mark it as rolled back
-    
     logger.info('Executing rollback', { changeId: change.id, type: change.type });
     
     try {
+      const rollbackId = `rollback-${change.id}`;
+      const target = this.getSourceTarget(change);
+      const data = change.rollbackData;
+      let result: ConfigOperationResult;
+
+      // Without rollback data a source change can only be reverted from its backup
+      if (!data && target) {
+        result = await this.sourceManager.restoreSourceFromBackup(change.id, target.type, target.identifier, rollbackId);
+        return result.success
+          ? { success: true }
+          : { success: false, error: (result.validationErrors || [result.message]).join(', ') };
+      }
+
       switch (change.type) {
         case 'ADD_TWITTER_SOURCE':
-          // Would call sourceManager.removeTwitterSource(rollbackData.username)
+          // A re-enabled source goes back to how it was (disabled)
+          result = data.source
+            ? await this.sourceManager.restoreSource(data.source, rollbackId)
+            : await this.sourceManager.removeTwitterSource(data.username, rollbackId);
           break;
         case 'REMOVE_TWITTER_SOURCE':
-          // Would call sourceManager.addTwitterSource(rollbackData.username)
+          result = data.source
+            ? await this.sourceManager.restoreSource(data.source, rollbackId)
+            : await this.sourceManager.addTwitterSource(data.username, rollbackId);
+          break;
+        case 'ADD_RSS_SOURCE':
+          result = data.source
+            ? await this.sourceManager.restoreSource(data.source, rollbackId)
+            : await this.sourceManager.removeRSSSource(data.url, rollbackId);
+          break;
+        case 'REMOVE_RSS_SOURCE':
+          result = data.source
+            ? await this.sourceManager.restoreSource(data.source, rollbackId)
+            : await this.sourceManager.addRSSSource(data.url, rollbackId);
+          break;
+        case 'ADD_TELEGRAM_SOURCE':
+          result = data.source
+            ? await this.sourceManager.restoreSource(data.source, rollbackId)
+            : await this.sourceManager.removeTelegramSource(data.channel, rollbackId);
+          break;
+        case 'REMOVE_TELEGRAM_SOURCE':
+          result = data.source
+            ? await this.sourceManager.restoreSource(data.source, rollbackId)
+            : await this.sourceManager.addTelegramSource(data.channel, rollbackId);
           break;
         case 'CHANGE_AI_MODEL':
-          // Would restore previous AI model configuration
+          result = await this.aiModelManager.restoreModelConfig(data);
           break;
+        case 'UPDATE_AI_SETTINGS':
+          result = await this.aiModelManager.restoreSettings(data);
+          break;
+        case 'UPDATE_SCHEDULE':
+          result = await this.scheduleManager.restoreDigestSchedule(data);
+          break;
+        default:
+          return { success: false, error: `Rollback not supported for ${change.type}` };
       }
-      
-      return { success: true };
+
+      // Source changes can still be reverted from the backup taken before they were applied
+      if (!result.success && target) {
+        logger.warn('Rollback via rollback data failed, restoring from backup', {
+          changeId: change.id,
+          error: result.message
+        });
+        result = await this.sourceManager.restoreSourceFromBackup(change.id, target.type, target.identifier, rollbackId);
+      }
+
+      return result.success
+        ? { success: true }
+        : { success: false, error: (result.validationErrors || [result.message]).join(', ') };
     } catch (error: any) {
       return { success: false, error: error.message };
     }
   }
 
+  /**
+   * Work out which source a source change touched (from rollback data or parameters)
+   */
+  private getSourceTarget(change: ConfigurationChange): { type: SourceType; identifier: string } | null {
+    const data = { ...change.parameters, ...(change.rollbackData || {}) };
+
+    switch (change.type) {
+      case 'ADD_TWITTER_SOURCE':
+      case 'REMOVE_TWITTER_SOURCE':
+        return data.username ? { type: 'twitter', identifier: data.username } : null;
+      case 'ADD_RSS_SOURCE':
+      case 'REMOVE_RSS_SOURCE':
+        return data.url ? { type: 'rss', identifier: data.url } : null;
+      case 'ADD_TELEGRAM_SOURCE':
+      case 'REMOVE_TELEGRAM_SOURCE':
+        return data.channel ? { type: 'telegram', identifier: data.channel } : null;
+      default:
+        return null;
+    }
+  }
+
   private async loadChanges(): Promise<void> {
     try {
       const content = await fs.readFile(this.changesFile, 'utf-8');
@@ -5,25 +5,29 @@ import { ConfigOperationResult, ConfigurationChange, ConfigValidationResult } fr
 import { SourceManager } from './source-manager';
 import { AIModelManager } from './ai-model-manager';
 import { ChangeTracker } from './change-tracker';
-import { AIService } from '../ai/ai-service';
+import { ScheduleManager } from './schedule-manager';
+import { ScheduleParser } from './schedule-parser';
+import { DIGEST_ANALYSIS_PROFILE, modelProfiles } from '../ai/model-profiles';
 import { DigestPipeline } from '../automation/digest-pipeline';
+import { pipelineRuns } from '../automation/pipeline-runs';
 import { DigestStorage } from '../digest/digest-storage';
+import { TopicFilter } from '../digest/topic-filter';
 import logger from '../logger';
 import { v4 as uuidv4 } from 'uuid';
 
 export class ConfigurationAgent {
   private sourceManager: SourceManager;
   private aiModelManager: AIModelManager;
+  private scheduleManager: ScheduleManager;
   private changeTracker: ChangeTracker;
   private digestStorage: DigestStorage;
-  private aiService: AIService;
 
   constructor() {
     this.sourceManager = new SourceManager();
     this.aiModelManager = new AIModelManager();
-    this.changeTracker = new ChangeTracker();
+    this.scheduleManager = new ScheduleManager();
+    this.changeTracker = new ChangeTracker(this.sourceManager, this.aiModelManager, this.scheduleManager);
     this.digestStorage = new DigestStorage();
-    this.aiService = AIService.getInstance();
     
     logger.info('ConfigurationAgent initialized');
   }
@@ -50,50 +54,18 @@ export class ConfigurationAgent {
         };
       }
 
-      // Route to appropriate handler
-      switch (intent.type) {
-        case 'ADD_TWITTER_SOURCE':
-          return await this.handleAddTwitterSource(intent.entities, changeId);
-        
-        case 'REMOVE_TWITTER_SOURCE':
-          return await this.handleRemoveTwitterSource(intent.entities, changeId);
-          
-        case 'ADD_RSS_SOURCE':
-          return await this.handleAddRSSSource(intent.entities, changeId);
-          
-        case 'REMOVE_RSS_SOURCE':
-          return await this.handleRemoveRSSSource(intent.entities, changeId);
-          
-        case 'CHANGE_AI_MODEL':
-          return await this.handleChangeAIModel(intent.entities, changeId);
-          
-        case 'RUN_DIGEST':
-          return await this.handleRunDigest(intent.entities, changeId);
-          
-        case 'GET_STATUS':
-          return await this.handleGetStatus();
-          
-        case 'GET_SOURCES':
-          return await this.handleGetSources();
-          
-        case 'GET_RECENT_DIGESTS':
-          return await this.handleGetRecentDigests();
-          
-        case 'GET_DIGEST_BY_ID':
-          return await this.handleGetDigestById(intent.entities);
-          
-        case 'GET_HELP':
-          return await this.handleGetHelp();
-          
-        case 'MULTI_ACTION':
-          return await this.handleMultiAction(intent, changeId);
-          
-        case 'UNKNOWN':
-        default:
-          // For unknown intents, show comprehensive help
-          return await this.handleGetHelp();
+      const result = await this.routeIntent(intent, changeId);
+
+      // Record applied changes so they can be rolled back later
+      // (multi-actions are recorded by the sub-intents they execute)
+      if (result.success && intent.type !== 'MULTI_ACTION') {
+        for (const change of result.changes || []) {
+          await this.changeTracker.logChange(change);
+        }
       }
 
+      return result;
+
     } catch (error: any) {
       logger.error('Configuration intent execution failed', { 
         error: error.message, 
@@ -109,6 +81,66 @@ export class ConfigurationAgent {
     }
   }
 
+  /**
+   * Route an intent to its handler
+   */
+  private async routeIntent(intent: ParsedIntent, changeId: string): Promise<ConfigOperationResult> {
+    switch (intent.type) {
+      case 'ADD_TWITTER_SOURCE':
+        return await this.handleAddTwitterSource(intent.entities, changeId);
+      
+      case 'REMOVE_TWITTER_SOURCE':
+        return await this.handleRemoveTwitterSource(intent.entities, changeId);
+        
+      case 'ADD_RSS_SOURCE':
+        return await this.handleAddRSSSource(intent.entities, changeId);
+        
+      case 'REMOVE_RSS_SOURCE':
+        return await this.handleRemoveRSSSource(intent.entities, changeId);
+        
+      case 'ADD_TELEGRAM_SOURCE':
+        return await this.handleAddTelegramSource(intent.entities, changeId);
+        
+      case 'REMOVE_TELEGRAM_SOURCE':
+        return await this.handleRemoveTelegramSource(intent.entities, changeId);
+        
+      case 'CHANGE_AI_MODEL':
+        return await this.handleChangeAIModel(intent.entities, changeId);
+        
+      case 'ADJUST_AI_SETTINGS':
+        return await this.handleAdjustAISettings(intent.entities, changeId);
+        
+      case 'RUN_DIGEST':
+        return await this.handleRunDigest(intent.entities, changeId);
+        
+      case 'SCHEDULE_DIGEST':
+        return await this.handleScheduleDigest(intent.entities, changeId);
+        
+      case 'GET_STATUS':
+        return await this.handleGetStatus();
+        
+      case 'GET_SOURCES':
+        return await this.handleGetSources();
+        
+      case 'GET_RECENT_DIGESTS':
+        return await this.handleGetRecentDigests();
+        
+      case 'GET_DIGEST_BY_ID':
+        return await this.handleGetDigestById(intent.entities);
+        
+      case 'GET_HELP':
+        return await this.handleGetHelp();
+        
+      case 'MULTI_ACTION':
+        return await this.handleMultiAction(intent, changeId);
+        
+      case 'UNKNOWN':
+      default:
+        // For unknown intents, show comprehensive help
+        return await this.handleGetHelp();
+    }
+  }
+
   /**
    * Handle adding Twitter source
    */
@@ -297,6 +329,112 @@ export class ConfigurationAgent {
     }
   }
 
+  /**
+   * Handle adding Telegram channels
+   */
+  private async handleAddTelegramSource(entities: ExtractedEntities, changeId: string): Promise<ConfigOperationResult> {
+    if (!entities.telegramChannels || entities.telegramChannels.length === 0) {
+      return {
+        success: false,
+        message: 'No Telegram channels specified. Please provide channel names to add.',
+        validationErrors: ['Missing Telegram channels']
+      };
+    }
+
+    const added: string[] = [];
+    const failed: string[] = [];
+    const results: ConfigOperationResult[] = [];
+    const warnings: string[] = [];
+    
+    for (const channel of entities.telegramChannels) {
+      // Make sure the channel has a public preview we can scrape
+      const validation = await this.sourceManager.validateTelegramChannel(channel);
+      if (!validation.valid) {
+        failed.push(channel);
+        results.push({
+          success: false,
+          message: `Cannot add t.me/${channel}: ${validation.errors.join(', ')}`,
+          validationErrors: validation.errors.map(error => `t.me/${channel}: ${error}`)
+        });
+        continue;
+      }
+      warnings.push(...validation.warnings.map(warning => `t.me/${channel}: ${warning}`));
+
+      const result = await this.sourceManager.addTelegramSource(channel, changeId);
+      (result.success ? added : failed).push(channel);
+      results.push(result);
+    }
+
+    const successful = results.filter(r => r.success);
+    const validationErrors = results.filter(r => !r.success).flatMap(r => r.validationErrors || []);
+    const format = (channels: string[]) => channels.map(c => `t.me/${c}`).join(', ');
+
+    if (failed.length === 0) {
+      return {
+        success: true,
+        changeId,
+        message: `✅ Successfully added ${format(added)} to Telegram sources`,
+        changes: successful.flatMap(r => r.changes || []),
+        warnings
+      };
+    } else if (added.length > 0) {
+      return {
+        success: true,
+        changeId,
+        message: `⚠️ Added ${format(added)} but failed to add ${format(failed)}`,
+        changes: successful.flatMap(r => r.changes || []),
+        validationErrors,
+        warnings
+      };
+    } else {
+      return {
+        success: false,
+        message: `❌ Failed to add any Telegram sources`,
+        validationErrors
+      };
+    }
+  }
+
+  /**
+   * Handle removing Telegram channels
+   */
+  private async handleRemoveTelegramSource(entities: ExtractedEntities, changeId: string): Promise<ConfigOperationResult> {
+    if (!entities.telegramChannels || entities.telegramChannels.length === 0) {
+      return {
+        success: false,
+        message: 'No Telegram channels specified. Please provide channel names to remove.',
+        validationErrors: ['Missing Telegram channels']
+      };
+    }
+
+    const results: ConfigOperationResult[] = [];
+    
+    for (const channel of entities.telegramChannels) {
+      const result = await this.sourceManager.removeTelegramSource(channel, changeId);
+      results.push(result);
+    }
+
+    const successful = results.filter(r => r.success);
+    const failed = results.filter(r => !r.success);
+
+    if (successful.length > 0 && failed.length === 0) {
+      const channels = entities.telegramChannels.map(c => `t.me/${c}`).join(', ');
+      return {
+        success: true,
+        changeId,
+        message: `✅ Successfully removed ${channels} from Telegram sources`,
+        changes: successful.flatMap(r => r.changes || [])
+      };
+    } else {
+      return {
+        success: false,
+        message: `❌ Failed to remove Telegram sources`,
+        changes: successful.flatMap(r => r.changes || []),
+        validationErrors: failed.flatMap(r => r.validationErrors || [])
+      };
+    }
+  }
+
   /**
    * Handle AI model changes
    */
@@ -337,6 +475,50 @@ export class ConfigurationAgent {
     }
   }
 
+  /**
+   * Handle tuning of the current AI model's settings
+   */
+  private async handleAdjustAISettings(entities: ExtractedEntities, changeId: string): Promise<ConfigOperationResult> {
+    if (!entities.aiSettings || Object.keys(entities.aiSettings).length === 0) {
+      return {
+        success: false,
+        message: 'No AI settings specified. You can set temperature, max tokens, reasoning effort, thinking budget or the Ollama server URL.',
+        validationErrors: ['Missing AI settings']
+      };
+    }
+
+    return await this.aiModelManager.updateSettings(entities.aiSettings, changeId);
+  }
+
+  /**
+   * Handle changes to the automated digest schedule
+   */
+  private async handleScheduleDigest(entities: ExtractedEntities, changeId: string): Promise<ConfigOperationResult> {
+    if (!entities.cronPattern && !entities.timezone) {
+      return {
+        success: false,
+        message: 'I couldn\'t work out a schedule. Try something like "run the digest every weekday at 8am Berlin time".',
+        validationErrors: ['Missing schedule']
+      };
+    }
+
+    const previous = this.scheduleManager.getDigestSchedule();
+    const result = await this.scheduleManager.updateDigestSchedule({
+      cronPattern: entities.cronPattern,
+      timezone: entities.timezone,
+      enabled: entities.cronPattern ? true : undefined
+    }, changeId);
+
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      ...result,
+      message: `${result.message}\nPreviously: ${ScheduleParser.describe(previous.cron_pattern, previous.timezone)}${previous.enabled ? '' : ' (disabled)'}`
+    };
+  }
+
   /**
    * Handle digest generation with custom parameters
    */
@@ -354,39 +536,61 @@ export class ConfigurationAgent {
       if (entities.maxSources) {
         digestOptions.maxSources = entities.maxSources;
       }
+
+      const focusTopics = TopicFilter.normalizeTopics(entities.focusTopics);
+      if (focusTopics.length > 0) {
+        digestOptions.focusTopics = focusTopics;
+      }
+
+      const skipSources = entities.skipSources || [];
+      if (skipSources.length > 0) {
+        digestOptions.skipSources = skipSources;
+      }
+      if (['twitter', 'telegram', 'rss'].every(platform => skipSources.includes(platform))) {
+        return {
+          success: false,
+          message: 'Cannot generate a digest with every source skipped. Leave at least one of Twitter, Telegram or RSS enabled.',
+          validationErrors: ['All sources skipped']
+        };
+      }
       
       // Configure pipeline options
       const pipelineConfig = {
-        enableTwitter: !entities.skipSources?.includes('twitter'),
-        enableTelegram: !entities.skipSources?.includes('telegram'),
-        enableRSS: !entities.skipSources?.includes('rss'),
-        aiModel: 'anthropic',
-        aiModelName: 'claude-3-5-sonnet-20241022',
+        enableTwitter: !skipSources.includes('twitter'),
+        enableTelegram: !skipSources.includes('telegram'),
+        enableRSS: !skipSources.includes('rss'),
+        modelProfile: DIGEST_ANALYSIS_PROFILE, // follows model switches made in chat
         analysisType: 'digest',
         postToSlack: false,
         minQualityThreshold: 0.7,
-        maxContentAge: digestOptions.maxContentAge
+        maxContentAge: digestOptions.maxContentAge,
+        maxSources: digestOptions.maxSources,
+        focusTopics
       };
 
       // Log the digest generation request
       const change: ConfigurationChange = {
         id: changeId,
         type: 'RUN_DIGEST' as any,
-        description: `Generate digest with custom parameters`,
+        description: focusTopics.length > 0
+          ? `Generate digest focused on ${focusTopics.join(', ')}`
+          : `Generate digest with custom parameters`,
         parameters: digestOptions,
         timestamp: new Date(),
         status: 'applied'
       };
 
-      await this.changeTracker.logChange(change);
-
-      // Start the actual digest pipeline in the background
+      // Start the actual digest pipeline in the background - progress is streamed per run
+      pipelineRuns.create(changeId);
       this.executeDigestPipeline(pipelineConfig, changeId);
 
       return {
         success: true,
         changeId,
-        message: `🚀 Starting digest generation with your custom parameters...`,
+        runId: changeId,
+        message: focusTopics.length > 0
+          ? `🚀 Starting digest generation focused on ${focusTopics.join(', ')}...`
+          : `🚀 Starting digest generation with your custom parameters...`,
         changes: [change]
       };
 
@@ -400,24 +604,26 @@ export class ConfigurationAgent {
   }
 
   /**
-   * Execute digest pipeline in background
+   * Execute digest pipeline in background, recording progress under the run ID
    */
-  private async executeDigestPipeline(config: any, changeId: string): Promise<void> {
+  private async executeDigestPipeline(config: any, runId: string): Promise<void> {
+    let pipeline: DigestPipeline | undefined;
+
     try {
-      logger.info('Starting digest pipeline execution', { changeId, config });
+      logger.info('Starting digest pipeline execution', { runId, config });
       
-      const pipeline = new DigestPipeline(config);
+      pipeline = new DigestPipeline(config);
+      pipelineRuns.track(runId, pipeline);
       await pipeline.execute();
       
-      logger.info('Digest pipeline completed successfully', { changeId });
-      
-      // TODO: For now this runs in background. In the future, we should:
-      // 1. Use WebSocket/SSE to stream progress updates to the UI
-      // 2. Return the digest result (Twitter URL, digest content) to the user
-      // 3. Show live progress bars and status updates during generation
+      logger.info('Digest pipeline completed successfully', { runId, result: pipeline.getLastResult() });
       
     } catch (error: any) {
-      logger.error('Digest pipeline execution failed', { changeId, error: error.message });
+      logger.error('Digest pipeline execution failed', { runId, error: error.message });
+      // Covers failures before the pipeline could report them itself (e.g. in its constructor)
+      pipelineRuns.fail(runId, error.message);
+    } finally {
+      pipeline?.dispose();
     }
   }
 
@@ -456,6 +662,12 @@ export class ConfigurationAgent {
       if (sources.twitter.length > 0) {
         message += `\n\nTwitter accounts: ${sources.twitter.map(u => `@${u}`).join(', ')}`;
       }
+      if (sources.telegram.length > 0) {
+        message += `\n\nTelegram channels: ${sources.telegram.map(c => `t.me/${c}`).join(', ')}`;
+      }
+      if (sources.rss.length > 0) {
+        message += `\n\nRSS feeds: ${sources.rss.join(', ')}`;
+      }
 
       return {
         success: true,
@@ -491,6 +703,9 @@ export class ConfigurationAgent {
         message += `🔖 **${digest.title}**\n`;
         message += `   📅 ${date}\n`;
         message += `   🤖 ${digest.ai_provider}:${digest.ai_model}\n`;
+        if (digest.focus_topics?.length) {
+          message += `   🎯 Topics: ${digest.focus_topics.join(', ')}\n`;
+        }
         message += `   📋 ID: ${digest.id}\n\n`;
       }
 
@@ -537,6 +752,9 @@ export class ConfigurationAgent {
       let message = `📊 **${digest.title}**\n\n`;
       message += `📅 **Created:** ${date} at ${time}\n`;
       message += `🤖 **AI Model:** ${digest.ai_provider}:${digest.ai_model}\n`;
+      if (digest.focus_topics?.length) {
+        message += `🎯 **Focus Topics:** ${digest.focus_topics.join(', ')}\n`;
+      }
       message += `📋 **ID:** ${digest.id}\n\n`;
       
       message += `📝 **Summary:**\n${digest.summary}\n\n`;
@@ -585,16 +803,21 @@ export class ConfigurationAgent {
       message += `• *"Add @username to Twitter sources"* - Monitor Twitter accounts\n`;
       message += `• *"Subscribe to TechCrunch RSS"* - Add RSS feeds\n`;
       message += `• *"Remove @username from Twitter"* - Stop monitoring accounts\n`;
+      message += `• *"Add t.me/channel to Telegram sources"* - Monitor public Telegram channels\n`;
+      message += `• *"Remove channel from Telegram"* - Stop monitoring a channel\n`;
       message += `• *"Show current sources"* - List all configured sources\n\n`;
       
       message += `## 🤖 **AI Configuration**\n`;
       message += `• *"Switch to Claude model"* - Change AI provider\n`;
       message += `• *"Change to OpenAI"* - Use OpenAI GPT models\n`;
       message += `• *"Switch to Gemini"* - Use Google Gemini\n`;
-      message += `• *"Use Ollama"* - Use local Ollama models\n\n`;
+      message += `• *"Use Ollama"* - Use local Ollama models\n`;
+      message += `• *"Set temperature to 0.3 and max tokens to 4000"* - Tune the current model\n`;
+      message += `• *"Give Claude a 10k thinking budget"* - Adjust reasoning effort or thinking budget\n\n`;
       
       message += `## 📰 **Digest Generation**\n`;
       message += `• *"Generate digest with current settings"* - Create new digest\n`;
+      message += `• *"Run the digest every weekday at 8am Berlin time"* - Change the automated schedule\n`;
       message += `• *"Show recent digests"* - View digest history\n`;
       message += `• *"Show digest [ID]"* - View specific digest details\n\n`;
       
@@ -695,6 +918,39 @@ export class ConfigurationAgent {
     }
   }
 
+  /**
+   * Rollback every configuration change made after a point in time
+   */
+  async rollbackToPointInTime(timestamp: Date): Promise<ConfigOperationResult> {
+    try {
+      const result = await this.changeTracker.rollbackToPointInTime(timestamp);
+      const count = result.changes?.length || 0;
+
+      if (result.success) {
+        return {
+          success: true,
+          message: count > 0
+            ? `✅ Rolled back ${count} change(s) made after ${timestamp.toLocaleString()}`
+            : `No changes to roll back after ${timestamp.toLocaleString()}`,
+          changes: result.changes
+        };
+      } else {
+        return {
+          success: false,
+          message: `Failed to rollback to ${timestamp.toLocaleString()}: ${result.error}`,
+          changes: result.changes,
+          validationErrors: [result.error || 'Unknown rollback error']
+        };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        message: `Rollback failed: ${error.message}`,
+        validationErrors: [error.message]
+      };
+    }
+  }
+
   /**
    * Get recent configuration changes
    */
@@ -707,8 +963,16 @@ export class ConfigurationAgent {
     switch (intent.type) {
       case 'ADD_TWITTER_SOURCE':
         return `add ${intent.entities.twitterUsernames?.map(u => `@${u}`).join(', ')} to Twitter sources`;
+      case 'ADD_TELEGRAM_SOURCE':
+        return `add ${intent.entities.telegramChannels?.map(c => `t.me/${c}`).join(', ')} to Telegram sources`;
+      case 'REMOVE_TELEGRAM_SOURCE':
+        return `remove ${intent.entities.telegramChannels?.map(c => `t.me/${c}`).join(', ')} from Telegram sources`;
       case 'CHANGE_AI_MODEL':
         return `switch to ${intent.entities.aiModel} AI model`;
+      case 'ADJUST_AI_SETTINGS':
+        return `update AI settings (${this.aiModelManager.describeSettings(intent.entities.aiSettings || {})})`;
+      case 'SCHEDULE_DIGEST':
+        return `change the digest schedule to ${intent.entities.cronPattern ? ScheduleParser.describe(intent.entities.cronPattern, intent.entities.timezone) : intent.entities.timezone}`;
       default:
         return `perform ${intent.type.toLowerCase().replace('_', ' ')}`;
     }
@@ -755,7 +1019,7 @@ export class ConfigurationAgent {
   }
 
   private async getSystemStatus(): Promise<string> {
-    const currentModel = this.aiService.getConfig();
+    const currentModel = modelProfiles.get(DIGEST_ANALYSIS_PROFILE);
     const sources = await this.sourceManager.getCurrentSources();
     const recentChanges = await this.getRecentChanges(3);
     
@@ -1,17 +1,19 @@
 // lib/agent/intent-parser.ts
 
 import { AIService } from '../ai/ai-service';
+import { INTENT_PARSING_PROFILE } from '../ai/model-profiles';
 import { ParsedIntent, ExtractedEntities, IntentRecognitionResult } from '../../types/agent';
+import { AISettingsUpdate } from '../../types/ai';
 import { EntityExtractor } from './entity-extractor';
+import { ScheduleParser } from './schedule-parser';
 import logger from '../logger';
 
 export class IntentParser {
   private aiService: AIService;
   
   constructor() {
-    this.aiService = AIService.getInstance();
-    // Use a fast, cost-effective model for intent parsing
-    this.aiService.useGemini('gemini-1.5-flash'); // Fast and cheap for this task
+    // Fast, cost-effective model, independent of the digest analysis model
+    this.aiService = AIService.forProfile(INTENT_PARSING_PROFILE);
   }
 
   /**
@@ -97,13 +99,30 @@ ENTITY EXTRACTION RULES:
 - Time ranges: "last 24 hours", "past week", etc.
 - Focus topics: Extract subject areas like "AI", "crypto", "tech", etc.
 - Numbers: max articles, confidence thresholds, etc.
+- Skipped sources: platforms to leave out of a digest (twitter, telegram, rss)
 - Digest IDs: UUID format like "fee6c2b0-21b8-4fb6-a8b5-5277c344511d"
+- AI settings: temperature, max tokens, reasoning effort (low/medium/high), thinking budget in tokens (or thinking on/off), Ollama server URL
+- Schedules: the schedule phrase as written, plus a 5-field cron pattern and IANA timezone when you can tell
 
 RSS BRAND EXAMPLES:
 - "Subscribe to TechCrunch RSS" → extract "TechCrunch" as RSS brand
 - "Add Hacker News feed" → extract "Hacker News" as RSS brand
 - "Subscribe to The Verge" → extract "The Verge" as RSS brand
 
+AI SETTINGS EXAMPLES:
+- "Set temperature to 0.3" → ADJUST_AI_SETTINGS, temperature 0.3
+- "Give Claude a 10k thinking budget" → ADJUST_AI_SETTINGS, thinking_budget 10000
+- "Use high reasoning effort and 4000 max tokens" → ADJUST_AI_SETTINGS, reasoning_effort "high", max_tokens 4000
+- "Point Ollama at http://gpu-box:11434" → ADJUST_AI_SETTINGS, ollama_base_url "http://gpu-box:11434"
+
+DIGEST EXAMPLES:
+- "Generate a digest from the top 20 items" → RUN_DIGEST, max_sources 20
+- "Make a digest without Telegram" → RUN_DIGEST, skip_sources ["telegram"]
+
+SCHEDULE EXAMPLES:
+- "Run the digest every weekday at 8am Berlin time" → SCHEDULE_DIGEST, cron_pattern "0 8 * * 1-5", timezone "Europe/Berlin"
+- "Generate digests every 3 hours" → SCHEDULE_DIGEST, cron_pattern "0 */3 * * *"
+
 HELP REQUEST EXAMPLES:
 - "What can I do?" → GET_HELP
 - "Help" → GET_HELP  
@@ -122,7 +141,17 @@ OUTPUT FORMAT (JSON):
     "time_range": "24 hours",
     "focus_topics": ["AI", "crypto"],
     "max_sources": 50,
-    "digest_id": "fee6c2b0-21b8-4fb6-a8b5-5277c344511d"
+    "skip_sources": ["telegram"],
+    "digest_id": "fee6c2b0-21b8-4fb6-a8b5-5277c344511d",
+    "schedule": "every weekday at 8am Berlin time",
+    "cron_pattern": "0 8 * * 1-5",
+    "timezone": "Europe/Berlin",
+    "temperature": 0.3,
+    "max_tokens": 4000,
+    "reasoning_effort": "high",
+    "thinking_budget": 10000,
+    "thinking_enabled": true,
+    "ollama_base_url": "http://localhost:11434"
   },
   "confidence": 0.95,
   "requires_confirmation": false,
@@ -153,10 +182,17 @@ Be precise with entity extraction and conservative with confidence scores.`;
       
 
       
+      const entities = this.normalizeEntities(parsed.entities, originalMessage);
+
+      // Schedule requests don't always come back with schedule entities - read the message itself
+      if (parsed.intent_type === 'SCHEDULE_DIGEST' && !entities.cronPattern && !entities.timezone) {
+        Object.assign(entities, this.parseSchedule({}, originalMessage));
+      }
+
       // Convert to our internal format
       return {
         type: parsed.intent_type,
-        entities: this.normalizeEntities(parsed.entities, originalMessage),
+        entities,
         confidence: parsed.confidence,
         originalMessage,
         suggestedActions: parsed.suggested_actions,
@@ -205,7 +241,11 @@ Be precise with entity extraction and conservative with confidence scores.`;
     // Normalize Telegram channels
     if (rawEntities.telegram_channels && Array.isArray(rawEntities.telegram_channels)) {
       entities.telegramChannels = rawEntities.telegram_channels.map((channel: string) =>
-        channel.replace('@', '').toLowerCase()
+        channel
+          .replace(/^(https?:\/\/)?(www\.)?t\.me\/(s\/)?/i, '')
+          .replace('@', '')
+          .replace(/\/.*$/, '')
+          .toLowerCase()
       );
     }
 
@@ -237,6 +277,13 @@ Be precise with entity extraction and conservative with confidence scores.`;
       entities.maxSources = Math.max(1, Math.min(1000, rawEntities.max_sources));
     }
 
+    if (Array.isArray(rawEntities.skip_sources)) {
+      const skipSources = this.normalizeSourcePlatforms(rawEntities.skip_sources);
+      if (skipSources.length > 0) {
+        entities.skipSources = skipSources;
+      }
+    }
+
     // Digest ID extraction
     if (rawEntities.digest_id && typeof rawEntities.digest_id === 'string' && rawEntities.digest_id.length > 0) {
       entities.digestId = rawEntities.digest_id;
@@ -247,6 +294,20 @@ Be precise with entity extraction and conservative with confidence scores.`;
       entities.focusTopics = rawEntities.focus_topics;
     }
 
+    // AI model settings
+    const aiSettings = this.normalizeAISettings(rawEntities);
+    if (Object.keys(aiSettings).length > 0) {
+      entities.aiSettings = aiSettings;
+    }
+
+    // Schedule extraction - our own parser wins, AI-suggested values are a fallback
+    if (rawEntities.schedule && typeof rawEntities.schedule === 'string') {
+      entities.schedule = rawEntities.schedule;
+    }
+    if (entities.schedule || rawEntities.cron_pattern || rawEntities.timezone) {
+      Object.assign(entities, this.parseSchedule(rawEntities, originalMessage));
+    }
+
     // Merge with regex-based entity extraction (includes RSS brand mapping)
     if (originalMessage) {
       const regexExtracted = EntityExtractor.extractEntities(originalMessage, rawEntities);
@@ -275,12 +336,27 @@ Be precise with entity extraction and conservative with confidence scores.`;
       if (entities.maxSources) {
         mergedEntities.maxSources = entities.maxSources;
       }
+      if (entities.skipSources && entities.skipSources.length > 0) {
+        mergedEntities.skipSources = entities.skipSources;
+      }
       if (entities.focusTopics && entities.focusTopics.length > 0) {
         mergedEntities.focusTopics = entities.focusTopics;
       }
       if (entities.digestId) {
         mergedEntities.digestId = entities.digestId;
       }
+      if (entities.aiSettings) {
+        mergedEntities.aiSettings = entities.aiSettings;
+      }
+      if (entities.schedule) {
+        mergedEntities.schedule = entities.schedule;
+      }
+      if (entities.cronPattern) {
+        mergedEntities.cronPattern = entities.cronPattern;
+      }
+      if (entities.timezone) {
+        mergedEntities.timezone = entities.timezone;
+      }
       
       return mergedEntities;
     }
@@ -288,6 +364,93 @@ Be precise with entity extraction and conservative with confidence scores.`;
     return entities;
   }
 
+  /**
+   * Map platform names ("X", "tweets", "news feeds"...) to digest source types
+   */
+  private normalizeSourcePlatforms(values: unknown[]): string[] {
+    const platforms = new Set<string>();
+
+    for (const value of values) {
+      if (typeof value !== 'string') continue;
+      const name = value.toLowerCase().trim();
+
+      if (/^(x|twitter|tweets?)$/.test(name)) {
+        platforms.add('twitter');
+      } else if (/^telegram/.test(name)) {
+        platforms.add('telegram');
+      } else if (/^(rss|feeds?|news|articles?|news feeds?|rss feeds?)$/.test(name)) {
+        platforms.add('rss');
+      }
+    }
+
+    return Array.from(platforms);
+  }
+
+  /**
+   * Pick AI model settings out of the raw entities (range checks happen in AIModelManager)
+   */
+  private normalizeAISettings(rawEntities: any): AISettingsUpdate {
+    const settings: AISettingsUpdate = {};
+    const toNumber = (value: any): number | undefined => {
+      const number = typeof value === 'string' ? parseFloat(value.replace(/k$/i, '000')) : value;
+      return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+    };
+
+    const temperature = toNumber(rawEntities.temperature);
+    if (temperature !== undefined) {
+      settings.temperature = temperature;
+    }
+
+    const maxTokens = toNumber(rawEntities.max_tokens);
+    if (maxTokens !== undefined) {
+      settings.max_tokens = Math.round(maxTokens);
+    }
+
+    if (typeof rawEntities.reasoning_effort === 'string') {
+      settings.reasoning_effort = rawEntities.reasoning_effort.toLowerCase() as AISettingsUpdate['reasoning_effort'];
+    }
+
+    const thinkingBudget = toNumber(rawEntities.thinking_budget);
+    if (rawEntities.thinking_enabled === false) {
+      settings.thinking = { type: 'disabled' };
+    } else if (thinkingBudget !== undefined) {
+      settings.thinking = { type: 'enabled', budgetTokens: Math.round(thinkingBudget) };
+    } else if (rawEntities.thinking_enabled === true) {
+      settings.thinking = { type: 'enabled' };
+    }
+
+    if (typeof rawEntities.ollama_base_url === 'string' && rawEntities.ollama_base_url.trim()) {
+      settings.baseURL = rawEntities.ollama_base_url.trim();
+    }
+
+    return settings;
+  }
+
+  /**
+   * Turn schedule entities into a validated cron pattern and timezone
+   */
+  private parseSchedule(rawEntities: any, originalMessage?: string): Pick<ExtractedEntities, 'cronPattern' | 'timezone'> {
+    const fromPhrase = ScheduleParser.parse(rawEntities.schedule || '');
+    const fromMessage = originalMessage ? ScheduleParser.parse(originalMessage) : {};
+    const result: Pick<ExtractedEntities, 'cronPattern' | 'timezone'> = {};
+
+    const aiCron = typeof rawEntities.cron_pattern === 'string' ? rawEntities.cron_pattern.trim() : '';
+    const cronPattern = fromPhrase.cronPattern || fromMessage.cronPattern ||
+      (aiCron && ScheduleParser.isValidCronPattern(aiCron) ? aiCron : undefined);
+    if (cronPattern) {
+      result.cronPattern = cronPattern;
+    }
+
+    const aiTimezone = typeof rawEntities.timezone === 'string' ? rawEntities.timezone.trim() : '';
+    const timezone = fromPhrase.timezone || fromMessage.timezone ||
+      (aiTimezone && ScheduleParser.isValidTimezone(aiTimezone) ? aiTimezone : undefined);
+    if (timezone) {
+      result.timezone = timezone;
+    }
+
+    return result;
+  }
+
   /**
    * Validate URL format
    */
@@ -0,0 +1,329 @@
+// lib/agent/pending-action-store.ts
+
+import path from 'path';
+import { z } from 'zod';
+import { ParsedIntent } from '../../types/agent';
+import { JsonFileStore } from '../storage/json-file-store';
+import { createStore, StoreType, SupabaseBackedStore } from '../storage/store-factory';
+import logger from '../logger';
+
+/**
+ * An action previewed in the chat that is waiting for the user to confirm it
+ */
+export interface PendingAction {
+  id: string;
+  intent: ParsedIntent;
+  createdAt: number;   // epoch ms
+  expiresAt: number;   // epoch ms
+  consumedAt?: number; // set once the action has been executed
+}
+
+export type ConsumeFailureReason = 'not_found' | 'expired' | 'consumed';
+
+export type ConsumeResult =
+  | { ok: true; action: PendingAction }
+  | { ok: false; reason: ConsumeFailureReason };
+
+/**
+ * Storage for pending chat confirmations. Actions expire after their TTL and
+ * can only be consumed (i.e. executed) once.
+ */
+export interface PendingActionStore {
+  save(id: string, intent: ParsedIntent, ttlMs?: number): Promise<PendingAction>;
+  get(id: string): Promise<PendingAction | undefined>;
+  /** Atomically mark an action as executed. Fails if it is missing, expired or already consumed. */
+  consume(id: string): Promise<ConsumeResult>;
+  delete(id: string): Promise<boolean>;
+  /** Remove actions that are past their expiry retention window. Returns how many were removed. */
+  purgeExpired(): Promise<number>;
+}
+
+export type PendingActionStoreType = StoreType;
+
+export const DEFAULT_PENDING_ACTION_TTL_MS = 15 * 60 * 1000;
+
+// Expired and consumed actions are kept around for a while so a late
+// confirmation gets a clear "expired"/"already executed" answer instead of "not found"
+const RETENTION_MS = 60 * 60 * 1000;
+
+function createAction(id: string, intent: ParsedIntent, ttlMs: number): PendingAction {
+  const now = Date.now();
+  return { id, intent, createdAt: now, expiresAt: now + ttlMs };
+}
+
+function checkConsumable(action: PendingAction | undefined, now: number): ConsumeFailureReason | undefined {
+  if (!action) return 'not_found';
+  if (action.consumedAt) return 'consumed';
+  if (action.expiresAt <= now) return 'expired';
+  return undefined;
+}
+
+function isPurgeable(action: PendingAction, now: number): boolean {
+  return action.expiresAt + RETENTION_MS <= now;
+}
+
+/**
+ * Process-local store. Fine for a single dev server; actions are lost on restart.
+ */
+export class MemoryPendingActionStore implements PendingActionStore {
+  private actions: Map<string, PendingAction> = new Map();
+  private defaultTtlMs: number;
+
+  constructor(defaultTtlMs: number = DEFAULT_PENDING_ACTION_TTL_MS) {
+    this.defaultTtlMs = defaultTtlMs;
+  }
+
+  async save(id: string, intent: ParsedIntent, ttlMs: number = this.defaultTtlMs): Promise<PendingAction> {
+    await this.purgeExpired();
+    const action = createAction(id, intent, ttlMs);
+    this.actions.set(id, action);
+    return action;
+  }
+
+  async get(id: string): Promise<PendingAction | undefined> {
+    return this.actions.get(id);
+  }
+
+  async consume(id: string): Promise<ConsumeResult> {
+    // No await between the check and the update, so this is atomic within the process
+    const action = this.actions.get(id);
+    const now = Date.now();
+    const reason = checkConsumable(action, now);
+    if (reason) return { ok: false, reason };
+
+    action!.consumedAt = now;
+    return { ok: true, action: action! };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.actions.delete(id);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [id, action] of Array.from(this.actions.entries())) {
+      if (isPurgeable(action, now)) {
+        this.actions.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+const pendingActionFileSchema = z.object({
+  version: z.literal(1),
+  actions: z.array(z.object({
+    id: z.string(),
+    intent: z.any(),
+    createdAt: z.number(),
+    expiresAt: z.number(),
+    consumedAt: z.number().optional(),
+  })),
+});
+
+type PendingActionFile = z.infer<typeof pendingActionFileSchema>;
+
+/**
+ * JSON-file store so confirmations survive a server restart. All operations
+ * are serialized within the process and written via temp file + rename.
+ */
+export class FilePendingActionStore implements PendingActionStore {
+  private file: JsonFileStore<PendingActionFile>;
+  private defaultTtlMs: number;
+
+  constructor(
+    filePath: string = path.join(process.cwd(), '.agent-pending-actions.json'),
+    defaultTtlMs: number = DEFAULT_PENDING_ACTION_TTL_MS
+  ) {
+    this.file = new JsonFileStore(filePath, {
+      schema: pendingActionFileSchema,
+      empty: () => ({ version: 1, actions: [] }),
+      label: 'pending actions'
+    });
+    this.defaultTtlMs = defaultTtlMs;
+  }
+
+  save(id: string, intent: ParsedIntent, ttlMs: number = this.defaultTtlMs): Promise<PendingAction> {
+    return this.file.transaction(document => {
+      const now = Date.now();
+      const action = createAction(id, intent, ttlMs);
+      document.actions = document.actions
+        .filter(entry => entry.id !== id && !isPurgeable(entry, now))
+        .concat(action);
+      return { result: action, changed: true };
+    });
+  }
+
+  get(id: string): Promise<PendingAction | undefined> {
+    return this.file.transaction(document => ({
+      result: document.actions.find(entry => entry.id === id),
+      changed: false
+    }));
+  }
+
+  consume(id: string): Promise<ConsumeResult> {
+    return this.file.transaction<ConsumeResult>(document => {
+      const action = document.actions.find(entry => entry.id === id);
+      const now = Date.now();
+      const reason = checkConsumable(action, now);
+      if (reason) return { result: { ok: false, reason }, changed: false };
+
+      action!.consumedAt = now;
+      return { result: { ok: true, action: action! }, changed: true };
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.file.transaction(document => {
+      const before = document.actions.length;
+      document.actions = document.actions.filter(entry => entry.id !== id);
+      const removed = document.actions.length < before;
+      return { result: removed, changed: removed };
+    });
+  }
+
+  purgeExpired(): Promise<number> {
+    return this.file.transaction(document => {
+      const now = Date.now();
+      const before = document.actions.length;
+      document.actions = document.actions.filter(entry => !isPurgeable(entry, now));
+      const removed = before - document.actions.length;
+      return { result: removed, changed: removed > 0 };
+    });
+  }
+
+}
+
+/**
+ * Store backed by the `pending_actions` table, for deployments running more
+ * than one server instance. Consuming is a conditional update, so only one
+ * request can win.
+ */
+export class SupabasePendingActionStore extends SupabaseBackedStore implements PendingActionStore {
+  private defaultTtlMs: number;
+
+  constructor(defaultTtlMs: number = DEFAULT_PENDING_ACTION_TTL_MS) {
+    super();
+    this.defaultTtlMs = defaultTtlMs;
+  }
+
+  async save(id: string, intent: ParsedIntent, ttlMs: number = this.defaultTtlMs): Promise<PendingAction> {
+    const action = createAction(id, intent, ttlMs);
+
+    const { error } = await this.supabase
+      .from('pending_actions')
+      .upsert({
+        id: action.id,
+        intent: action.intent,
+        created_at: new Date(action.createdAt).toISOString(),
+        expires_at: new Date(action.expiresAt).toISOString(),
+        consumed_at: null
+      });
+
+    if (error) {
+      throw new Error(`Failed to save pending action: ${error.message}`);
+    }
+
+    // Housekeeping shouldn't fail the save
+    this.purgeExpired().catch(purgeError =>
+      logger.warn('Failed to purge expired pending actions', { error: purgeError.message })
+    );
+
+    return action;
+  }
+
+  async get(id: string): Promise<PendingAction | undefined> {
+    const { data, error } = await this.supabase
+      .from('pending_actions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load pending action: ${error.message}`);
+    }
+
+    return data ? this.fromRow(data) : undefined;
+  }
+
+  async consume(id: string): Promise<ConsumeResult> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await this.supabase
+      .from('pending_actions')
+      .update({ consumed_at: now })
+      .eq('id', id)
+      .is('consumed_at', null)
+      .gt('expires_at', now)
+      .select('*');
+
+    if (error) {
+      throw new Error(`Failed to consume pending action: ${error.message}`);
+    }
+
+    if (data && data.length > 0) {
+      return { ok: true, action: this.fromRow(data[0]) };
+    }
+
+    // Nothing updated - find out why
+    const reason = checkConsumable(await this.get(id), Date.now()) || 'consumed';
+    return { ok: false, reason };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('pending_actions')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete pending action: ${error.message}`);
+    }
+
+    return (data?.length || 0) > 0;
+  }
+
+  async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - RETENTION_MS).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('pending_actions')
+      .delete()
+      .lt('expires_at', cutoff)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to purge pending actions: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  private fromRow(row: any): PendingAction {
+    return {
+      id: row.id,
+      intent: row.intent,
+      createdAt: new Date(row.created_at).getTime(),
+      expiresAt: new Date(row.expires_at).getTime(),
+      consumedAt: row.consumed_at ? new Date(row.consumed_at).getTime() : undefined
+    };
+  }
+}
+
+/**
+ * Create the store selected by PENDING_ACTION_STORE (memory | file | supabase, default file).
+ * PENDING_ACTION_TTL_MINUTES overrides the default 15 minute expiry.
+ */
+export function createPendingActionStore(type?: string): PendingActionStore {
+  const ttlMinutes = Number(process.env.PENDING_ACTION_TTL_MINUTES);
+  const ttlMs = ttlMinutes > 0 ? ttlMinutes * 60 * 1000 : DEFAULT_PENDING_ACTION_TTL_MS;
+
+  return createStore<PendingActionStore>('PENDING_ACTION_STORE', type, {
+    memory: () => new MemoryPendingActionStore(ttlMs),
+    file: () => new FilePendingActionStore(undefined, ttlMs),
+    supabase: () => new SupabasePendingActionStore(ttlMs)
+  });
+}
@@ -0,0 +1,149 @@
+// lib/agent/schedule-manager.ts
+
+import { ConfigOperationResult, ConfigurationChange } from '../../types/config-agent';
+import { AutomationConfig, ConfigManager, configManager } from '../automation/config-manager';
+import { DIGEST_PIPELINE_TASK, TaskScheduler, digestScheduleFromConfig, taskScheduler } from '../automation/scheduler';
+import { ScheduleParser } from './schedule-parser';
+import logger from '../logger';
+
+export type DigestSchedule = AutomationConfig['scheduling']['digest_pipeline'];
+
+export interface DigestScheduleUpdate {
+  cronPattern?: string;
+  timezone?: string;
+  enabled?: boolean;
+}
+
+export class ScheduleManager {
+  private config: ConfigManager;
+  private scheduler: TaskScheduler;
+
+  constructor(config: ConfigManager = configManager, scheduler: TaskScheduler = taskScheduler) {
+    this.config = config;
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Get the current digest pipeline schedule
+   */
+  getDigestSchedule(): DigestSchedule {
+    return { ...this.config.getConfig().scheduling.digest_pipeline };
+  }
+
+  /**
+   * Work out the schedule an update would produce, without applying it
+   */
+  previewDigestSchedule(update: DigestScheduleUpdate): { before: DigestSchedule; after: DigestSchedule; errors: string[] } {
+    const before = this.getDigestSchedule();
+    const after: DigestSchedule = {
+      ...before,
+      cron_pattern: update.cronPattern ?? before.cron_pattern,
+      timezone: update.timezone ?? before.timezone,
+      enabled: update.enabled ?? before.enabled
+    };
+
+    const errors: string[] = [];
+    if (!ScheduleParser.isValidCronPattern(after.cron_pattern)) {
+      errors.push(`Invalid cron pattern: ${after.cron_pattern}`);
+    }
+    if (!ScheduleParser.isValidTimezone(after.timezone)) {
+      errors.push(`Unknown timezone: ${after.timezone}`);
+    }
+
+    return { before, after, errors };
+  }
+
+  /**
+   * Update the digest pipeline schedule and reschedule the running job
+   */
+  async updateDigestSchedule(update: DigestScheduleUpdate, changeId: string): Promise<ConfigOperationResult> {
+    try {
+      const { before, after, errors } = this.previewDigestSchedule(update);
+      if (errors.length > 0) {
+        return {
+          success: false,
+          message: `Cannot update digest schedule: ${errors.join(', ')}`,
+          validationErrors: errors
+        };
+      }
+
+      const rescheduled = this.applyDigestSchedule(after);
+      const description = ScheduleParser.describe(after.cron_pattern, after.timezone);
+
+      const change: ConfigurationChange = {
+        id: changeId,
+        type: 'UPDATE_SCHEDULE',
+        description: `Changed digest schedule to ${description}`,
+        parameters: { cronPattern: after.cron_pattern, timezone: after.timezone, enabled: after.enabled },
+        timestamp: new Date(),
+        status: 'applied',
+        rollbackData: before
+      };
+
+      return {
+        success: true,
+        changeId,
+        message: `✅ Digest schedule updated: ${description} (\`${after.cron_pattern}\`)`,
+        changes: [change],
+        warnings: rescheduled ? [] : ['No digest job is scheduled in this process; running schedulers pick up the change from the automation config.']
+      };
+
+    } catch (error: any) {
+      logger.error('Failed to update digest schedule', { update, error: error.message });
+      return {
+        success: false,
+        message: `Failed to update digest schedule: ${error.message}`,
+        validationErrors: [error.message]
+      };
+    }
+  }
+
+  /**
+   * Put back a previous digest schedule (used by rollbacks)
+   */
+  async restoreDigestSchedule(schedule: DigestSchedule): Promise<ConfigOperationResult> {
+    try {
+      if (!schedule?.cron_pattern) {
+        throw new Error('Invalid schedule configuration');
+      }
+
+      this.applyDigestSchedule({ ...this.getDigestSchedule(), ...schedule });
+
+      return {
+        success: true,
+        message: `✅ Restored digest schedule ${schedule.cron_pattern} (${schedule.timezone || 'UTC'})`
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: `Failed to restore digest schedule: ${error.message}`,
+        validationErrors: [error.message]
+      };
+    }
+  }
+
+  /**
+   * Save the schedule to the automation config and reschedule the in-process job.
+   * Returns whether a job was running here to reschedule.
+   */
+  private applyDigestSchedule(schedule: DigestSchedule): boolean {
+    const { scheduling } = this.config.getConfig();
+    this.config.updateConfig({
+      scheduling: { ...scheduling, digest_pipeline: schedule }
+    });
+
+    const rescheduled = this.scheduler.rescheduleTask(
+      DIGEST_PIPELINE_TASK,
+      digestScheduleFromConfig(this.config.getConfig())
+    );
+
+    logger.info('Digest schedule updated', {
+      cronPattern: schedule.cron_pattern,
+      timezone: schedule.timezone,
+      enabled: schedule.enabled,
+      rescheduled
+    });
+
+    return rescheduled;
+  }
+}
@@ -0,0 +1,342 @@
+// lib/agent/schedule-parser.ts
+
+import { validateCronExpression } from 'cron';
+
+export interface ParsedSchedule {
+  cronPattern?: string;
+  timezone?: string;
+}
+
+const DAY_NUMBERS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Abbreviations and nicknames that don't match an IANA zone name
+const TIMEZONE_ALIASES: Record<string, string> = {
+  utc: 'UTC',
+  gmt: 'UTC',
+  et: 'America/New_York', est: 'America/New_York', edt: 'America/New_York', eastern: 'America/New_York',
+  ct: 'America/Chicago', cst: 'America/Chicago', cdt: 'America/Chicago', central: 'America/Chicago',
+  mt: 'America/Denver', mst: 'America/Denver', mdt: 'America/Denver', mountain: 'America/Denver',
+  pt: 'America/Los_Angeles', pst: 'America/Los_Angeles', pdt: 'America/Los_Angeles', pacific: 'America/Los_Angeles',
+  cet: 'Europe/Berlin', cest: 'Europe/Berlin',
+  bst: 'Europe/London', uk: 'Europe/London',
+  ist: 'Asia/Kolkata', india: 'Asia/Kolkata', mumbai: 'Asia/Kolkata', delhi: 'Asia/Kolkata', bangalore: 'Asia/Kolkata',
+  jst: 'Asia/Tokyo',
+  aest: 'Australia/Sydney',
+  nyc: 'America/New_York', 'new york': 'America/New_York',
+  sf: 'America/Los_Angeles', 'san francisco': 'America/Los_Angeles', la: 'America/Los_Angeles', seattle: 'America/Los_Angeles',
+  boston: 'America/New_York', miami: 'America/New_York', austin: 'America/Chicago',
+  munich: 'Europe/Berlin', frankfurt: 'Europe/Berlin', hamburg: 'Europe/Berlin',
+  kiev: 'Europe/Kyiv', beijing: 'Asia/Shanghai', seoul: 'Asia/Seoul'
+};
+
+/**
+ * Turns natural language schedules ("every weekday at 8am Berlin time")
+ * into a cron pattern and an IANA timezone.
+ */
+export class ScheduleParser {
+  /**
+   * Parse a schedule description. Fields that can't be determined are left out.
+   */
+  static parse(text: string): ParsedSchedule {
+    const result: ParsedSchedule = {};
+
+    const cronPattern = this.parseCronPattern(text);
+    if (cronPattern) {
+      result.cronPattern = cronPattern;
+    }
+
+    const timezone = this.parseTimezone(text);
+    if (timezone) {
+      result.timezone = timezone;
+    }
+
+    return result;
+  }
+
+  /**
+   * Check that a cron pattern can be scheduled
+   */
+  static isValidCronPattern(pattern: string): boolean {
+    return validateCronExpression(pattern).valid;
+  }
+
+  /**
+   * Check that a timezone is a valid IANA zone
+   */
+  static isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Describe a cron pattern in plain English (falls back to the raw pattern)
+   */
+  static describe(cronPattern: string, timezone?: string): string {
+    const zone = timezone ? ` (${timezone})` : '';
+    const fields = cronPattern.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      return `${cronPattern}${zone}`;
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    if (dayOfMonth !== '*' || month !== '*') {
+      return `${cronPattern}${zone}`;
+    }
+
+    const minuteStep = minute.match(/^\*\/(\d+)$/);
+    if (minuteStep && hour === '*' && dayOfWeek === '*') {
+      return `Every ${minuteStep[1]} minutes${zone}`;
+    }
+
+    if (!/^\d+$/.test(minute)) {
+      return `${cronPattern}${zone}`;
+    }
+
+    const hourStep = hour.match(/^\*\/(\d+)$/);
+    if ((hour === '*' || hourStep) && dayOfWeek === '*') {
+      const every = hourStep ? `Every ${hourStep[1]} hours` : 'Every hour';
+      return `${every} at minute ${parseInt(minute)}${zone}`;
+    }
+
+    if (!/^\d+(,\d+)*$/.test(hour)) {
+      return `${cronPattern}${zone}`;
+    }
+
+    const times = hour.split(',').map(h => this.formatTime(parseInt(h), parseInt(minute))).join(' and ');
+    return `${this.describeDays(dayOfWeek)} at ${times}${zone}`;
+  }
+
+  /**
+   * Work out a cron pattern from an explicit pattern, an interval or days + times.
+   * Returns null rather than a pattern that can't be scheduled.
+   */
+  private static parseCronPattern(text: string): string | null {
+    const pattern = this.buildCronPattern(text);
+    return pattern && this.isValidCronPattern(pattern) ? pattern : null;
+  }
+
+  private static buildCronPattern(text: string): string | null {
+    const explicit = this.findExplicitCron(text);
+    if (explicit) {
+      return explicit;
+    }
+
+    const lower = text.toLowerCase();
+
+    const minutes = lower.match(/every\s+(\d+)\s*(?:minutes?|mins?)\b/);
+    if (minutes) {
+      const step = parseInt(minutes[1]);
+      return step >= 1 && step < 60 ? `*/${step} * * * *` : null;
+    }
+
+    const hours = lower.match(/every\s+(\d+)\s*(?:hours?|hrs?)\b/);
+    if (hours) {
+      const step = parseInt(hours[1]);
+      return step >= 1 && step < 24 ? `0 */${step} * * *` : null;
+    }
+
+    if (/\b(hourly|every\s+hour)\b/.test(lower)) {
+      return '0 * * * *';
+    }
+
+    const times = this.parseTimes(lower);
+    if (times.length === 0) {
+      return null;
+    }
+
+    // Cron can only combine several hours that share the same minute
+    const minute = times[0].minute;
+    if (times.some(time => time.minute !== minute)) {
+      return null;
+    }
+
+    const hoursField = Array.from(new Set(times.map(time => time.hour))).sort((a, b) => a - b).join(',');
+    return `${minute} ${hoursField} * * ${this.parseDays(lower)}`;
+  }
+
+  /**
+   * Find five consecutive cron fields in the text (e.g. "0 8 * * 1-5")
+   */
+  private static findExplicitCron(text: string): string | null {
+    const tokens = text.split(/\s+/).map(token => token.replace(/^["'`(]+|["'`),.;]+$/g, ''));
+    const field = /^[\d*\/,\-]+$/;
+
+    for (let i = 0; i + 5 <= tokens.length; i++) {
+      const candidate = tokens.slice(i, i + 5);
+      // Require at least one wildcard so plain numbers in a sentence aren't mistaken for cron
+      if (candidate.every(token => field.test(token)) && candidate.some(token => token.includes('*'))) {
+        const pattern = candidate.join(' ');
+        if (this.isValidCronPattern(pattern)) {
+          return pattern;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Extract times of day ("8am", "18:30", "noon") in 24h form
+   */
+  private static parseTimes(lower: string): { hour: number; minute: number }[] {
+    const times: { hour: number; minute: number }[] = [];
+
+    if (/\bnoon\b/.test(lower)) times.push({ hour: 12, minute: 0 });
+    if (/\bmidnight\b/.test(lower)) times.push({ hour: 0, minute: 0 });
+
+    const pattern = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)|\b(\d{1,2}):(\d{2})\b|\bat\s+(\d{1,2})\b(?!\s*(?::|am|pm|a\.m\.|p\.m\.|minutes?|mins?|hours?|hrs?))/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(lower)) !== null) {
+      let hour: number;
+      let minute = 0;
+
+      if (match[1] !== undefined) {
+        hour = parseInt(match[1]);
+        minute = match[2] ? parseInt(match[2]) : 0;
+        if (hour < 1 || hour > 12) continue;
+        const pm = match[3].startsWith('p');
+        hour = (hour % 12) + (pm ? 12 : 0);
+      } else if (match[4] !== undefined) {
+        hour = parseInt(match[4]);
+        minute = parseInt(match[5]);
+      } else {
+        hour = parseInt(match[6]);
+      }
+
+      if (hour > 23 || minute > 59) continue;
+      times.push({ hour, minute });
+    }
+
+    return times;
+  }
+
+  /**
+   * Work out the day-of-week cron field ("*" when no days are mentioned)
+   */
+  private static parseDays(lower: string): string {
+    if (/\bweekdays?\b|\bwork\s*days?\b|\bbusiness\s+days?\b/.test(lower)) {
+      return '1-5';
+    }
+    if (/\bweekends?\b/.test(lower)) {
+      return '0,6';
+    }
+
+    const dayName = '(sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)[a-z]*';
+    const range = lower.match(new RegExp(`\\b${dayName}\\s*(?:-|to|through|thru|until)\\s*${dayName}\\b`));
+    if (range) {
+      const start = DAY_NUMBERS[range[1]];
+      const end = DAY_NUMBERS[range[2]];
+      if (start <= end) {
+        return `${start}-${end}`;
+      }
+
+      // Cron ranges can't wrap past Saturday ("friday to monday" → 5,6,0,1)
+      const days: number[] = [];
+      for (let day = start; day !== (end + 1) % 7; day = (day + 1) % 7) {
+        days.push(day);
+      }
+      return days.join(',');
+    }
+
+    const days = new Set<number>();
+    const single = new RegExp(`\\b${dayName}\\b`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = single.exec(lower)) !== null) {
+      // Skip words that merely start like a day ("month", "friend", "wedding")
+      if (!/^(sun(day)?|mon(day)?|tues?(day)?|wed(nesday)?|thu(rs?)?(day)?|fri(day)?|sat(urday)?)s?$/.test(match[0])) continue;
+      days.add(DAY_NUMBERS[match[1]]);
+    }
+
+    return days.size > 0 ? Array.from(days).sort((a, b) => a - b).join(',') : '*';
+  }
+
+  /**
+   * Find a timezone: an IANA name, an abbreviation or a city ("Berlin time", "in Tokyo")
+   */
+  private static parseTimezone(text: string): string | null {
+    const iana = text.match(/\b([A-Za-z]+\/[A-Za-z_]+(?:\/[A-Za-z_]+)?)\b/);
+    if (iana && this.isValidTimezone(iana[1])) {
+      return this.canonicalTimezone(iana[1]);
+    }
+
+    const lower = text.toLowerCase();
+    const candidates: string[] = [];
+
+    for (const match of Array.from(lower.matchAll(/\b([a-z]+(?:\s+[a-z]+)?)\s+(?:time|timezone|time zone)\b/g))) {
+      candidates.push(match[1], match[1].split(/\s+/).pop()!);
+    }
+
+    for (const match of Array.from(lower.matchAll(/\b(?:in|to|timezone|tz)\s+([a-z]+(?:\s+[a-z]+)?)/g))) {
+      candidates.push(match[1], match[1].split(/\s+/)[0]);
+    }
+
+    const abbreviation = lower.match(/\b(utc|gmt|e[sd]?t|c[sd]?t|m[sd]?t|p[sd]?t|cest|cet|bst|ist|jst|aest)\b/);
+    if (abbreviation) {
+      candidates.push(abbreviation[1]);
+    }
+
+    for (const candidate of candidates) {
+      const timezone = this.resolveTimezoneName(candidate.trim());
+      if (timezone) {
+        return timezone;
+      }
+    }
+
+    return null;
+  }
+
+  private static resolveTimezoneName(name: string): string | null {
+    if (TIMEZONE_ALIASES[name]) {
+      return TIMEZONE_ALIASES[name];
+    }
+
+    // Match city names against the last segment of IANA zones ("berlin" → Europe/Berlin)
+    const city = name.replace(/\s+/g, '_');
+    const zone = Intl.supportedValuesOf('timeZone')
+      .find(candidate => candidate.split('/').pop()!.toLowerCase() === city);
+
+    return zone || null;
+  }
+
+  private static canonicalTimezone(timezone: string): string {
+    return new Intl.DateTimeFormat('en-US', { timeZone: timezone }).resolvedOptions().timeZone;
+  }
+
+  private static describeDays(dayOfWeek: string): string {
+    if (dayOfWeek === '*') return 'Every day';
+    if (dayOfWeek === '1-5') return 'Every weekday';
+    if (dayOfWeek === '0,6' || dayOfWeek === '6,0') return 'Every weekend day';
+
+    const range = dayOfWeek.match(/^(\d)-(\d)$/);
+    if (range) {
+      return `${DAY_NAMES[parseInt(range[1]) % 7]} to ${DAY_NAMES[parseInt(range[2]) % 7]}`;
+    }
+
+    if (/^\d(,\d)*$/.test(dayOfWeek)) {
+      return `Every ${dayOfWeek.split(',').map(day => DAY_NAMES[parseInt(day) % 7]).join(', ')}`;
+    }
+
+    return `On days ${dayOfWeek}`;
+  }
+
+  private static formatTime(hour: number, minute: number): string {
+    const suffix = hour < 12 ? 'AM' : 'PM';
+    const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+    return `${displayHour}:${minute.toString().padStart(2, '0')} ${suffix}`;
+  }
+}
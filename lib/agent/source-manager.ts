@@ -4,14 +4,17 @@ import fs from 'fs/promises';
 import path from 'path';
 import { ConfigOperationResult, ConfigurationChange, ConfigValidationResult } from '../../types/config-agent';
 import { TwitterClient } from '../twitter/twitter-client';
+import { TelegramScraper } from '../telegram/telegram-scraper';
+import { RegisteredSource, SourceRegistry, SourceType, sourceRegistry } from '../sources/source-registry';
+import { normalizeSourceIdentifier } from '../../config/source-store';
 import logger from '../logger';
 
 export class SourceManager {
-  private configPath: string;
+  private registry: SourceRegistry;
   private backupPath: string;
 
-  constructor() {   
-    this.configPath = path.join(process.cwd(), 'config', 'data-sources-config.ts');
+  constructor(registry: SourceRegistry = sourceRegistry) {   
+    this.registry = registry;
     this.backupPath = path.join(process.cwd(), '.agent-backups');
   }
 
@@ -23,11 +26,9 @@ export class SourceManager {
       // Create backup
       await this.createConfigBackup(changeId);
       
-      // Read current config
-      const config = await this.readConfig();
-      
-      // Check if already exists
-      if (config.twitter.accounts.includes(username)) {
+      // Check if already exists (a disabled source is enabled again)
+      const existing = await this.registry.get('twitter', username);
+      if (existing?.is_active) {
         return {
           success: false,
           message: `@${username} is already in your Twitter sources`,
@@ -36,26 +37,26 @@ export class SourceManager {
       }
 
       // Add username
-      config.twitter.accounts.push(username);
-      
-      // Write updated config
-      await this.writeConfig(config);
+      await this.enableOrAdd('twitter', username, existing);
+      const description = existing
+        ? `Re-enabled @${username} in Twitter sources`
+        : `Added @${username} to Twitter sources`;
       
       // Log change
       const change: ConfigurationChange = {
         id: changeId,
         type: 'ADD_TWITTER_SOURCE',
-        description: `Added @${username} to Twitter sources`,
+        description,
         parameters: { username },
         timestamp: new Date(),
         status: 'applied',
-        rollbackData: { action: 'remove', username }
+        rollbackData: existing ? { action: 'restore', username, source: existing } : { action: 'remove', username }
       };
 
       return {
         success: true,
         changeId,
-        message: `✅ Added @${username} to Twitter sources`,
+        message: `✅ ${description}`,
         changes: [change]
       };
 
@@ -76,10 +77,8 @@ export class SourceManager {
     try {
       await this.createConfigBackup(changeId);
       
-      const config = await this.readConfig();
-      
-      const index = config.twitter.accounts.indexOf(username);
-      if (index === -1) {
+      const existing = await this.registry.get('twitter', username);
+      if (!existing) {
         return {
           success: false,
           message: `@${username} is not in your Twitter sources`,
@@ -88,9 +87,7 @@ export class SourceManager {
       }
 
       // Remove username
-      config.twitter.accounts.splice(index, 1);
-      
-      await this.writeConfig(config);
+      await this.registry.remove('twitter', username);
 
       const change: ConfigurationChange = {
         id: changeId,
@@ -99,7 +96,7 @@ export class SourceManager {
         parameters: { username },
         timestamp: new Date(),
         status: 'applied',
-        rollbackData: { action: 'add', username }
+        rollbackData: { action: 'add', username, source: existing }
       };
 
       return {
@@ -125,9 +122,8 @@ export class SourceManager {
     try {
       await this.createConfigBackup(changeId);
       
-      const config = await this.readConfig();
-      
-      if (config.rss.feeds.includes(url)) {
+      const existing = await this.registry.get('rss', url);
+      if (existing?.is_active) {
         return {
           success: false,
           message: `RSS feed ${url} is already configured`,
@@ -135,23 +131,22 @@ export class SourceManager {
         };
       }
 
-      config.rss.feeds.push(url);
-      await this.writeConfig(config);
+      await this.enableOrAdd('rss', url, existing);
 
       const change: ConfigurationChange = {
         id: changeId,
         type: 'ADD_RSS_SOURCE',
-        description: `Added RSS feed: ${url}`,
+        description: existing ? `Re-enabled RSS feed: ${url}` : `Added RSS feed: ${url}`,
         parameters: { url },
         timestamp: new Date(),
         status: 'applied',
-        rollbackData: { action: 'remove', url }
+        rollbackData: existing ? { action: 'restore', url, source: existing } : { action: 'remove', url }
       };
 
       return {
         success: true,
         changeId,
-        message: `✅ Added RSS feed to sources`,
+        message: existing ? `✅ Re-enabled RSS feed in sources` : `✅ Added RSS feed to sources`,
         changes: [change]
       };
 
@@ -171,10 +166,8 @@ export class SourceManager {
     try {
       await this.createConfigBackup(changeId);
       
-      const config = await this.readConfig();
-      
-      const urlIndex = config.rss.feeds.indexOf(url);
-      if (urlIndex === -1) {
+      const existing = await this.registry.get('rss', url);
+      if (!existing) {
         return {
           success: false,
           message: `RSS feed ${url} is not configured`,
@@ -182,8 +175,7 @@ export class SourceManager {
         };
       }
 
-      config.rss.feeds.splice(urlIndex, 1);
-      await this.writeConfig(config);
+      await this.registry.remove('rss', url);
 
       const change: ConfigurationChange = {
         id: changeId,
@@ -192,7 +184,7 @@ export class SourceManager {
         parameters: { url },
         timestamp: new Date(),
         status: 'applied',
-        rollbackData: { action: 'add', url }
+        rollbackData: { action: 'add', url, source: existing }
       };
 
       return {
@@ -211,6 +203,167 @@ export class SourceManager {
     }
   }
 
+  /**
+   * Add Telegram channel to configuration
+   */
+  async addTelegramSource(channel: string, changeId: string): Promise<ConfigOperationResult> {
+    try {
+      await this.createConfigBackup(changeId);
+      
+      const existing = await this.registry.get('telegram', channel);
+      if (existing?.is_active) {
+        return {
+          success: false,
+          message: `t.me/${channel} is already in your Telegram sources`,
+          validationErrors: ['Channel already exists']
+        };
+      }
+
+      await this.enableOrAdd('telegram', channel, existing);
+      const description = existing
+        ? `Re-enabled t.me/${channel} in Telegram sources`
+        : `Added t.me/${channel} to Telegram sources`;
+
+      const change: ConfigurationChange = {
+        id: changeId,
+        type: 'ADD_TELEGRAM_SOURCE',
+        description,
+        parameters: { channel },
+        timestamp: new Date(),
+        status: 'applied',
+        rollbackData: existing ? { action: 'restore', channel, source: existing } : { action: 'remove', channel }
+      };
+
+      return {
+        success: true,
+        changeId,
+        message: `✅ ${description}`,
+        changes: [change]
+      };
+
+    } catch (error: any) {
+      logger.error('Failed to add Telegram source', { channel, error: error.message });
+      return {
+        success: false,
+        message: `Failed to add t.me/${channel}: ${error.message}`,
+        validationErrors: [error.message]
+      };
+    }
+  }
+
+  /**
+   * Remove Telegram channel from configuration
+   */
+  async removeTelegramSource(channel: string, changeId: string): Promise<ConfigOperationResult> {
+    try {
+      await this.createConfigBackup(changeId);
+      
+      const existing = await this.registry.get('telegram', channel);
+      if (!existing) {
+        return {
+          success: false,
+          message: `t.me/${channel} is not in your Telegram sources`,
+          validationErrors: ['Channel not found']
+        };
+      }
+
+      await this.registry.remove('telegram', channel);
+
+      const change: ConfigurationChange = {
+        id: changeId,
+        type: 'REMOVE_TELEGRAM_SOURCE',
+        description: `Removed t.me/${channel} from Telegram sources`,
+        parameters: { channel },
+        timestamp: new Date(),
+        status: 'applied',
+        rollbackData: { action: 'add', channel, source: existing }
+      };
+
+      return {
+        success: true,
+        changeId,
+        message: `✅ Removed t.me/${channel} from Telegram sources`,
+        changes: [change]
+      };
+
+    } catch (error: any) {
+      return {
+        success: false,
+        message: `Failed to remove t.me/${channel}: ${error.message}`,
+        validationErrors: [error.message]
+      };
+    }
+  }
+
+  /**
+   * Put back a source exactly as it was before it was removed (overrides included)
+   */
+  async restoreSource(source: RegisteredSource, changeId: string): Promise<ConfigOperationResult> {
+    try {
+      await this.createConfigBackup(changeId);
+      await this.registry.restore(source);
+
+      return {
+        success: true,
+        changeId,
+        message: `✅ Restored ${source.name}`
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: `Failed to restore ${source.name}: ${error.message}`,
+        validationErrors: [error.message]
+      };
+    }
+  }
+
+  /**
+   * Restore one source to the state captured in the earliest backup of a change.
+   * Used when a change has no usable rollback data.
+   */
+  async restoreSourceFromBackup(backupChangeId: string, type: SourceType, identifier: string, changeId: string): Promise<ConfigOperationResult> {
+    try {
+      const files = (await fs.readdir(this.backupPath))
+        .filter(file => file.startsWith(`sources-${backupChangeId}-`) && file.endsWith('.json'))
+        .sort((a, b) => this.backupTimestamp(a) - this.backupTimestamp(b));
+
+      if (files.length === 0) {
+        return {
+          success: false,
+          message: `No backup found for change ${backupChangeId}`,
+          validationErrors: ['Backup not found']
+        };
+      }
+
+      const snapshot: RegisteredSource[] = JSON.parse(
+        await fs.readFile(path.join(this.backupPath, files[0]), 'utf-8')
+      );
+      const normalized = normalizeSourceIdentifier(type, identifier);
+      const previous = snapshot.find(source => source.type === type && source.identifier === normalized);
+      const current = await this.registry.get(type, identifier);
+
+      await this.createConfigBackup(changeId);
+
+      if (previous) {
+        await this.registry.restore(previous);
+      } else if (current) {
+        await this.registry.remove(type, identifier);
+      }
+
+      return {
+        success: true,
+        changeId,
+        message: `✅ Restored ${type} source ${identifier} from backup`
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: `Failed to restore ${type} source ${identifier} from backup: ${error.message}`,
+        validationErrors: [error.message]
+      };
+    }
+  }
+
   /**
    * Validate Twitter username exists and is accessible
    */
@@ -306,66 +459,65 @@ export class SourceManager {
   }
 
   /**
-   * Get current sources from configuration
+   * Validate Telegram channel is public and can be scraped
    */
-  async getCurrentSources(): Promise<{ twitter: string[], rss: string[], telegram: string[] }> {
+  async validateTelegramChannel(channel: string): Promise<ConfigValidationResult> {
     try {
-      const config = await this.readConfig();
-      return {
-        twitter: config.twitter?.accounts || [],
-        rss: config.rss?.feeds || [],
-        telegram: config.telegram?.channels || []
-      };
-    } catch (error: any) {
-      logger.error('Failed to get current sources', error);
-      return { twitter: [], rss: [], telegram: [] };
-    }
-  }
+      // Telegram usernames: 5-32 characters, letters, digits and underscores
+      if (!/^[A-Za-z][A-Za-z0-9_]{4,31}$/.test(channel)) {
+        return {
+          valid: false,
+          errors: ['Invalid Telegram channel name format'],
+          warnings: []
+        };
+      }
 
-  // Configuration file management
-  private async readConfig(): Promise<any> {
-    try {
-      const content = await fs.readFile(this.configPath, 'utf-8');
-      
-      // Extract configuration object from TypeScript file
-      // This is a simplified parser - in production you might use AST parsing
-      const configMatch = content.match(/export const (\w+Config) = \{([\s\S]*?)\};/g);
-      
-      if (!configMatch) {
-        throw new Error('Could not parse configuration file');
+      const result = await new TelegramScraper().validateChannel(channel);
+      if (!result.valid) {
+        return {
+          valid: false,
+          errors: [result.error || 'Channel could not be verified'],
+          warnings: []
+        };
       }
 
-      // For demo purposes, return a simplified structure
-      // In production, you'd want proper TypeScript AST parsing
       return {
-        twitter: { accounts: this.extractTwitterAccounts(content) },
-        rss: { feeds: this.extractRSSFeeds(content) },
-        telegram: { channels: this.extractTelegramChannels(content) }
+        valid: true,
+        errors: [],
+        warnings: result.recentMessages === 0
+          ? ['Channel has no recent public messages - digests may not include it']
+          : []
       };
 
     } catch (error: any) {
-      throw new Error(`Failed to read config: ${error.message}`);
+      return {
+        valid: false,
+        errors: [`Validation failed: ${error.message}`],
+        warnings: []
+      };
     }
   }
 
-  private async writeConfig(config: any): Promise<void> {
+  /**
+   * Get current active sources from the source registry
+   */
+  async getCurrentSources(): Promise<{ twitter: string[], rss: string[], telegram: string[] }> {
     try {
-      // Read original file
-      const originalContent = await fs.readFile(this.configPath, 'utf-8');
-      
-      // Update Twitter accounts section
-      let updatedContent = this.updateTwitterAccountsInContent(originalContent, config.twitter.accounts);
-      
-      // Update RSS feeds section  
-      updatedContent = this.updateRSSFeedsInContent(updatedContent, config.rss.feeds);
-      
-      // Write back to file
-      await fs.writeFile(this.configPath, updatedContent, 'utf-8');
-      
-      logger.info('Configuration file updated successfully');
-
+      return await this.registry.getActiveIdentifiers();
     } catch (error: any) {
-      throw new Error(`Failed to write config: ${error.message}`);
+      logger.error('Failed to get current sources', error);
+      return { twitter: [], rss: [], telegram: [] };
+    }
+  }
+
+  /**
+   * Enable a disabled source (keeping its overrides), or add a new one
+   */
+  private async enableOrAdd(type: SourceType, identifier: string, existing: RegisteredSource | null): Promise<void> {
+    if (existing) {
+      await this.registry.setActive(type, identifier, true);
+    } else {
+      await this.registry.add({ type, identifier });
     }
   }
 
@@ -374,59 +526,21 @@ export class SourceManager {
       // Ensure backup directory exists
       await fs.mkdir(this.backupPath, { recursive: true });
       
-      // Copy current config to backup
-      const backupFile = path.join(this.backupPath, `config-${changeId}-${Date.now()}.ts`);
-      await fs.copyFile(this.configPath, backupFile);
+      // Snapshot the source registry so the change can be restored later
+      const sources = await this.registry.list();
+      const backupFile = path.join(this.backupPath, `sources-${changeId}-${Date.now()}.json`);
+      await fs.writeFile(backupFile, JSON.stringify(sources, null, 2), 'utf-8');
       
-      logger.info('Configuration backup created', { backupFile });
+      logger.info('Source configuration backup created', { backupFile });
 
     } catch (error) {
-      logger.warn('Failed to create config backup', error);
+      logger.warn('Failed to create source configuration backup', error);
       // Don't fail the operation for backup issues
     }
   }
 
-  // Simple content extraction methods (in production, use proper AST parsing)
-  private extractTwitterAccounts(content: string): string[] {
-    const accountsMatch = content.match(/accounts:\s*\[([\s\S]*?)\]/);
-    if (!accountsMatch) return [];
-    
-    const accountsStr = accountsMatch[1];
-    const accounts = accountsStr.match(/'([^']+)'/g) || [];
-    return accounts.map(acc => acc.replace(/'/g, ''));
-  }
-
-  private extractRSSFeeds(content: string): string[] {
-    // Extract RSS feed URLs from feedOverrides object
-    const feedOverridesMatch = content.match(/feedOverrides:\s*\{([\s\S]*?)\}\s*as Record/);
-    if (!feedOverridesMatch) return [];
-    
-    const overridesStr = feedOverridesMatch[1];
-    const urlMatches = overridesStr.match(/'(https?:\/\/[^']+)'/g) || [];
-    return urlMatches.map(url => url.replace(/'/g, ''));
-  }
-
-  private extractTelegramChannels(content: string): string[] {
-    // Similar extraction logic for Telegram channels
-    return [];
-  }
-
-  private updateTwitterAccountsInContent(content: string, accounts: string[]): string {
-    const accountsArray = accounts.map(acc => `'${acc}'`).join(',\n    ');
-    const replacement = `accounts: [\n    ${accountsArray}\n  ]`;
-    
-    return content.replace(/accounts:\s*\[([\s\S]*?)\]/, replacement);
-  }
-
-  private updateRSSFeedsInContent(content: string, feeds: string[]): string {
-    // Generate feedOverrides object with all feeds
-    const feedEntries = feeds.map(feed => `    '${feed}': { articlesPerFeed: 10 }`).join(',\n');
-    const newFeedOverrides = `feedOverrides: {\n${feedEntries}\n  }`;
-    
-    // Replace the existing feedOverrides section
-    return content.replace(
-      /feedOverrides:\s*\{([\s\S]*?)\}\s*as Record/,
-      `${newFeedOverrides} as Record`
-    );
+  private backupTimestamp(file: string): number {
+    const match = file.match(/-(\d+)\.json$/);
+    return match ? parseInt(match[1]) : 0;
   }
-}
\ No newline at end of file
+}
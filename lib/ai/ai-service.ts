@@ -3,22 +3,120 @@
 import { openai } from '@ai-sdk/openai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { google } from '@ai-sdk/google';
-import { ollama } from 'ollama-ai-provider';
-import { generateText, generateObject } from 'ai';
+import { createOllama, ollama } from 'ollama-ai-provider';
+import { generateText, generateObject, NoObjectGeneratedError, Schema } from 'ai';
+import { z } from 'zod';
 import { 
   AIModelConfig, 
+  AIModelFallback,
   AIAnalysisRequest, 
   AIAnalysisResponse, 
+  AnalysisMode,
+  ContentForAnalysis,
+  ModelCallEstimate,
+  ModelCallUsage,
+  PartialInsights,
+  ProviderFailure,
+  StageTokenUsage,
   TokenUsage,
   DigestAnalysis 
 } from '../../types/ai';
 import { envConfig } from '../../config/environment';
+import {
+  describeSchemaIssues,
+  partialInsightsOutputSchema,
+  partialInsightsSchema,
+  toOutputSchema
+} from './digest-analysis-schema';
+import { ContentChunk, chunkContent, estimateContentTokens } from './content-chunker';
+import { ModelProfileRegistry, freezeModelConfig, modelProfiles } from './model-profiles';
+import { DEFAULT_ANALYSIS_TEMPLATE, PromptTemplate, PromptTemplateManager, promptTemplates } from './prompt-templates';
+import { AIProviderError, AIProvidersExhaustedError, AnalysisValidationError, classifyProviderError } from './errors';
 import logger from '../logger';
 import { ProgressTracker } from '../../utils/progress';
+import { sleep } from '../../utils/abort';
+
+/** Receives the token usage of every model call a service makes */
+export type ModelUsageListener = (usage: ModelCallUsage) => void;
+
+type ModelCallSettings = Pick<Parameters<typeof generateText>[0], 'model' | 'temperature' | 'maxTokens' | 'providerOptions' | 'abortSignal'>;
+
+/** A JSON shape the model must produce, validated before it is used */
+interface StructuredOutput<T> {
+  name: string;
+  schema: z.ZodType<T>;
+  outputSchema: Schema<T>;
+}
+
+const PARTIAL_INSIGHTS_OUTPUT: StructuredOutput<PartialInsights> = {
+  name: 'PartialInsights',
+  schema: partialInsightsSchema,
+  outputSchema: partialInsightsOutputSchema
+};
+
+/** Outcome of one analysis strategy (single prompt or map-reduce) */
+interface AnalysisRun {
+  analysis: DigestAnalysis;
+  config: AIModelConfig; // model that produced the final analysis
+  failures: AIProviderError[];
+  stages: StageTokenUsage[];
+  reasoning_time_ms?: number;
+}
+
+const EMPTY_TOKEN_USAGE: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+// The DigestAnalysis part of every analysis; templates may add sections on top
+const DIGEST_OUTPUT_FORMAT = `{
+  "title": "Concise title summarizing the key theme (max 100 chars)",
+  "executive_summary": "3-4 sentence overview of the most important findings",
+  "key_insights": ["Array of 3-5 key insights, each 1-2 sentences"],
+  "trending_topics": [
+    {
+      "topic": "Topic name",
+      "relevance_score": 0.8,
+      "supporting_content": ["Brief quotes or references"],
+      "trend_direction": "rising|stable|declining"
+    }
+  ],
+  "content_analysis": {
+    "sentiment": {
+      "overall": "positive|negative|neutral",
+      "confidence": 0.85,
+      "breakdown": {"positive": 60, "neutral": 30, "negative": 10}
+    },
+    "themes": [
+      {"name": "Theme name", "frequency": 5, "significance": 0.9}
+    ],
+    "quality_distribution": {
+      "high_quality_percentage": 75,
+      "average_engagement": 150,
+      "content_diversity": 0.8
+    }
+  },
+  "recommendations": ["Array of 2-4 actionable recommendations"],
+  "confidence_score": 0.85
+}`;
 
 export class AIService {
-  private static instance: AIService;
-  private currentConfig: AIModelConfig;
+  private readonly config: Readonly<AIModelConfig>;
+  private readonly templates: PromptTemplateManager;
+  private readonly signal?: AbortSignal;
+  private readonly usageListener?: ModelUsageListener;
+
+  // Extra calls allowed to fix output that fails schema validation
+  private static readonly MAX_REPAIR_ATTEMPTS = 2;
+
+  // Backoff before moving on to the next provider in the fallback chain
+  private static readonly BASE_BACKOFF_MS = 1000;
+  private static readonly MAX_BACKOFF_MS = 30000;
+
+  // In 'auto' mode, content estimated above this many tokens is analyzed with map-reduce
+  // (digest runs send all collected content unless a content budget caps it below this)
+  private static readonly MAP_REDUCE_THRESHOLD_TOKENS = 16000;
+  // Default content size of one map-reduce chunk
+  private static readonly MAP_CHUNK_TOKENS = 8000;
+  // Prompt tokens an analysis call sends on top of the content (instructions, output format)
+  public static readonly PROMPT_OVERHEAD_TOKENS = 800;
 
   // Default configurations for all 4 providers
   private static readonly DEFAULT_OPENAI_CONFIG: AIModelConfig = {
@@ -73,74 +171,59 @@ export class AIService {
     }
   };
 
-  private constructor(config?: AIModelConfig) {
-    this.currentConfig = config || AIService.DEFAULT_ANTHROPIC_CONFIG;
-    this.validateConfiguration();
-  }
-
   /**
-   * Get singleton instance
+   * Create a service for one model configuration. The config is copied and
+   * frozen - to use different settings, create another instance. Every model
+   * call is aborted when `signal` aborts and reported to `usageListener`.
    */
-  public static getInstance(config?: AIModelConfig): AIService {
-    if (!AIService.instance) {
-      AIService.instance = new AIService(config);
-    } else if (config) {
-      AIService.instance.setConfig(config);
-    }
-    return AIService.instance;
+  constructor(
+    config: AIModelConfig = AIService.DEFAULT_ANTHROPIC_CONFIG,
+    templates: PromptTemplateManager = promptTemplates,
+    signal?: AbortSignal,
+    usageListener?: ModelUsageListener
+  ) {
+    this.config = freezeModelConfig(config);
+    this.templates = templates;
+    this.signal = signal;
+    this.usageListener = usageListener;
+    this.validateConfiguration();
   }
 
   /**
-   * Set AI model configuration
+   * Service for a named model profile (see model-profiles.ts)
    */
-  public setConfig(config: AIModelConfig): void {
-    this.currentConfig = config;
-    this.validateConfiguration();
-    logger.info(`AI model configured: ${config.provider}:${config.modelName}`);
+  public static forProfile(name: string, registry: ModelProfileRegistry = modelProfiles): AIService {
+    return new AIService(registry.get(name));
   }
 
   /**
-   * Switch to OpenAI
+   * Service for a provider's default configuration, optionally with another model
    */
-  public useOpenAI(modelName?: string): void {
-    this.setConfig({
-      ...AIService.DEFAULT_OPENAI_CONFIG,
-      modelName: modelName || AIService.DEFAULT_OPENAI_CONFIG.modelName
-    });
+  public static forProvider(provider: AIModelConfig['provider'], modelName?: string): AIService {
+    const defaults = AIService.getDefaultConfig(provider);
+    return new AIService({ ...defaults, modelName: modelName || defaults.modelName });
   }
 
   /**
-   * Switch to Anthropic Claude
+   * New service with some options changed; this one is left as it is
    */
-  public useClaude(modelName?: string): void {
-    this.setConfig({
-      ...AIService.DEFAULT_ANTHROPIC_CONFIG,
-      modelName: modelName || AIService.DEFAULT_ANTHROPIC_CONFIG.modelName
-    });
+  public withOptions(options: Partial<AIModelConfig['options']>): AIService {
+    return new AIService({ ...this.config, options: { ...this.config.options, ...options } }, this.templates, this.signal, this.usageListener);
   }
 
   /**
-   * Switch to Google Gemini
+   * New service whose model calls (and fallback backoffs) stop when `signal` aborts
    */
-  public useGemini(modelName?: string): void {
-    this.setConfig({
-      ...AIService.DEFAULT_GOOGLE_CONFIG,
-      modelName: modelName || AIService.DEFAULT_GOOGLE_CONFIG.modelName
-    });
+  public withAbortSignal(signal: AbortSignal): AIService {
+    return new AIService(this.config, this.templates, signal, this.usageListener);
   }
 
   /**
-   * Switch to Ollama (local)
+   * New service that reports the token usage of each model call as soon as it
+   * returns, so spend is known even when the analysis fails later on
    */
-  public useOllama(modelName?: string, baseURL?: string): void {
-    this.setConfig({
-      ...AIService.DEFAULT_OLLAMA_CONFIG,
-      modelName: modelName || AIService.DEFAULT_OLLAMA_CONFIG.modelName,
-      options: {
-        ...AIService.DEFAULT_OLLAMA_CONFIG.options,
-        ...(baseURL && { baseURL })
-      }
-    });
+  public withUsageListener(listener: ModelUsageListener): AIService {
+    return new AIService(this.config, this.templates, this.signal, listener);
   }
 
   /**
@@ -148,39 +231,40 @@ export class AIService {
    */
   async analyzeContent(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
     const startTime = Date.now();
+    const mode = AIService.resolveAnalysisMode(request);
+    const template = this.resolveTemplate(request);
     const progress = new ProgressTracker({
       total: 4,
-      label: `AI Analysis (${this.currentConfig.provider}:${this.currentConfig.modelName})`
+      label: `AI Analysis (${this.config.provider}:${this.config.modelName}, ${template.name}, ${mode})`
     });
 
     try {
       // Step 1: Prepare content for analysis
       progress.update(1, { step: 'Preparing content' });
-      const preparedContent = this.prepareContentForAnalysis(request.content);
-      
-      // Step 2: Generate analysis prompt
-      progress.update(2, { step: 'Generating prompt' });
-      const analysisPrompt = this.buildAnalysisPrompt(request, preparedContent);
-      
-      // Step 3: Call AI model
-      progress.update(3, { step: 'AI processing' });
-      const aiResponse = await this.callAIModel(analysisPrompt, request.outputFormat);
+
+      // Steps 2-3: Prompt(s) and AI processing, validated against the schema and falling back if a provider fails
+      const run = mode === 'map_reduce'
+        ? await this.runMapReduceAnalysis(request, template, progress)
+        : await this.runSingleAnalysis(request, template, progress);
       
-      // Step 4: Process and validate response
+      // Step 4: Process response
       progress.update(4, { step: 'Processing response' });
-      const analysis = this.parseAndValidateResponse(aiResponse.text);
       
       const processingTime = Date.now() - startTime;
       progress.complete(`Analysis completed in ${(processingTime / 1000).toFixed(2)}s`);
 
       return {
-        analysis,
-        token_usage: this.extractTokenUsage(aiResponse),
+        analysis: run.analysis,
+        token_usage: run.stages.reduce((total, stage) => this.addTokenUsage(total, stage.token_usage), EMPTY_TOKEN_USAGE),
         model_info: {
-          provider: this.currentConfig.provider,
-          model: this.currentConfig.modelName,
-          reasoning_time_ms: aiResponse.reasoning_time_ms
+          provider: run.config.provider,
+          model: run.config.modelName,
+          reasoning_time_ms: run.reasoning_time_ms,
+          ...(run.failures.length > 0 && { fallback_attempts: this.toProviderFailures(run.failures) })
         },
+        analysis_mode: mode,
+        template: template.name,
+        stage_usage: run.stages,
         processing_time_ms: processingTime
       };
 
@@ -188,20 +272,189 @@ export class AIService {
       progress.fail(`AI analysis failed: ${error.message}`);
       logger.error('AI analysis failed', { 
         error: error.message,
-        provider: this.currentConfig.provider,
-        model: this.currentConfig.modelName 
+        provider: this.config.provider,
+        model: this.config.modelName,
+        template: template.name,
+        mode
       });
       throw error;
     }
   }
 
+  /**
+   * Pick the analysis strategy; 'auto' switches to map-reduce when the
+   * content would make a single prompt too large
+   */
+  private static resolveAnalysisMode(request: AIAnalysisRequest): Exclude<AnalysisMode, 'auto'> {
+    const mode = request.analysisMode || 'auto';
+    if (mode !== 'auto') {
+      return mode;
+    }
+
+    return estimateContentTokens(request.content) > AIService.MAP_REDUCE_THRESHOLD_TOKENS ? 'map_reduce' : 'single';
+  }
+
+  /**
+   * Estimated model calls of analyzeContent for a request run on `config`:
+   * one prompt, or a map call per chunk plus the reduce call. Repairs and
+   * fallbacks aren't included.
+   */
+  public static estimateAnalysisCalls(request: AIAnalysisRequest, config: AIModelConfig): ModelCallEstimate[] {
+    const completionTokens = AIService.maxCompletionTokens(config);
+
+    if (AIService.resolveAnalysisMode(request) === 'single') {
+      return [{
+        prompt_tokens: estimateContentTokens(request.content) + AIService.PROMPT_OVERHEAD_TOKENS,
+        completion_tokens: completionTokens
+      }];
+    }
+
+    const chunks = chunkContent(request.content, request.chunkTokenLimit || AIService.MAP_CHUNK_TOKENS);
+    const maps = chunks.map(chunk => ({
+      prompt_tokens: chunk.estimatedTokens + AIService.PROMPT_OVERHEAD_TOKENS,
+      completion_tokens: completionTokens
+    }));
+    // The reduce prompt carries every chunk's partial insights
+    const reduce = {
+      prompt_tokens: chunks.length * (config.options.max_tokens ?? 2000) + AIService.PROMPT_OVERHEAD_TOKENS,
+      completion_tokens: completionTokens
+    };
+
+    return [...maps, reduce];
+  }
+
+  /**
+   * The most completion tokens one call can bill: max_tokens, plus the
+   * thinking budget when extended thinking is on (billed as output)
+   */
+  public static maxCompletionTokens(config: AIModelConfig): number {
+    const maxTokens = config.options.max_tokens ?? 2000;
+    return AIService.usesExtendedThinking(config)
+      ? maxTokens + (config.options.thinking?.budgetTokens ?? 1024)
+      : maxTokens;
+  }
+
+  /**
+   * The prompt template for a request: an explicit template, else the one named
+   * after the analysis type, else the default digest template
+   */
+  private resolveTemplate(request: AIAnalysisRequest): PromptTemplate {
+    if (request.template) {
+      const template = this.templates.getTemplate(request.template);
+      if (!template) {
+        throw new Error(`Prompt template '${request.template}' not found`);
+      }
+      return template;
+    }
+
+    return this.templates.getTemplate(request.analysisType) || this.templates.getTemplate(DEFAULT_ANALYSIS_TEMPLATE)!;
+  }
+
+  /**
+   * Validation for a template's output: DigestAnalysis plus the template's sections
+   */
+  private getTemplateOutput(template: PromptTemplate): StructuredOutput<DigestAnalysis> {
+    const schema = this.templates.getOutputSchema(template.name);
+    return { name: template.name, schema, outputSchema: toOutputSchema(schema) };
+  }
+
+  /**
+   * All content in one prompt
+   */
+  private async runSingleAnalysis(request: AIAnalysisRequest, template: PromptTemplate, progress: ProgressTracker): Promise<AnalysisRun> {
+    const preparedContent = this.prepareContentForAnalysis(request.content);
+
+    progress.update(2, { step: 'Generating prompt' });
+    const { system, prompt } = this.buildAnalysisPrompt(request, preparedContent, template);
+    const output = this.getTemplateOutput(template);
+
+    progress.update(3, { step: 'AI processing' });
+    const { result, config, failures } = await this.runWithFallback(
+      modelConfig => this.generateStructured(prompt, modelConfig, output, system)
+    );
+
+    return {
+      analysis: result.value,
+      config,
+      failures,
+      reasoning_time_ms: result.reasoning_time_ms,
+      stages: [{
+        stage: 'analysis',
+        items: request.content.metadata.total_sources,
+        provider: config.provider,
+        model: config.modelName,
+        token_usage: result.usage
+      }]
+    };
+  }
+
+  /**
+   * Map: summarize each token-sized chunk into partial insights.
+   * Reduce: merge the partial insights into one DigestAnalysis.
+   */
+  private async runMapReduceAnalysis(request: AIAnalysisRequest, template: PromptTemplate, progress: ProgressTracker): Promise<AnalysisRun> {
+    const chunks = chunkContent(request.content, request.chunkTokenLimit || AIService.MAP_CHUNK_TOKENS);
+    if (chunks.length === 0) {
+      throw new Error('No content to analyze');
+    }
+
+    const partials: PartialInsights[] = [];
+    const stages: StageTokenUsage[] = [];
+    const failures: AIProviderError[] = [];
+
+    // Chunks run one at a time so a large run doesn't trip provider rate limits
+    for (const chunk of chunks) {
+      progress.update(2, { step: `Map ${chunk.index + 1}/${chunks.length}` });
+      const mapPrompt = this.buildMapPrompt(request, chunk, chunks.length);
+      const mapped = await this.runWithFallback(
+        modelConfig => this.generateStructured(mapPrompt, modelConfig, PARTIAL_INSIGHTS_OUTPUT)
+      );
+
+      partials.push(mapped.result.value);
+      failures.push(...mapped.failures);
+      stages.push({
+        stage: 'map',
+        chunk_index: chunk.index,
+        items: chunk.items,
+        provider: mapped.config.provider,
+        model: mapped.config.modelName,
+        token_usage: mapped.result.usage
+      });
+    }
+
+    progress.update(3, { step: 'Reduce' });
+    const reduce = this.buildAnalysisPrompt(request, this.prepareReduceContent(request.content, chunks, partials), template);
+    const output = this.getTemplateOutput(template);
+    const { result, config, failures: reduceFailures } = await this.runWithFallback(
+      modelConfig => this.generateStructured(reduce.prompt, modelConfig, output, reduce.system)
+    );
+
+    failures.push(...reduceFailures);
+    stages.push({
+      stage: 'reduce',
+      items: request.content.metadata.total_sources,
+      provider: config.provider,
+      model: config.modelName,
+      token_usage: result.usage
+    });
+
+    logger.info('Map-reduce analysis completed', {
+      chunks: chunks.length,
+      items: request.content.metadata.total_sources,
+      stage_tokens: stages.map(stage => `${stage.stage}${stage.chunk_index !== undefined ? ` ${stage.chunk_index + 1}` : ''}: ${stage.token_usage.total_tokens}`)
+    });
+
+    return { analysis: result.value, config, failures, stages, reasoning_time_ms: result.reasoning_time_ms };
+  }
+
   /**
    * Prepare content for AI analysis with quality signals for intelligent filtering
    * 
    * This method doesn't just format content - it provides the AI with key signals
-   * to make intelligent filtering decisions during content analysis.
+   * to make intelligent filtering decisions during content analysis. Items are
+   * labelled "Tweet 1", "Message 1", "Article 1" so prompts can refer to them.
    */
-  private prepareContentForAnalysis(content: any): string {
+  prepareContentForAnalysis(content: any): string {
     const sections: string[] = [];
 
     // Add tweets with quality signals for AI filtering
@@ -218,6 +471,9 @@ export class AIService {
         // Quality signals that guide AI filtering decisions
         sections.push(`**Engagement:** ${tweet.engagement_score} (Quality: ${tweet.quality_score.toFixed(2)})`);
         sections.push(`**Priority:** ${tweet.engagement_score > 100 ? 'HIGH' : tweet.engagement_score > 50 ? 'MEDIUM' : 'LOW'}`);
+        if (tweet.topic_relevance !== undefined) {
+          sections.push(`**Topic Relevance:** ${tweet.topic_relevance.toFixed(2)}`);
+        }
         
         sections.push(`**Content:** ${tweet.text}`);
         sections.push(`**URL:** ${tweet.url}`);
@@ -240,6 +496,9 @@ export class AIService {
         // Quality signals for AI filtering
         sections.push(`**Views:** ${msg.views} (Quality: ${msg.quality_score.toFixed(2)})`);
         sections.push(`**Signal Strength:** ${msg.views > 1000 ? 'STRONG' : msg.views > 500 ? 'MEDIUM' : 'WEAK'}`);
+        if (msg.topic_relevance !== undefined) {
+          sections.push(`**Topic Relevance:** ${msg.topic_relevance.toFixed(2)}`);
+        }
         
         sections.push(`**Content:** ${msg.text}`);
         sections.push(`**URL:** ${msg.url}`);
@@ -263,6 +522,9 @@ export class AIService {
         // Quality signals for AI filtering decisions
         sections.push(`**Quality Score:** ${article.quality_score.toFixed(2)}`);
         sections.push(`**Content Type:** ${article.quality_score > 0.8 ? 'PREMIUM ANALYSIS' : article.quality_score > 0.6 ? 'STANDARD NEWS' : 'BRIEF UPDATE'}`);
+        if (article.topic_relevance !== undefined) {
+          sections.push(`**Topic Relevance:** ${article.topic_relevance.toFixed(2)}`);
+        }
         
         sections.push(`**Summary:** ${article.description}`);
         if (article.content) {
@@ -274,249 +536,602 @@ export class AIService {
     }
 
     // Add metadata
-    sections.push('## METADATA');
+    sections.push(...this.prepareMetadataSection(content));
+
+    return sections.join('\n');
+  }
+
+  private prepareMetadataSection(content: ContentForAnalysis): string[] {
+    const sections = ['## METADATA'];
     sections.push(`**Timeframe:** ${content.timeframe.from} to ${content.timeframe.to}`);
     sections.push(`**Total Sources:** ${content.metadata.total_sources}`);
     sections.push(`**Source Breakdown:**`);
     sections.push(`- Twitter: ${content.metadata.source_breakdown.twitter} items`);
     sections.push(`- Telegram: ${content.metadata.source_breakdown.telegram} items`);
     sections.push(`- RSS: ${content.metadata.source_breakdown.rss} items`);
+    if (content.metadata.focus_topics && content.metadata.focus_topics.length > 0) {
+      sections.push(`**Focus Topics:** ${content.metadata.focus_topics.join(', ')}`);
+    }
+    return sections;
+  }
+
+  /**
+   * Partial insights from every chunk, as the content for the reduce prompt
+   */
+  private prepareReduceContent(content: ContentForAnalysis, chunks: ContentChunk[], partials: PartialInsights[]): string {
+    const sections: string[] = [];
+
+    sections.push('## PARTIAL INSIGHTS');
+    sections.push(`*Note: The content was too large for one pass, so it was split into ${chunks.length} chunks and each chunk was summarized separately. Merge these partial insights into one analysis: combine topics that appear in several chunks (their mentions add up), give more weight to chunks with more high-quality items, and derive the sentiment breakdown across all chunks.*`);
+    sections.push('');
+
+    chunks.forEach((chunk, index) => {
+      const breakdown = chunk.content.metadata.source_breakdown;
+      sections.push(`### Chunk ${index + 1} (${chunk.items} items: ${breakdown.twitter} Twitter, ${breakdown.telegram} Telegram, ${breakdown.rss} RSS)`);
+      sections.push(JSON.stringify(partials[index], null, 2));
+      sections.push('');
+    });
+
+    sections.push(...this.prepareMetadataSection(content));
 
     return sections.join('\n');
   }
 
   /**
-   * Call the appropriate AI model based on current configuration
+   * Call the configured AI model, falling back along the provider chain if it fails
+   */
+  private async callAIModel(prompt: string, primary: AIModelConfig = this.config): Promise<any> {
+    const { result } = await this.runWithFallback(async config => {
+      const response = await this.callModel(config, prompt);
+      this.reportUsage(config, 'text', this.extractTokenUsage(response));
+      return response;
+    }, primary);
+    return result;
+  }
+
+  /**
+   * Single text generation call against one model configuration
+   */
+  private async callModel(config: AIModelConfig, prompt: string, system?: string): Promise<any> {
+    return await generateText({
+      ...this.getCallSettings(config),
+      system,
+      prompt
+    });
+  }
+
+  /**
+   * Run an operation against the current model, then each fallback in turn
+   * when it fails with a provider error (rate limit, auth, timeout, overload...).
+   * Backs off between providers. Rejected requests (400, 404, 413, 422...)
+   * and other errors are rethrown straight away: a prompt the provider
+   * rejected would fail - and be billed - on every provider in the chain.
+   */
+  private async runWithFallback<T>(
+    operation: (config: AIModelConfig) => Promise<T>,
+    primary: AIModelConfig = this.config
+  ): Promise<{ result: T; config: AIModelConfig; failures: AIProviderError[] }> {
+    const chain = [primary, ...this.resolveFallbacks(primary)];
+    const failures: AIProviderError[] = [];
+
+    for (let index = 0; index < chain.length; index++) {
+      const config = chain[index];
+
+      this.signal?.throwIfAborted();
+
+      try {
+        const result = await operation(config);
+        if (failures.length > 0) {
+          logger.info(`AI fallback succeeded with ${config.provider}:${config.modelName}`, {
+            failed: failures.map(failure => `${failure.provider}:${failure.model} (${failure.kind})`)
+          });
+        }
+        return { result, config, failures };
+
+      } catch (error: any) {
+        // An aborted call is not the provider's fault - don't fall back
+        this.signal?.throwIfAborted();
+
+        const classification = classifyProviderError(error);
+        if (!classification) {
+          throw error;
+        }
+
+        const failure = new AIProviderError({
+          provider: config.provider,
+          model: config.modelName,
+          message: this.explainProviderError(config.provider, error).message,
+          cause: error,
+          ...classification
+        });
+        failures.push(failure);
+
+        if (failure.kind === 'request') {
+          throw failure;
+        }
+
+        const next = chain[index + 1];
+        if (!next) break;
+
+        const delayMs = this.getBackoffDelay(failure, failures.length);
+        logger.warn(`AI provider ${config.provider}:${config.modelName} failed (${failure.kind}), trying ${next.provider}:${next.modelName}`, {
+          error: error.message,
+          statusCode: failure.statusCode,
+          backoffMs: delayMs
+        });
+        if (delayMs > 0) {
+          await sleep(delayMs, this.signal);
+        }
+      }
+    }
+
+    throw failures.length === 1 ? failures[0] : new AIProvidersExhaustedError(failures);
+  }
+
+  /**
+   * How long to wait before the next provider. Auth and availability
+   * failures say nothing about load, so they move on immediately.
+   */
+  private getBackoffDelay(failure: AIProviderError, attempt: number): number {
+    const exponential = AIService.BASE_BACKOFF_MS * 2 ** (attempt - 1);
+
+    switch (failure.kind) {
+      case 'rate_limit':
+        return Math.min(failure.retryAfterMs ?? exponential * 2, AIService.MAX_BACKOFF_MS);
+      case 'overloaded':
+        return Math.min(failure.retryAfterMs ?? exponential, AIService.MAX_BACKOFF_MS);
+      case 'timeout':
+        return Math.min(exponential / 2, AIService.MAX_BACKOFF_MS);
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Full configurations for the fallback chain: the current config's `fallbacks`,
+   * or AI_FALLBACK_CHAIN (e.g. "openai:gpt-4o-mini,ollama"). Entries without
+   * credentials or identical to the primary model are skipped.
+   */
+  private resolveFallbacks(primary: AIModelConfig): AIModelConfig[] {
+    const fallbacks = primary.fallbacks ?? AIService.parseFallbackChain(process.env.AI_FALLBACK_CHAIN);
+    const resolved: AIModelConfig[] = [];
+
+    for (const fallback of fallbacks) {
+      const defaults = AIService.getDefaultConfig(fallback.provider);
+      const config: AIModelConfig = {
+        provider: fallback.provider,
+        modelName: fallback.modelName || defaults.modelName,
+        options: { ...defaults.options, ...fallback.options }
+      };
+
+      const duplicate = [primary, ...resolved].some(
+        existing => existing.provider === config.provider && existing.modelName === config.modelName
+      );
+      const missingCredential = AIService.getMissingCredential(config.provider);
+
+      if (missingCredential) {
+        logger.debug(`Skipping AI fallback ${config.provider}: ${missingCredential} is not set`);
+      } else if (!duplicate) {
+        resolved.push(config);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Parse "provider[:model],..." - the model may contain colons (llama3.1:8b)
    */
-  private async callAIModel(prompt: string, outputFormat: string = 'json'): Promise<any> {
-    const { provider, modelName, options } = this.currentConfig;
+  public static parseFallbackChain(value?: string): AIModelFallback[] {
+    if (!value) return [];
+
+    const providers: AIModelConfig['provider'][] = ['openai', 'anthropic', 'google', 'ollama'];
+    const chain: AIModelFallback[] = [];
+
+    for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const provider = (separator === -1 ? entry : entry.slice(0, separator)).toLowerCase() as AIModelConfig['provider'];
+      const modelName = separator === -1 ? undefined : entry.slice(separator + 1).trim() || undefined;
+
+      if (!providers.includes(provider)) {
+        logger.warn(`Ignoring unknown provider "${provider}" in AI fallback chain`);
+        continue;
+      }
+      chain.push({ provider, modelName });
+    }
+
+    return chain;
+  }
+
+  /**
+   * Built-in default configuration for a provider
+   */
+  public static getDefaultConfig(provider: AIModelConfig['provider']): AIModelConfig {
+    const defaults = {
+      openai: AIService.DEFAULT_OPENAI_CONFIG,
+      anthropic: AIService.DEFAULT_ANTHROPIC_CONFIG,
+      google: AIService.DEFAULT_GOOGLE_CONFIG,
+      ollama: AIService.DEFAULT_OLLAMA_CONFIG
+    }[provider];
+
+    return { ...defaults, options: { ...defaults.options } };
+  }
+
+  /**
+   * Name of the environment variable a provider needs but doesn't have, if any
+   */
+  private static getMissingCredential(provider: AIModelConfig['provider']): string | undefined {
+    const required: Partial<Record<AIModelConfig['provider'], string>> = {
+      openai: 'OPENAI_API_KEY',
+      anthropic: 'ANTHROPIC_API_KEY',
+      google: 'GOOGLE_GENERATIVE_AI_API_KEY'
+      // Ollama is a local service and needs no key
+    };
+
+    const variable = required[provider];
+    return variable && !process.env[variable] ? variable : undefined;
+  }
+
+  /**
+   * Model and generation settings shared by text and structured calls
+   */
+  private getCallSettings(config: AIModelConfig): ModelCallSettings {
+    const { provider, modelName, options } = config;
 
     const baseOptions = {
-      temperature: options.temperature || 0.7,
-      maxTokens: options.max_tokens || 2000,
+      temperature: options.temperature ?? 0.7,
+      maxTokens: options.max_tokens ?? 2000,
+      abortSignal: this.signal,
     };
 
-    try {
-      switch (provider) {
-        case 'openai':
-          return await generateText({
-            model: openai(modelName),
-            prompt,
-            ...baseOptions,
-            ...(options.reasoning_effort && { reasoningEffort: options.reasoning_effort })
-          });
+    switch (provider) {
+      case 'openai':
+        return {
+          model: openai(modelName),
+          ...baseOptions,
+          ...(options.reasoning_effort && AIService.isReasoningModel(modelName) && {
+            providerOptions: { openai: { reasoningEffort: options.reasoning_effort } }
+          })
+        };
 
-        case 'anthropic':
-          return await generateText({
-            model: anthropic(modelName),
-            prompt,
-            ...baseOptions,
-            ...(options.thinking && {
-              experimental_toolCallMode: 'json',
-              experimental_thinking: options.thinking.type === 'enabled',
-              ...(options.thinking.budgetTokens && {
-                experimental_thinkingBudgetTokens: options.thinking.budgetTokens
-              })
-            })
-          });
+      case 'anthropic':
+        return {
+          model: anthropic(modelName),
+          ...baseOptions,
+          ...(options.thinking?.type === 'enabled' && AIService.supportsExtendedThinking(modelName) && {
+            providerOptions: {
+              anthropic: {
+                thinking: { type: 'enabled', budgetTokens: options.thinking.budgetTokens ?? 1024 }
+              }
+            }
+          })
+        };
 
-        case 'google':
-          return await generateText({
-            model: google(modelName),
-            prompt,
-            ...baseOptions,
-            ...(options.safetySettings && { safetySettings: options.safetySettings })
-          });
+      case 'google':
+        return {
+          model: google(modelName, {
+            ...(options.safetySettings && { safetySettings: options.safetySettings as any })
+          }),
+          ...baseOptions
+        };
 
-        case 'ollama':
-          return await generateText({
-            model: ollama(modelName),
-            prompt,
-            ...baseOptions
-          });
+      case 'ollama':
+        return {
+          model: this.getOllamaProvider(options.baseURL)(modelName),
+          ...baseOptions
+        };
+
+      default:
+        throw new Error(`Unsupported AI provider: ${provider}`);
+    }
+  }
+
+  /**
+   * Add provider-specific hints to common setup errors
+   */
+  private explainProviderError(provider: AIModelConfig['provider'], error: any): Error {
+
+    if (provider === 'ollama' && error?.message?.includes('ECONNREFUSED')) {
+      return new Error('Ollama server not running. Start it with: ollama serve');
+    }
+    if (provider === 'google' && error?.message?.includes('API_KEY_INVALID')) {
+      return new Error('Invalid Google API key. Check GOOGLE_GENERATIVE_AI_API_KEY environment variable');
+    }
+    return error;
+  }
+
+  /**
+   * Whether the provider can generate schema-constrained output (tool or JSON-schema mode)
+   */
+  public static supportsStructuredOutput(provider: AIModelConfig['provider']): boolean {
+    return provider === 'openai' || provider === 'anthropic' || provider === 'google';
+  }
+
+  /**
+   * Whether calls with this config run Claude extended thinking. Anthropic
+   * rejects the forced tool choice of structured output while thinking is on.
+   */
+  private static usesExtendedThinking(config: AIModelConfig): boolean {
+    return config.provider === 'anthropic'
+      && config.options.thinking?.type === 'enabled'
+      && AIService.supportsExtendedThinking(config.modelName);
+  }
+
+  /**
+   * Produce output that passes the schema. Providers with structured output get
+   * the schema directly; otherwise (and if structured output still fails) the
+   * text response is validated and the model is asked to repair it. Claude with
+   * extended thinking always takes the text path, so it keeps its reasoning.
+   */
+  private async generateStructured<T>(
+    prompt: string,
+    config: AIModelConfig,
+    output: StructuredOutput<T>,
+    system?: string
+  ): Promise<{ value: T; usage: TokenUsage; reasoning_time_ms?: number }> {
+    const { provider, modelName } = config;
+    let usage: TokenUsage = EMPTY_TOKEN_USAGE;
+    let rawText: string | undefined;
+    let issues: string[] = [];
+    let attempts = 0;
 
-        default:
-          throw new Error(`Unsupported AI provider: ${provider}`);
+    if (AIService.supportsStructuredOutput(provider) && !AIService.usesExtendedThinking(config)) {
+      attempts++;
+      try {
+        const result = await generateObject({
+          ...this.getCallSettings(config),
+          schema: output.outputSchema,
+          schemaName: output.name,
+          system,
+          prompt
+        });
+        const callUsage = this.extractTokenUsage(result);
+        this.reportUsage(config, output.name, callUsage);
+        return { value: result.object, usage: callUsage };
+      } catch (error: any) {
+        if (!NoObjectGeneratedError.isInstance(error)) {
+          throw error;
+        }
+
+        const callUsage = this.extractTokenUsage(error);
+        this.reportUsage(config, output.name, callUsage);
+        usage = this.addTokenUsage(usage, callUsage);
+        rawText = error.text;
+        issues = [(error.cause as Error | undefined)?.message || error.message];
+        logger.warn(`Structured ${output.name} output failed validation, attempting repair`, { provider, model: modelName, issues });
       }
-    } catch (error: any) {
-      // Add provider-specific error handling
-      if (provider === 'ollama' && error?.message?.includes('ECONNREFUSED')) {
-        throw new Error('Ollama server not running. Start it with: ollama serve');
+    } else {
+      attempts++;
+      const response = await this.callModel(config, prompt, system);
+      const callUsage = this.extractTokenUsage(response);
+      this.reportUsage(config, output.name, callUsage);
+      usage = this.addTokenUsage(usage, callUsage);
+      rawText = response.text;
+
+      const parsed = this.parseAndValidateResponse(rawText || '', output.schema);
+      if (parsed.value) {
+        return { value: parsed.value, usage, reasoning_time_ms: response.reasoning_time_ms };
       }
-      if (provider === 'google' && error?.message?.includes('API_KEY_INVALID')) {
-        throw new Error('Invalid Google API key. Check GOOGLE_GENERATIVE_AI_API_KEY environment variable');
+      issues = parsed.issues;
+      logger.warn(`${output.name} output failed validation, attempting repair`, { provider, model: modelName, issues });
+    }
+
+    for (let repair = 1; repair <= AIService.MAX_REPAIR_ATTEMPTS; repair++) {
+      attempts++;
+      const response = await this.callModel(config, this.buildRepairPrompt(prompt, rawText, issues), system);
+      const callUsage = this.extractTokenUsage(response);
+      this.reportUsage(config, output.name, callUsage);
+      usage = this.addTokenUsage(usage, callUsage);
+      rawText = response.text;
+
+      const parsed = this.parseAndValidateResponse(rawText || '', output.schema);
+      if (parsed.value) {
+        logger.info(`${output.name} output repaired`, { provider, model: modelName, attempts });
+        return { value: parsed.value, usage };
       }
-      throw error;
+      issues = parsed.issues;
     }
+
+    throw new AnalysisValidationError({ provider, model: modelName, attempts, issues, rawText });
   }
 
   /**
-   * Build analysis prompt that guides AI filtering and content selection
-   * 
-   * This prompt is crucial - it instructs the AI to act as an intelligent filter,
-   * not just a summarizer. The AI will select, prioritize, and curate content.
+   * Pass one call's usage to the listener. A failing listener doesn't fail the call.
+   */
+  private reportUsage(config: AIModelConfig, operation: string, usage: TokenUsage): void {
+    if (!this.usageListener) return;
+
+    try {
+      this.usageListener({ provider: config.provider, model: config.modelName, operation, token_usage: usage });
+    } catch (error: any) {
+      logger.warn('AI usage listener failed', { operation, error: error.message });
+    }
+  }
+
+  /**
+   * Ask the model to fix its previous output against the validation issues
+   */
+  private buildRepairPrompt(originalPrompt: string, previousOutput: string | undefined, issues: string[]): string {
+    return `${originalPrompt}
+
+---
+Your previous response could not be used because it did not match the required JSON structure.
+
+PROBLEMS:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+PREVIOUS RESPONSE:
+${(previousOutput || '(empty)').substring(0, 8000)}
+
+Return ONLY the corrected JSON object - no markdown fences, no commentary.`;
+  }
+
+  /**
+   * Ollama provider for a custom server URL (the provider expects the /api path)
+   */
+  private getOllamaProvider(baseURL?: string) {
+    if (!baseURL) {
+      return ollama;
+    }
+    return createOllama({ baseURL: `${baseURL.replace(/\/+$/, '').replace(/\/api$/, '')}/api` });
+  }
+
+  /**
+   * Whether an OpenAI model accepts a reasoning effort (o-series and GPT-5)
+   */
+  public static isReasoningModel(modelName: string): boolean {
+    return /^(o\d|gpt-5)/i.test(modelName);
+  }
+
+  /**
+   * Whether a Claude model supports extended thinking (Claude 3.7 and later)
    */
-  private buildAnalysisPrompt(request: AIAnalysisRequest, preparedContent: string): string {
-    const baseInstructions = `You are an expert content analyst and curator specializing in technology, finance, and current events. 
+  public static supportsExtendedThinking(modelName: string): boolean {
+    return /claude-(3-7|(sonnet|opus)-4|4)/i.test(modelName);
+  }
 
-Your job has TWO phases:
-1. INTELLIGENT FILTERING: Select only the most valuable, relevant, and newsworthy content
-2. ANALYSIS: Generate actionable insights from your curated selection
+  /**
+   * Prompt for the map step: extract partial insights from one chunk
+   */
+  private buildMapPrompt(request: AIAnalysisRequest, chunk: ContentChunk, totalChunks: number): string {
+    const part = `${chunk.index + 1} of ${totalChunks}`;
+    let instructions = `You are an expert content analyst working on part ${part} of a large content set for a ${request.analysisType}.
+Another step will merge the notes from every part into the final analysis, so do NOT write the analysis itself - extract partial insights from this part only.
 
-CONTENT CURATION GUIDELINES:
+GUIDELINES:
 - IGNORE repetitive, off-topic, or low-value content
 - PRIORITIZE breaking news, unique insights, and emerging trends
-- COMBINE multiple sources discussing the same topic into single insights
-- FOCUS on content with high engagement scores and quality ratings
-- SELECT content that provides genuine value to readers
-
-ANALYSIS REQUIREMENTS:
-1. Focus on the most significant trends and patterns from your curated selection
-2. Prioritize high-quality, high-engagement content you've selected
-3. Identify emerging themes from your filtered content
-4. Provide balanced, objective analysis based on your curation
-5. Include confidence levels for your assessments
-6. Cite specific examples from the content you chose to include
+- Use the engagement and quality signals to decide what matters
+- Keep evidence short and attributed (author, channel or source) so it can be cited later
+- Count topic mentions within this part only`;
+
+    if (request.focusTopics && request.focusTopics.length > 0) {
+      instructions += `\n- Only extract insights that relate to: ${request.focusTopics.join(', ')}`;
+    }
+
+    if (request.instructions) {
+      instructions += `\n\nADDITIONAL INSTRUCTIONS:\n${request.instructions}`;
+    }
+
+    return `${instructions}
 
 OUTPUT FORMAT: Return a valid JSON object with the following structure:
 {
-  "title": "Concise title summarizing the key theme (max 100 chars)",
-  "executive_summary": "3-4 sentence overview of the most important findings",
-  "key_insights": ["Array of 3-5 key insights, each 1-2 sentences"],
-  "trending_topics": [
+  "summary": "2-3 sentence summary of this part",
+  "key_points": ["Up to 6 of the most significant developments, each 1-2 sentences"],
+  "topics": [
     {
       "topic": "Topic name",
-      "relevance_score": 0.8,
-      "supporting_content": ["Brief quotes or references"],
+      "mentions": 3,
+      "evidence": ["Brief quotes or references, with source"],
       "trend_direction": "rising|stable|declining"
     }
   ],
-  "content_analysis": {
-    "sentiment": {
-      "overall": "positive|negative|neutral",
-      "confidence": 0.85,
-      "breakdown": {"positive": 60, "neutral": 30, "negative": 10}
-    },
-    "themes": [
-      {"name": "Theme name", "frequency": 5, "significance": 0.9}
-    ],
-    "quality_distribution": {
-      "high_quality_percentage": 75,
-      "average_engagement": 150,
-      "content_diversity": 0.8
-    }
+  "sentiment": {
+    "overall": "positive|negative|neutral",
+    "breakdown": {"positive": 60, "neutral": 30, "negative": 10}
   },
-  "recommendations": ["Array of 2-4 actionable recommendations"],
-  "confidence_score": 0.85
-}`;
+  "high_quality_items": 4,
+  "notable_items": ["Up to 5 standout items: author/source and what they said"]
+}
 
-    // Add specific instructions based on analysis type
-    let specificInstructions = '';
-    switch (request.analysisType) {
-      case 'digest':
-        specificInstructions = `
-DIGEST-SPECIFIC INSTRUCTIONS:
-- Create a comprehensive daily digest format
-- Highlight breaking news and significant developments
-- Connect related stories across different sources
-- Identify market implications and business opportunities
-- Focus on actionable intelligence for decision-makers`;
-        break;
-      
-      case 'summary':
-        specificInstructions = `
-SUMMARY-SPECIFIC INSTRUCTIONS:
-- Provide concise, factual summaries
-- Maintain key details and context
-- Avoid speculation or analysis beyond the source material
-- Focus on information density and clarity`;
-        break;
-      
-      case 'sentiment':
-        specificInstructions = `
-SENTIMENT-SPECIFIC INSTRUCTIONS:
-- Perform detailed sentiment analysis
-- Identify emotional tone and market sentiment
-- Analyze sentiment trends over time
-- Provide confidence levels for sentiment assessments`;
-        break;
-    }
+CONTENT TO ANALYZE (part ${part}):
 
-    if (request.instructions) {
-      specificInstructions += `\n\nADDITIONAL INSTRUCTIONS:\n${request.instructions}`;
-    }
-
-    return `${baseInstructions}\n${specificInstructions}\n\nCONTENT TO ANALYZE:\n\n${preparedContent}`;
+${this.prepareContentForAnalysis(chunk.content)}`;
   }
 
-
-
   /**
-   * Parse and validate AI response
+   * Build the system and user prompts for an analysis from its template.
+   * The template sets the analyst's role and the request; the topic focus,
+   * extra instructions and output format are added here for every template.
    */
-  private parseAndValidateResponse(responseText: string): DigestAnalysis {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
+  private buildAnalysisPrompt(request: AIAnalysisRequest, preparedContent: string, template: PromptTemplate): { system: string; prompt: string } {
+    const { timeframe, metadata } = request.content;
+    const topics = request.focusTopics && request.focusTopics.length > 0 ? request.focusTopics.join(', ') : undefined;
+    const instructions = request.instructions || 'None';
 
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate required fields
-      const required = ['title', 'executive_summary', 'key_insights', 'trending_topics', 'content_analysis', 'recommendations', 'confidence_score'];
-      for (const field of required) {
-        if (!(field in parsed)) {
-          throw new Error(`Missing required field: ${field}`);
-        }
-      }
+    const built = this.templates.buildPrompt(template.name, {
+      timeframe: `${timeframe.from} to ${timeframe.to}`,
+      source_count: metadata.total_sources,
+      content_count: metadata.total_sources,
+      source_breakdown: `${metadata.source_breakdown.twitter} Twitter, ${metadata.source_breakdown.telegram} Telegram, ${metadata.source_breakdown.rss} RSS`,
+      sectors: topics || 'All',
+      priority_topics: topics || 'All',
+      technical_domains: topics || 'All',
+      analysis_focus: topics || 'General',
+      custom_instructions: instructions,
+      technical_questions: instructions,
+      formatted_content: preparedContent
+    })!;
 
-      // Validate structure
-      if (!Array.isArray(parsed.key_insights)) {
-        throw new Error('key_insights must be an array');
-      }
-      
-      if (!Array.isArray(parsed.trending_topics)) {
-        throw new Error('trending_topics must be an array');
-      }
+    let prompt = built.userPrompt;
 
-      if (!parsed.content_analysis.sentiment) {
-        throw new Error('content_analysis.sentiment is required');
-      }
+    if (request.focusTopics && request.focusTopics.length > 0) {
+      prompt += `
+
+TOPIC FOCUS: ${topics}
+- This analysis is scoped to the topics above; content has been pre-filtered and ordered by topic relevance
+- Only include insights, trending topics and recommendations that relate to ${topics}
+- Leave out items that only mention a topic in passing, even if they have high engagement
+- Reflect the focus in the title (e.g. "${request.focusTopics[0]} Digest: ...")`;
+    }
+
+    const templateTakesInstructions = /\{(custom_instructions|technical_questions)\}/.test(template.userPromptTemplate);
+    if (request.instructions && !templateTakesInstructions) {
+      prompt += `\n\nADDITIONAL INSTRUCTIONS:\n${request.instructions}`;
+    }
 
-      return parsed as DigestAnalysis;
+    prompt += `\n\nOUTPUT FORMAT: Return a valid JSON object with the following structure:\n${DIGEST_OUTPUT_FORMAT}`;
+    if (Object.keys(template.outputSchema).length > 0) {
+      prompt += `\n\nThe object must ALSO include these ${template.name} sections (value types shown):\n${JSON.stringify(template.outputSchema, null, 2)}`;
+    }
+
+    return { system: built.systemPrompt, prompt };
+  }
 
+  /**
+   * Parse and validate a text response against a schema
+   */
+  private parseAndValidateResponse<T>(responseText: string, schema: z.ZodType<T>): { value?: T; issues: string[] } {
+    // Models sometimes wrap the JSON in markdown fences or prose
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      return { issues: ['No JSON object found in response'] };
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(jsonMatch[0]);
     } catch (error: any) {
-      logger.error('Failed to parse AI response', { error: error.message, response: responseText.substring(0, 500) });
-      
-      // Fallback response
-      return {
-        title: 'Analysis Failed',
-        executive_summary: 'Unable to process the content due to parsing errors.',
-        key_insights: ['Content analysis could not be completed'],
-        trending_topics: [],
-        content_analysis: {
-          sentiment: {
-            overall: 'neutral',
-            confidence: 0.0,
-            breakdown: { positive: 33, neutral: 33, negative: 33 }
-          },
-          themes: [],
-          quality_distribution: {
-            high_quality_percentage: 0,
-            average_engagement: 0,
-            content_diversity: 0
-          }
-        },
-        recommendations: ['Please review the content and try again'],
-        confidence_score: 0.0
-      };
+      return { issues: [`Invalid JSON: ${error.message}`] };
     }
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+      return { issues: describeSchemaIssues(result.error) };
+    }
+
+    return { value: result.data, issues: [] };
+  }
+
+  private addTokenUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+    return {
+      prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+      completion_tokens: total.completion_tokens + usage.completion_tokens,
+      total_tokens: total.total_tokens + usage.total_tokens,
+      ...((total.reasoning_tokens || usage.reasoning_tokens) && {
+        reasoning_tokens: (total.reasoning_tokens || 0) + (usage.reasoning_tokens || 0)
+      }),
+      ...((total.cache_read_tokens || usage.cache_read_tokens) && {
+        cache_read_tokens: (total.cache_read_tokens || 0) + (usage.cache_read_tokens || 0)
+      })
+    };
   }
 
   /**
-   * Extract token usage from AI response
+   * Extract token usage from AI response. Reasoning and cache-read counts only
+   * come through the provider metadata. Anthropic leaves cache reads and writes
+   * out of its prompt tokens, so they're added back to match OpenAI's counting.
    */
   private extractTokenUsage(response: any): TokenUsage {
     const usage = response.usage;
@@ -524,12 +1139,17 @@ SENTIMENT-SPECIFIC INSTRUCTIONS:
       return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
     }
 
+    const { openai: openaiMetadata, anthropic: anthropicMetadata } = response.providerMetadata || {};
+    const anthropicCached = (anthropicMetadata?.cacheReadInputTokens || 0) + (anthropicMetadata?.cacheCreationInputTokens || 0);
+    const reasoningTokens = openaiMetadata?.reasoningTokens || undefined;
+    const cacheReadTokens = openaiMetadata?.cachedPromptTokens || anthropicMetadata?.cacheReadInputTokens || undefined;
+
     return {
-      prompt_tokens: usage.promptTokens || 0,
+      prompt_tokens: (usage.promptTokens || 0) + anthropicCached,
       completion_tokens: usage.completionTokens || 0,
-      total_tokens: usage.totalTokens || 0,
-      reasoning_tokens: usage.reasoningTokens,
-      cache_read_tokens: usage.cacheReadTokens
+      total_tokens: (usage.totalTokens || 0) + anthropicCached,
+      ...(reasoningTokens && { reasoning_tokens: reasoningTokens }),
+      ...(cacheReadTokens && { cache_read_tokens: cacheReadTokens })
     };
   }
 
@@ -537,22 +1157,14 @@ SENTIMENT-SPECIFIC INSTRUCTIONS:
    * Validate configuration
    */
   private validateConfiguration(): void {
-    const { provider, modelName } = this.currentConfig;
-    
-    if (provider === 'openai' && !process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY environment variable is required for OpenAI');
-    }
-    
-    if (provider === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
-      throw new Error('ANTHROPIC_API_KEY environment variable is required for Anthropic');
-    }
+    const { provider, modelName } = this.config;
+    const labels = { openai: 'OpenAI', anthropic: 'Anthropic', google: 'Google Gemini', ollama: 'Ollama' };
 
-    if (provider === 'google' && !process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-      throw new Error('GOOGLE_GENERATIVE_AI_API_KEY environment variable is required for Google Gemini');
+    const missingCredential = AIService.getMissingCredential(provider);
+    if (missingCredential) {
+      throw new Error(`${missingCredential} environment variable is required for ${labels[provider]}`);
     }
 
-    // Note: Ollama doesn't require API key validation as it's a local service
-
     logger.debug('AI configuration validated', { provider, modelName });
   }
 
@@ -560,32 +1172,67 @@ SENTIMENT-SPECIFIC INSTRUCTIONS:
    * Get current configuration
    */
   public getConfig(): AIModelConfig {
-    return { ...this.currentConfig };
+    return JSON.parse(JSON.stringify(this.config));
   }
 
   /**
    * Generate text from prompt (simplified interface for general use)
    */
   async generateText(options: { prompt: string; maxTokens?: number; temperature?: number }): Promise<{ text: string }> {
-    const originalTemp = this.currentConfig.options.temperature;
-    const originalMaxTokens = this.currentConfig.options.max_tokens;
-    
-    // Temporarily override options
-    if (options.temperature !== undefined) {
-      this.currentConfig.options.temperature = options.temperature;
-    }
-    if (options.maxTokens !== undefined) {
-      this.currentConfig.options.max_tokens = options.maxTokens;
-    }
-    
-    try {
-      const result = await this.callAIModel(options.prompt);
-      return { text: result.text };
-    } finally {
-      // Restore original options
-      this.currentConfig.options.temperature = originalTemp;
-      this.currentConfig.options.max_tokens = originalMaxTokens;
-    }
+    // Per-call overrides go into a copy, so concurrent calls never see each other's settings
+    const config: AIModelConfig = {
+      ...this.config,
+      options: {
+        ...this.config.options,
+        ...(options.temperature !== undefined && { temperature: options.temperature }),
+        ...(options.maxTokens !== undefined && { max_tokens: options.maxTokens })
+      }
+    };
+
+    const result = await this.callAIModel(options.prompt, config);
+    return { text: result.text };
+  }
+
+  /**
+   * Generate an object that matches a schema, with the same validation, repair
+   * and provider fallback as content analysis
+   */
+  async generateObject<T>(options: {
+    prompt: string;
+    schema: z.ZodType<T>;
+    schemaName: string;
+    maxTokens?: number;
+  }): Promise<{ object: T; usage: TokenUsage; provider: string; model: string; fallback_attempts: ProviderFailure[] }> {
+    const primary: AIModelConfig = options.maxTokens === undefined
+      ? this.config
+      : { ...this.config, options: { ...this.config.options, max_tokens: options.maxTokens } };
+    const output: StructuredOutput<T> = {
+      name: options.schemaName,
+      schema: options.schema,
+      outputSchema: toOutputSchema(options.schema)
+    };
+
+    const { result, config, failures } = await this.runWithFallback(
+      modelConfig => this.generateStructured(options.prompt, modelConfig, output),
+      primary
+    );
+
+    return {
+      object: result.value,
+      usage: result.usage,
+      provider: config.provider,
+      model: config.modelName,
+      fallback_attempts: this.toProviderFailures(failures)
+    };
+  }
+
+  private toProviderFailures(failures: AIProviderError[]): ProviderFailure[] {
+    return failures.map(failure => ({
+      provider: failure.provider,
+      model: failure.model,
+      error_kind: failure.kind,
+      message: failure.message
+    }));
   }
 
   /**
@@ -617,12 +1264,12 @@ SENTIMENT-SPECIFIC INSTRUCTIONS:
       };
 
       const response = await this.analyzeContent(testRequest);
-      logger.info(`AI connection test successful: ${this.currentConfig.provider}:${this.currentConfig.modelName}`);
+      logger.info(`AI connection test successful: ${this.config.provider}:${this.config.modelName}`);
       logger.info(response);
       return true;
 
     } catch (error) {
-      logger.error(`AI connection test failed: ${this.currentConfig.provider}:${this.currentConfig.modelName}`, error);
+      logger.error(`AI connection test failed: ${this.config.provider}:${this.config.modelName}`, error);
       return false;
     }
   }
@@ -0,0 +1,105 @@
+// lib/ai/content-chunker.ts
+
+import { AnalysisRSSArticle, AnalysisTelegramMessage, AnalysisTweet, ContentForAnalysis } from '../../types/ai';
+import { ContentPlatform, estimateItemTokens } from '../digest/content-budget';
+
+export interface ContentChunk {
+  index: number;
+  content: ContentForAnalysis;
+  items: number;
+  estimatedTokens: number;
+}
+
+interface ContentItems {
+  tweets: AnalysisTweet;
+  telegram_messages: AnalysisTelegramMessage;
+  rss_articles: AnalysisRSSArticle;
+}
+
+type ContentLists = { [K in keyof ContentItems]: ContentItems[K][] };
+
+/**
+ * A chunk being filled, with every item list present
+ */
+interface OpenChunk extends ContentChunk {
+  content: ContentForAnalysis & ContentLists;
+}
+
+/**
+ * Estimated prompt tokens for all items in the content
+ */
+export function estimateContentTokens(content: ContentForAnalysis): number {
+  return sumTokens('twitter', content.tweets)
+    + sumTokens('telegram', content.telegram_messages)
+    + sumTokens('rss', content.rss_articles);
+}
+
+/**
+ * Split content into chunks of at most `maxTokens` estimated tokens for the
+ * map step of a map-reduce analysis. Items keep their order and platform; an
+ * item larger than the limit gets a chunk of its own.
+ */
+export function chunkContent(content: ContentForAnalysis, maxTokens: number): ContentChunk[] {
+  const chunks: ContentChunk[] = [];
+  let current = emptyChunk(content, 0);
+
+  const add = <K extends keyof ContentItems>(platform: ContentPlatform, key: K, item: ContentItems[K]) => {
+    const tokens = estimateItemTokens(platform, item);
+    if (current.items > 0 && current.estimatedTokens + tokens > maxTokens) {
+      chunks.push(finishChunk(current));
+      current = emptyChunk(content, chunks.length);
+    }
+
+    const list: ContentLists[K] = current.content[key];
+    list.push(item);
+    current.items++;
+    current.estimatedTokens += tokens;
+  };
+
+  content.tweets?.forEach(tweet => add('twitter', 'tweets', tweet));
+  content.telegram_messages?.forEach(message => add('telegram', 'telegram_messages', message));
+  content.rss_articles?.forEach(article => add('rss', 'rss_articles', article));
+
+  if (current.items > 0) {
+    chunks.push(finishChunk(current));
+  }
+
+  return chunks;
+}
+
+function sumTokens(platform: ContentPlatform, items?: ContentItems[keyof ContentItems][]): number {
+  return (items || []).reduce((total, item) => total + estimateItemTokens(platform, item), 0);
+}
+
+function emptyChunk(content: ContentForAnalysis, index: number): OpenChunk {
+  return {
+    index,
+    content: {
+      tweets: [],
+      telegram_messages: [],
+      rss_articles: [],
+      timeframe: content.timeframe,
+      metadata: { ...content.metadata }
+    },
+    items: 0,
+    estimatedTokens: 0
+  };
+}
+
+/**
+ * Make the chunk's metadata describe the chunk rather than the whole run
+ */
+function finishChunk(chunk: OpenChunk): ContentChunk {
+  const breakdown = {
+    twitter: chunk.content.tweets.length,
+    telegram: chunk.content.telegram_messages.length,
+    rss: chunk.content.rss_articles.length
+  };
+
+  chunk.content.metadata = {
+    ...chunk.content.metadata,
+    total_sources: chunk.items,
+    source_breakdown: breakdown
+  };
+  return chunk;
+}
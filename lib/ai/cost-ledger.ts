@@ -0,0 +1,272 @@
+// lib/ai/cost-ledger.ts
+
+import path from 'path';
+import { z } from 'zod';
+import { JsonFileStore } from '../storage/json-file-store';
+import { createStore, StoreType, SupabaseBackedStore } from '../storage/store-factory';
+
+/**
+ * One recorded model call (or analysis) and what it cost
+ */
+export interface CostLedgerEntry {
+  id: string;
+  recordedAt: string;   // ISO timestamp
+  day: string;          // YYYY-MM-DD in the budget timezone
+  provider?: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  context?: string;     // what the spend was for, e.g. 'digest'
+}
+
+export interface DailyCostRollup {
+  day: string;
+  cost_usd: number;
+  total_tokens: number;
+  calls: number;
+}
+
+export interface ModelCostRollup {
+  provider?: string;
+  model: string;
+  cost_usd: number;
+  total_tokens: number;
+  calls: number;
+}
+
+/**
+ * Append-only record of AI spend, queried by budget day
+ */
+export interface CostLedger {
+  record(entry: CostLedgerEntry): Promise<void>;
+  /** Entries whose day is between `fromDay` and `toDay` (inclusive, YYYY-MM-DD) */
+  getEntries(fromDay: string, toDay: string): Promise<CostLedgerEntry[]>;
+}
+
+export type CostLedgerType = StoreType;
+
+// Local ledgers drop entries older than this; analytics only look back 30 days
+const RETENTION_DAYS = 90;
+
+/**
+ * The calendar day (YYYY-MM-DD) a moment falls on in the given timezone
+ */
+export function ledgerDay(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+/**
+ * The day `offset` days before/after a YYYY-MM-DD day
+ */
+export function shiftDay(day: string, offset: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + offset);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Per-day totals for each of `days`, including days with no spend
+ */
+export function rollupByDay(entries: CostLedgerEntry[], days: string[]): DailyCostRollup[] {
+  const rollups = new Map<string, DailyCostRollup>(
+    days.map(day => [day, { day, cost_usd: 0, total_tokens: 0, calls: 0 }])
+  );
+
+  for (const entry of entries) {
+    const rollup = rollups.get(entry.day);
+    if (!rollup) continue;
+    rollup.cost_usd += entry.costUsd;
+    rollup.total_tokens += entry.totalTokens;
+    rollup.calls++;
+  }
+
+  return Array.from(rollups.values());
+}
+
+/**
+ * Per-model totals, most expensive first
+ */
+export function rollupByModel(entries: CostLedgerEntry[]): ModelCostRollup[] {
+  const rollups = new Map<string, ModelCostRollup>();
+
+  for (const entry of entries) {
+    const key = `${entry.provider || ''}:${entry.model}`;
+    let rollup = rollups.get(key);
+    if (!rollup) {
+      rollup = { provider: entry.provider, model: entry.model, cost_usd: 0, total_tokens: 0, calls: 0 };
+      rollups.set(key, rollup);
+    }
+    rollup.cost_usd += entry.costUsd;
+    rollup.total_tokens += entry.totalTokens;
+    rollup.calls++;
+  }
+
+  return Array.from(rollups.values()).sort((a, b) => b.cost_usd - a.cost_usd);
+}
+
+function inRange(entry: CostLedgerEntry, fromDay: string, toDay: string): boolean {
+  return entry.day >= fromDay && entry.day <= toDay;
+}
+
+function retentionCutoff(): string {
+  return shiftDay(new Date().toISOString().split('T')[0], -RETENTION_DAYS);
+}
+
+/**
+ * Process-local ledger. Spend is forgotten on restart.
+ */
+export class MemoryCostLedger implements CostLedger {
+  private entries: CostLedgerEntry[] = [];
+
+  async record(entry: CostLedgerEntry): Promise<void> {
+    const cutoff = retentionCutoff();
+    this.entries = this.entries.filter(existing => existing.day >= cutoff).concat(entry);
+  }
+
+  async getEntries(fromDay: string, toDay: string): Promise<CostLedgerEntry[]> {
+    return this.entries.filter(entry => inRange(entry, fromDay, toDay));
+  }
+}
+
+const costLedgerFileSchema = z.object({
+  version: z.literal(1),
+  entries: z.array(z.object({
+    id: z.string(),
+    recordedAt: z.string(),
+    day: z.string(),
+    provider: z.string().optional(),
+    model: z.string(),
+    promptTokens: z.number(),
+    completionTokens: z.number(),
+    totalTokens: z.number(),
+    costUsd: z.number(),
+    context: z.string().optional(),
+  })),
+});
+
+type CostLedgerFile = z.infer<typeof costLedgerFileSchema>;
+
+/**
+ * JSON-file ledger for single-host setups. Writes are serialized within the
+ * process and go through temp file + rename.
+ */
+export class FileCostLedger implements CostLedger {
+  private file: JsonFileStore<CostLedgerFile>;
+
+  constructor(filePath: string = path.join(process.cwd(), '.ai-cost-ledger.json')) {
+    // Keep an unreadable file around rather than overwrite someone's spend history
+    this.file = new JsonFileStore(filePath, {
+      schema: costLedgerFileSchema,
+      empty: () => ({ version: 1, entries: [] }),
+      label: 'cost ledger',
+      backupInvalid: true
+    });
+  }
+
+  record(entry: CostLedgerEntry): Promise<void> {
+    return this.file.transaction(document => {
+      const cutoff = retentionCutoff();
+      document.entries = document.entries
+        .filter(existing => existing.day >= cutoff)
+        .concat(entry);
+      return { result: undefined, changed: true };
+    });
+  }
+
+  getEntries(fromDay: string, toDay: string): Promise<CostLedgerEntry[]> {
+    return this.file.transaction(document => ({
+      result: document.entries.filter(entry => inRange(entry, fromDay, toDay)),
+      changed: false
+    }));
+  }
+
+}
+
+/**
+ * Ledger backed by the `ai_cost_ledger` table, so every instance sees the
+ * same daily spend
+ */
+export class SupabaseCostLedger extends SupabaseBackedStore implements CostLedger {
+  async record(entry: CostLedgerEntry): Promise<void> {
+    const { error } = await this.supabase
+      .from('ai_cost_ledger')
+      .insert({
+        id: entry.id,
+        recorded_at: entry.recordedAt,
+        day: entry.day,
+        provider: entry.provider ?? null,
+        model: entry.model,
+        prompt_tokens: entry.promptTokens,
+        completion_tokens: entry.completionTokens,
+        total_tokens: entry.totalTokens,
+        cost_usd: entry.costUsd,
+        context: entry.context ?? null
+      });
+
+    if (error) {
+      throw new Error(`Failed to record AI cost: ${error.message}`);
+    }
+  }
+
+  async getEntries(fromDay: string, toDay: string): Promise<CostLedgerEntry[]> {
+    const { data, error } = await this.supabase
+      .from('ai_cost_ledger')
+      .select('*')
+      .gte('day', fromDay)
+      .lte('day', toDay)
+      .order('recorded_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load AI cost ledger: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => this.fromRow(row));
+  }
+
+  private fromRow(row: any): CostLedgerEntry {
+    return {
+      id: row.id,
+      recordedAt: row.recorded_at,
+      day: row.day,
+      provider: row.provider ?? undefined,
+      model: row.model,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      totalTokens: row.total_tokens,
+      costUsd: Number(row.cost_usd),
+      context: row.context ?? undefined
+    };
+  }
+}
+
+/**
+ * Create the ledger selected by COST_LEDGER_STORE (memory | file | supabase, default file)
+ */
+export function createCostLedger(type?: string): CostLedger {
+  return createStore<CostLedger>('COST_LEDGER_STORE', type, {
+    memory: () => new MemoryCostLedger(),
+    file: () => new FileCostLedger(),
+    supabase: () => new SupabaseCostLedger()
+  });
+}
+
+// One ledger per process: every optimizer appends through the same instance
+// (and, for the file ledger, the same write queue). Global so API routes
+// bundled separately by Next.js share it too.
+declare global {
+  var _costLedger: CostLedger | undefined;
+}
+
+if (!global._costLedger) {
+  global._costLedger = createCostLedger();
+}
+
+export const costLedger = global._costLedger;
@@ -1,6 +1,23 @@
 // lib/ai/cost-optimizer.ts
 
-import { AIModelConfig, TokenUsage } from '../../types/ai';
+import { randomUUID } from 'crypto';
+import { AIModelConfig, AnalysisPriority, ModelCallEstimate, TokenUsage } from '../../types/ai';
+import { AutomationConfig, configManager } from '../automation/config-manager';
+import logger from '../logger';
+import { AIService } from './ai-service';
+import { BudgetExceededError } from './errors';
+import { ModelPricingCatalog, modelPricing } from './model-pricing';
+import {
+  CostLedger,
+  CostLedgerEntry,
+  DailyCostRollup,
+  ModelCostRollup,
+  costLedger,
+  ledgerDay,
+  rollupByDay,
+  rollupByModel,
+  shiftDay
+} from './cost-ledger';
 
 export interface CostOptimizationConfig {
   maxDailyCost: number;
@@ -15,6 +32,8 @@ export interface CostOptimizationConfig {
     balanced: string[];    // Balanced cost/performance
     premium: string[];     // Best performance regardless of cost
   };
+  timezone?: string;       // When the daily budget resets (default: the digest schedule's timezone)
+  allowLocalModels?: boolean; // Recommend local (Ollama) models - free, but they need a running server
 }
 
 export interface OptimizationRecommendation {
@@ -25,22 +44,170 @@ export interface OptimizationRecommendation {
   explanation: string;
 }
 
+/**
+ * A model that could run the analysis, with the calls it would make
+ */
+export interface BudgetCandidate {
+  config: AIModelConfig;
+  calls: ModelCallEstimate[];
+}
+
+export interface BudgetedModelChoice<T extends BudgetCandidate> {
+  candidate: T;
+  estimatedCost: number;
+  availableBudget: number;
+}
+
+// Share of the per-analysis limit each priority may spend
+const PRIORITY_BUDGET_SHARE: Record<AnalysisPriority, number> = {
+  critical: 1,
+  important: 0.5,
+  routine: 0.2
+};
+
+export interface CostPeriodSummary {
+  total_cost: number;
+  total_tokens: number;
+  calls: number;
+  average_daily: number;
+  daily: DailyCostRollup[];
+  by_model: ModelCostRollup[];
+}
+
+export interface CostAnalytics {
+  timezone: string;
+  today: string;
+  daily_spend: number;
+  remaining_budget: number;
+  budget_utilization: number; // percent of the daily budget
+  last_7_days: CostPeriodSummary;
+  last_30_days: CostPeriodSummary;
+}
+
 export class CostOptimizer {
   private config: CostOptimizationConfig;
+  private ledger: CostLedger;
+  private timezone: string;
   private dailySpend: number = 0;
-  private costHistory: { date: string; amount: number; tokens: number }[] = [];
-
-  // Model pricing (per 1K tokens)
-  private readonly MODEL_COSTS = {
-    'gpt-4o': { input: 0.0025, output: 0.010 },
-    'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
-    'claude-3-5-sonnet-20241022': { input: 0.003, output: 0.015 },
-    'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 }
-  };
+  private spendDay: string;
+  private loaded: Promise<void>;
+  private pricing: ModelPricingCatalog;
 
-  constructor(config: CostOptimizationConfig) {
+  constructor(
+    config: CostOptimizationConfig,
+    ledger: CostLedger = costLedger,
+    pricing: ModelPricingCatalog = modelPricing
+  ) {
     this.config = config;
-    this.loadCostHistory();
+    this.ledger = ledger;
+    this.pricing = pricing;
+    this.timezone = resolveTimezone(config.timezone || configManager.getConfig().scheduling.digest_pipeline.timezone);
+    this.spendDay = this.today();
+    this.loaded = this.refreshDailySpend().then(() => undefined, () => undefined);
+  }
+
+  /**
+   * Optimizer enforcing automation.json's ai.cost_limits
+   */
+  static fromAutomationConfig(ai: AutomationConfig['ai'], ledger?: CostLedger): CostOptimizer {
+    const perAnalysis = ai.cost_limits.per_analysis_limit;
+    const models = ai.model_configs;
+
+    return new CostOptimizer({
+      maxDailyCost: ai.cost_limits.daily_budget,
+      maxPerAnalysisCost: perAnalysis,
+      priorityLevels: {
+        critical: perAnalysis * PRIORITY_BUDGET_SHARE.critical,
+        important: perAnalysis * PRIORITY_BUDGET_SHARE.important,
+        routine: perAnalysis * PRIORITY_BUDGET_SHARE.routine
+      },
+      modelPreferences: {
+        low_cost: [models.routine.model],
+        balanced: [models.important.model],
+        premium: [models.critical.model]
+      }
+    }, ledger);
+  }
+
+  /**
+   * Estimated cost in USD of one call, or undefined if the model has no pricing
+   */
+  estimateCost(model: string, inputTokens: number, outputTokens: number, provider?: string): number | undefined {
+    return this.pricing.costOf(model, { prompt_tokens: inputTokens, completion_tokens: outputTokens }, provider);
+  }
+
+  /**
+   * Estimated cost in USD of a series of calls to one model, or undefined if the model has no pricing
+   */
+  estimateCallsCost(config: AIModelConfig, calls: ModelCallEstimate[]): number | undefined {
+    let total = 0;
+    for (const call of calls) {
+      const cost = this.estimateCost(config.modelName, call.prompt_tokens, call.completion_tokens, config.provider);
+      if (cost === undefined) return undefined;
+      total += cost;
+    }
+    return total;
+  }
+
+  /**
+   * Pick the first candidate (in order of preference) whose estimated calls
+   * fit the budget available to the priority. Each call's output is estimated
+   * at its maximum (max_tokens plus any thinking budget). Models without an
+   * entry in config/model-pricing.json are never picked, since their cost is
+   * unknown (local models are priced at $0 there).
+   * Throws BudgetExceededError when the daily budget is used up or no candidate fits.
+   */
+  async selectWithinBudget<T extends BudgetCandidate>(
+    candidates: T[],
+    priority: AnalysisPriority
+  ): Promise<BudgetedModelChoice<T>> {
+    if (candidates.length === 0) {
+      throw new Error('No models to choose from');
+    }
+
+    await this.loaded;
+    const dailySpend = await this.refreshDailySpend().catch(() => this.getDailySpend());
+    const availableBudget = Math.max(0, this.getAvailableBudget(priority));
+
+    const estimates: { candidate: T; estimatedCost: number }[] = [];
+    const unpriced: string[] = [];
+    for (const candidate of candidates) {
+      const estimatedCost = this.estimateCallsCost(candidate.config, candidate.calls);
+      if (estimatedCost === undefined) {
+        unpriced.push(`${candidate.config.provider}:${candidate.config.modelName}`);
+      } else {
+        estimates.push({ candidate, estimatedCost });
+      }
+    }
+
+    if (unpriced.length > 0) {
+      logger.warn(`No pricing for ${unpriced.join(', ')} in config/model-pricing.json, not using them for ${priority} analyses`);
+    }
+
+    const cheapest = estimates.length > 0 ? Math.min(...estimates.map(estimate => estimate.estimatedCost)) : 0;
+
+    if (dailySpend >= this.config.maxDailyCost) {
+      throw new BudgetExceededError({
+        reason: 'daily_budget_exhausted',
+        priority,
+        estimatedCost: cheapest,
+        availableBudget,
+        dailySpend
+      });
+    }
+
+    const choice = estimates.find(estimate => estimate.estimatedCost <= availableBudget);
+    if (!choice) {
+      throw new BudgetExceededError({
+        reason: estimates.length > 0 ? 'over_budget' : 'unpriced',
+        priority,
+        estimatedCost: cheapest,
+        availableBudget,
+        dailySpend
+      });
+    }
+
+    return { ...choice, availableBudget };
   }
 
   /**
@@ -48,42 +215,44 @@ export class CostOptimizer {
    */
   getOptimizationRecommendation(
     contentSize: number,
-    priority: 'critical' | 'important' | 'routine',
+    priority: AnalysisPriority,
     currentModel: string
   ): OptimizationRecommendation {
     const estimatedTokens = this.estimateTokenUsage(contentSize);
     const availableBudget = this.getAvailableBudget(priority);
     
     // Calculate costs for different models
-    const costComparisons = Object.entries(this.MODEL_COSTS).map(([model, pricing]) => {
-      const inputCost = (estimatedTokens.input / 1000) * pricing.input;
-      const outputCost = (estimatedTokens.output / 1000) * pricing.output;
-      const totalCost = inputCost + outputCost;
-      
-      return {
-        model,
-        cost: totalCost,
-        withinBudget: totalCost <= availableBudget,
-        performance: this.getModelPerformanceScore(model)
-      };
-    });
-
-    // Sort by cost-effectiveness (performance per dollar)
-    costComparisons.sort((a, b) => {
-      const aRatio = a.performance / a.cost;
-      const bRatio = b.performance / b.cost;
-      return bRatio - aRatio;
-    });
+    const costComparisons = this.pricing.listModels()
+      .filter(pricing => this.config.allowLocalModels || !pricing.local)
+      .map(pricing => {
+        const totalCost = this.estimateCost(pricing.model, estimatedTokens.input, estimatedTokens.output, pricing.provider) ?? 0;
+
+        return {
+          provider: pricing.provider,
+          model: pricing.model,
+          cost: totalCost,
+          withinBudget: totalCost <= availableBudget,
+          performance: pricing.quality
+        };
+      });
+
+    if (costComparisons.length === 0) {
+      throw new Error('No priced models to recommend - check config/model-pricing.json');
+    }
+
+    // Sort by cost-effectiveness (performance per dollar; free models first)
+    const ratio = (option: { performance: number; cost: number }) => option.performance / Math.max(option.cost, 1e-9);
+    costComparisons.sort((a, b) => ratio(b) - ratio(a));
 
     // Find best option within budget
     const bestOption = costComparisons.find(option => option.withinBudget) || costComparisons[costComparisons.length - 1];
-    const currentCost = costComparisons.find(option => option.model === currentModel)?.cost || 0;
+    const currentCost = this.estimateCost(currentModel, estimatedTokens.input, estimatedTokens.output) || 0;
     
     return {
       recommendedModel: {
-        provider: bestOption.model.includes('gpt') ? 'openai' : 'anthropic',
+        provider: bestOption.provider,
         modelName: bestOption.model,
-        options: this.getOptimalModelOptions(bestOption.model, priority)
+        options: this.getOptimalModelOptions(bestOption.provider, priority)
       },
       estimatedCost: bestOption.cost,
       costSavings: Math.max(0, currentCost - bestOption.cost),
@@ -98,8 +267,7 @@ export class CostOptimizer {
   private estimateTokenUsage(contentSize: number): { input: number; output: number } {
     // Rough estimates based on content characteristics
     const baseInputTokens = Math.ceil(contentSize / 4); // ~4 chars per token
-    const systemPromptTokens = 800; // Average system prompt size
-    const inputTokens = baseInputTokens + systemPromptTokens;
+    const inputTokens = baseInputTokens + AIService.PROMPT_OVERHEAD_TOKENS;
     
     // Output typically 15-25% of input for analysis tasks
     const outputTokens = Math.ceil(inputTokens * 0.2);
@@ -110,8 +278,8 @@ export class CostOptimizer {
   /**
    * Get available budget for priority level
    */
-  private getAvailableBudget(priority: 'critical' | 'important' | 'routine'): number {
-    const remainingDaily = this.config.maxDailyCost - this.dailySpend;
+  private getAvailableBudget(priority: AnalysisPriority): number {
+    const remainingDaily = this.config.maxDailyCost - this.getDailySpend();
     const priorityBudget = this.config.priorityLevels[priority];
     const maxPerAnalysis = this.config.maxPerAnalysisCost;
     
@@ -122,19 +290,13 @@ export class CostOptimizer {
    * Get model performance score (0-1 scale)
    */
   private getModelPerformanceScore(model: string): number {
-    const scores: Record<string, number> = {
-      'claude-3-5-sonnet-20241022': 0.95,
-      'gpt-4o': 0.90,
-      'gpt-4o-mini': 0.75,
-      'claude-3-haiku-20240307': 0.70
-    };
-    return scores[model] || 0.5;
+    return this.pricing.find(model)?.quality ?? 0.5;
   }
 
   /**
    * Get optimal model options for priority level
    */
-  private getOptimalModelOptions(model: string, priority: 'critical' | 'important' | 'routine'): any {
+  private getOptimalModelOptions(provider: AIModelConfig['provider'], priority: AnalysisPriority): any {
     const baseOptions = {
       temperature: 0.7,
       max_tokens: 2000
@@ -146,14 +308,14 @@ export class CostOptimizer {
           ...baseOptions,
           temperature: 0.3, // More conservative for critical analysis
           max_tokens: 3000,
-          thinking: model.includes('claude') ? { type: 'enabled', budgetTokens: 30000 } : undefined
+          thinking: provider === 'anthropic' ? { type: 'enabled', budgetTokens: 30000 } : undefined
         };
       
       case 'important':
         return {
           ...baseOptions,
           max_tokens: 2500,
-          thinking: model.includes('claude') ? { type: 'enabled', budgetTokens: 20000 } : undefined
+          thinking: provider === 'anthropic' ? { type: 'enabled', budgetTokens: 20000 } : undefined
         };
       
       case 'routine':
@@ -161,7 +323,7 @@ export class CostOptimizer {
           ...baseOptions,
           max_tokens: 1500,
           temperature: 0.8, // Slightly more creative for routine tasks
-          thinking: model.includes('claude') ? { type: 'enabled', budgetTokens: 10000 } : undefined
+          thinking: provider === 'anthropic' ? { type: 'enabled', budgetTokens: 10000 } : undefined
         };
     }
   }
@@ -208,81 +370,148 @@ export class CostOptimizer {
   }
 
   /**
-   * Record actual cost after analysis
+   * Record actual cost after analysis. Returns the cost in USD.
    */
-  recordActualCost(tokenUsage: TokenUsage, model: string): void {
-    const pricing = this.MODEL_COSTS[model as keyof typeof this.MODEL_COSTS];
-    if (!pricing) return;
+  async recordActualCost(
+    tokenUsage: TokenUsage,
+    model: string,
+    details: { provider?: string; context?: string } = {}
+  ): Promise<number> {
+    await this.loaded;
 
-    const inputCost = (tokenUsage.prompt_tokens / 1000) * pricing.input;
-    const outputCost = (tokenUsage.completion_tokens / 1000) * pricing.output;
-    const totalCost = inputCost + outputCost;
+    const estimate = this.pricing.costOf(model, tokenUsage, details.provider);
+    if (estimate === undefined) {
+      logger.warn(`No pricing for model ${model}, recording its usage at zero cost`);
+    }
+    const totalCost = estimate ?? 0;
 
+    const now = new Date();
+    this.rollOver();
     this.dailySpend += totalCost;
-    this.costHistory.push({
-      date: new Date().toISOString().split('T')[0],
-      amount: totalCost,
-      tokens: tokenUsage.total_tokens
-    });
-
-    // Keep only last 30 days
-    this.costHistory = this.costHistory.slice(-30);
-    this.saveCostHistory();
+
+    try {
+      await this.ledger.record({
+        id: randomUUID(),
+        recordedAt: now.toISOString(),
+        day: ledgerDay(now, this.timezone),
+        provider: details.provider,
+        model,
+        promptTokens: tokenUsage.prompt_tokens,
+        completionTokens: tokenUsage.completion_tokens,
+        totalTokens: tokenUsage.total_tokens,
+        costUsd: totalCost,
+        context: details.context
+      });
+    } catch (error: any) {
+      // The in-memory daily spend still counts it, so the budget holds for this process
+      logger.error('Failed to record AI cost in the ledger', { model, cost: totalCost, error: error.message });
+    }
+
+    return totalCost;
   }
 
   /**
-   * Get cost analytics
+   * Spend so far today in the budget timezone. Resets when the day changes.
    */
-  getCostAnalytics(): any {
-    const last7Days = this.costHistory.slice(-7);
-    const last30Days = this.costHistory;
-
-    return {
-      daily_spend: this.dailySpend,
-      remaining_budget: this.config.maxDailyCost - this.dailySpend,
-      last_7_days: {
-        total_cost: last7Days.reduce((sum, entry) => sum + entry.amount, 0),
-        total_tokens: last7Days.reduce((sum, entry) => sum + entry.tokens, 0),
-        average_daily: last7Days.reduce((sum, entry) => sum + entry.amount, 0) / 7
-      },
-      last_30_days: {
-        total_cost: last30Days.reduce((sum, entry) => sum + entry.amount, 0),
-        total_tokens: last30Days.reduce((sum, entry) => sum + entry.tokens, 0),
-        average_daily: last30Days.reduce((sum, entry) => sum + entry.amount, 0) / 30
-      },
-      budget_utilization: (this.dailySpend / this.config.maxDailyCost) * 100
-    };
+  getDailySpend(): number {
+    this.rollOver();
+    return this.dailySpend;
   }
 
   /**
-   * Load cost history from storage
+   * Reload today's spend from the ledger, picking up costs recorded by other
+   * processes. Returns the spend.
    */
-  private loadCostHistory(): void {
+  async refreshDailySpend(): Promise<number> {
+    const today = this.today();
+
     try {
-      const stored = localStorage.getItem('ai_cost_history');
-      if (stored) {
-        this.costHistory = JSON.parse(stored);
-      }
-    } catch (error) {
-      console.warn('Failed to load cost history:', error);
+      const entries = await this.ledger.getEntries(today, today);
+      this.spendDay = today;
+      this.dailySpend = entries.reduce((sum, entry) => sum + entry.costUsd, 0);
+    } catch (error: any) {
+      logger.warn('Failed to load today\'s AI spend from the ledger', { error: error.message });
+      throw error;
     }
+
+    return this.dailySpend;
   }
 
   /**
-   * Save cost history to storage
+   * Spend for today and the last 7 and 30 days (including today), with
+   * per-day and per-model rollups
    */
-  private saveCostHistory(): void {
-    try {
-      localStorage.setItem('ai_cost_history', JSON.stringify(this.costHistory));
-    } catch (error) {
-      console.warn('Failed to save cost history:', error);
-    }
+  async getCostAnalytics(): Promise<CostAnalytics> {
+    await this.loaded;
+
+    const today = this.today();
+    const days30 = Array.from({ length: 30 }, (_, index) => shiftDay(today, index - 29));
+    const days7 = days30.slice(-7);
+
+    const entries = await this.ledger.getEntries(days30[0], today);
+    const todaysEntries = entries.filter(entry => entry.day === today);
+
+    // The ledger is the source of truth; also picks up other processes' spend
+    this.spendDay = today;
+    this.dailySpend = todaysEntries.reduce((sum, entry) => sum + entry.costUsd, 0);
+
+    return {
+      timezone: this.timezone,
+      today,
+      daily_spend: this.dailySpend,
+      remaining_budget: Math.max(0, this.config.maxDailyCost - this.dailySpend),
+      budget_utilization: this.config.maxDailyCost > 0
+        ? (this.dailySpend / this.config.maxDailyCost) * 100
+        : 0,
+      last_7_days: summarizePeriod(entries.filter(entry => entry.day >= days7[0]), days7),
+      last_30_days: summarizePeriod(entries, days30)
+    };
   }
 
   /**
-   * Reset daily spending (call at midnight)
+   * Start a new budget day if midnight has passed in the budget timezone
    */
-  resetDailySpend(): void {
-    this.dailySpend = 0;
+  private rollOver(): void {
+    const today = this.today();
+    if (today !== this.spendDay) {
+      logger.info(`New AI budget day ${today} (${this.timezone}), daily spend reset`, {
+        previous_day: this.spendDay,
+        previous_spend: this.dailySpend
+      });
+      this.spendDay = today;
+      this.dailySpend = 0;
+    }
   }
-}
\ No newline at end of file
+
+  private today(): string {
+    return ledgerDay(new Date(), this.timezone);
+  }
+}
+
+function summarizePeriod(entries: CostLedgerEntry[], days: string[]): CostPeriodSummary {
+  const totalCost = entries.reduce((sum, entry) => sum + entry.costUsd, 0);
+
+  return {
+    total_cost: totalCost,
+    total_tokens: entries.reduce((sum, entry) => sum + entry.totalTokens, 0),
+    calls: entries.length,
+    average_daily: totalCost / days.length,
+    daily: rollupByDay(entries, days),
+    by_model: rollupByModel(entries)
+  };
+}
+
+/**
+ * The configured timezone, or UTC if it isn't one Intl knows
+ */
+function resolveTimezone(timezone?: string): string {
+  if (!timezone) return 'UTC';
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    logger.warn(`Invalid cost budget timezone "${timezone}", using UTC`);
+    return 'UTC';
+  }
+}
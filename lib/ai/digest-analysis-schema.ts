@@ -0,0 +1,103 @@
+// lib/ai/digest-analysis-schema.ts
+
+import { jsonSchema } from 'ai';
+import { z } from 'zod';
+import { DigestAnalysis, PartialInsights } from '../../types/ai';
+
+const score = z.number().min(0).max(1);
+const percentage = z.number().min(0).max(100);
+const trendDirection = z.enum(['rising', 'stable', 'declining']);
+const sentimentBreakdown = z.object({
+  positive: percentage,
+  neutral: percentage,
+  negative: percentage
+});
+
+/**
+ * Zod schema for DigestAnalysis - the shape every analysis must have before
+ * it is stored or distributed
+ */
+export const digestAnalysisSchema = z.object({
+  title: z.string().min(1).max(200).describe('Concise title summarizing the key theme (max 100 chars)'),
+  executive_summary: z.string().min(1).describe('3-4 sentence overview of the most important findings'),
+  key_insights: z.array(z.string().min(1)).min(1).describe('3-5 key insights, each 1-2 sentences'),
+  trending_topics: z.array(z.object({
+    topic: z.string().min(1),
+    relevance_score: score,
+    supporting_content: z.array(z.string()).describe('Brief quotes or references'),
+    trend_direction: trendDirection
+  })),
+  content_analysis: z.object({
+    sentiment: z.object({
+      overall: z.enum(['positive', 'negative', 'neutral']),
+      confidence: score,
+      breakdown: sentimentBreakdown
+    }),
+    themes: z.array(z.object({
+      name: z.string().min(1),
+      frequency: z.number().min(0),
+      significance: score
+    })),
+    quality_distribution: z.object({
+      high_quality_percentage: percentage,
+      average_engagement: z.number().min(0),
+      content_diversity: score
+    })
+  }),
+  recommendations: z.array(z.string().min(1)).describe('2-4 actionable recommendations'),
+  confidence_score: score
+});
+
+/**
+ * Zod schema for PartialInsights - what the map step of a map-reduce analysis
+ * extracts from one chunk of content
+ */
+export const partialInsightsSchema = z.object({
+  summary: z.string().min(1).describe('2-3 sentence summary of this chunk'),
+  key_points: z.array(z.string().min(1)).describe('Up to 6 of the most significant developments, each 1-2 sentences'),
+  topics: z.array(z.object({
+    topic: z.string().min(1),
+    mentions: z.number().int().min(0).describe('How many items in this chunk discuss the topic'),
+    evidence: z.array(z.string()).describe('Brief quotes or references, with source'),
+    trend_direction: trendDirection
+  })),
+  sentiment: z.object({
+    overall: z.enum(['positive', 'negative', 'neutral']),
+    breakdown: sentimentBreakdown
+  }),
+  high_quality_items: z.number().int().min(0).describe('Items in this chunk worth including in the digest'),
+  notable_items: z.array(z.string()).describe('Up to 5 standout items: author/source and what they said')
+});
+
+// Fail to compile if a schema drifts from its interface
+type SchemaMatches<T extends I, I> = T;
+export type ValidatedDigestAnalysis = SchemaMatches<z.infer<typeof digestAnalysisSchema>, DigestAnalysis>;
+export type ValidatedPartialInsights = SchemaMatches<z.infer<typeof partialInsightsSchema>, PartialInsights>;
+
+/**
+ * Human-readable list of what is wrong with a candidate analysis
+ */
+export function describeSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * A schema in the form the AI SDK's generateObject expects. The AI SDK is
+ * typed against zod 3, so we hand it JSON Schema plus our own validator.
+ */
+export function toOutputSchema<T>(schema: z.ZodType<T>) {
+  return jsonSchema<T>(
+    z.toJSONSchema(schema) as Parameters<typeof jsonSchema>[0],
+    {
+      validate: value => {
+        const result = schema.safeParse(value);
+        return result.success
+          ? { success: true, value: result.data }
+          : { success: false, error: new Error(describeSchemaIssues(result.error).join('; ')) };
+      }
+    }
+  );
+}
+
+export const digestAnalysisOutputSchema = toOutputSchema<DigestAnalysis>(digestAnalysisSchema);
+export const partialInsightsOutputSchema = toOutputSchema<PartialInsights>(partialInsightsSchema);
@@ -0,0 +1,172 @@
+// lib/ai/errors.ts
+
+/**
+ * The model's output could not be turned into a valid DigestAnalysis, even
+ * after repair attempts. Callers should treat the analysis as failed rather
+ * than store or publish anything.
+ */
+export class AnalysisValidationError extends Error {
+  readonly provider: string;
+  readonly model: string;
+  readonly attempts: number;
+  readonly issues: string[];
+  readonly rawText?: string;
+
+  constructor(options: { provider: string; model: string; attempts: number; issues: string[]; rawText?: string }) {
+    super(
+      `AI analysis from ${options.provider}:${options.model} failed validation after ${options.attempts} attempt(s): ` +
+      options.issues.slice(0, 5).join('; ')
+    );
+    this.name = 'AnalysisValidationError';
+    this.provider = options.provider;
+    this.model = options.model;
+    this.attempts = options.attempts;
+    this.issues = options.issues;
+    this.rawText = options.rawText;
+  }
+}
+
+/**
+ * One or more steps of a reasoning chain failed. Steps that completed are
+ * cached, so running the chain again on the same input resumes from here.
+ */
+export class ReasoningChainError extends Error {
+  readonly chain: string;
+  readonly failedSteps: string[];
+  readonly completedSteps: string[];
+
+  constructor(options: { chain: string; failedSteps: string[]; completedSteps: string[]; cause?: unknown }) {
+    const reason = options.cause instanceof Error ? `: ${options.cause.message}` : '';
+    super(`Reasoning chain '${options.chain}' failed at step(s) ${options.failedSteps.join(', ')}${reason}`, { cause: options.cause });
+    this.name = 'ReasoningChainError';
+    this.chain = options.chain;
+    this.failedSteps = options.failedSteps;
+    this.completedSteps = options.completedSteps;
+  }
+}
+
+/**
+ * The cost optimizer refused an analysis: the daily AI budget is used up, no
+ * model allowed for the priority is estimated to fit the remaining budget, or
+ * none of them has pricing to estimate with.
+ */
+export class BudgetExceededError extends Error {
+  readonly reason: 'daily_budget_exhausted' | 'over_budget' | 'unpriced';
+  readonly priority: string;
+  readonly estimatedCost: number;
+  readonly availableBudget: number;
+  readonly dailySpend: number;
+
+  constructor(options: {
+    reason: 'daily_budget_exhausted' | 'over_budget' | 'unpriced';
+    priority: string;
+    estimatedCost: number;
+    availableBudget: number;
+    dailySpend: number;
+  }) {
+    super(options.reason === 'daily_budget_exhausted'
+      ? `Daily AI budget exhausted ($${options.dailySpend.toFixed(4)} spent today)`
+      : options.reason === 'unpriced'
+        ? `No model allowed for ${options.priority} analyses has pricing in config/model-pricing.json`
+        : `Cheapest ${options.priority} analysis is estimated at $${options.estimatedCost.toFixed(4)}, over the $${options.availableBudget.toFixed(4)} available`);
+    this.name = 'BudgetExceededError';
+    this.reason = options.reason;
+    this.priority = options.priority;
+    this.estimatedCost = options.estimatedCost;
+    this.availableBudget = options.availableBudget;
+    this.dailySpend = options.dailySpend;
+  }
+}
+
+export type AIProviderErrorKind = 'rate_limit' | 'auth' | 'timeout' | 'overloaded' | 'unavailable' | 'request';
+
+/**
+ * A provider call failed. `kind` drives the fallback chain in AIService:
+ * how long to back off and whether the next provider is worth trying
+ * ('request' means the provider rejected the request itself, so it isn't).
+ */
+export class AIProviderError extends Error {
+  readonly provider: string;
+  readonly model: string;
+  readonly kind: AIProviderErrorKind;
+  readonly statusCode?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(options: {
+    provider: string;
+    model: string;
+    kind: AIProviderErrorKind;
+    message: string;
+    statusCode?: number;
+    retryAfterMs?: number;
+    cause?: unknown;
+  }) {
+    super(`${options.provider}:${options.model} ${options.kind.replace('_', ' ')} error: ${options.message}`, { cause: options.cause });
+    this.name = 'AIProviderError';
+    this.provider = options.provider;
+    this.model = options.model;
+    this.kind = options.kind;
+    this.statusCode = options.statusCode;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Every provider in the fallback chain failed
+ */
+export class AIProvidersExhaustedError extends Error {
+  readonly failures: AIProviderError[];
+
+  constructor(failures: AIProviderError[]) {
+    super(`All AI providers failed: ${failures.map(failure => `${failure.provider}:${failure.model} (${failure.kind})`).join(' → ')}`);
+    this.name = 'AIProvidersExhaustedError';
+    this.failures = failures;
+  }
+}
+
+/**
+ * Work out what kind of provider failure an error is. Returns undefined for
+ * errors that have nothing to do with the provider (bugs, validation...).
+ */
+export function classifyProviderError(error: any): { kind: AIProviderErrorKind; statusCode?: number; retryAfterMs?: number } | undefined {
+  // The AI SDK wraps errors it already retried
+  if (error?.name === 'AI_RetryError' && error.lastError) {
+    return classifyProviderError(error.lastError);
+  }
+
+  const statusCode: number | undefined = typeof error?.statusCode === 'number' ? error.statusCode : undefined;
+  const retryAfterMs = parseRetryAfter(error?.responseHeaders);
+  const message = `${error?.message || ''} ${error?.cause?.code || error?.code || ''}`.toLowerCase();
+
+  if (statusCode === 429 || /rate.?limit|too many requests/.test(message)) {
+    return { kind: 'rate_limit', statusCode, retryAfterMs };
+  }
+  if (statusCode === 401 || statusCode === 403 || /api key|unauthori[sz]ed|authentication|permission/.test(message)) {
+    return { kind: 'auth', statusCode };
+  }
+  if (statusCode === 408 || statusCode === 504 || error?.name === 'AbortError' || /timed? ?out|etimedout|esockettimedout/.test(message)) {
+    return { kind: 'timeout', statusCode };
+  }
+  if (statusCode === 529 || statusCode === 503 || statusCode === 502 || statusCode === 500 || /overloaded|capacity|unavailable/.test(message)) {
+    return { kind: 'overloaded', statusCode, retryAfterMs };
+  }
+  if (/econnrefused|econnreset|enotfound|fetch failed|socket hang up|network/.test(message)) {
+    return { kind: 'unavailable', statusCode };
+  }
+  if (statusCode !== undefined || error?.name === 'AI_APICallError') {
+    return { kind: 'request', statusCode };
+  }
+
+  return undefined;
+}
+
+function parseRetryAfter(headers?: Record<string, string>): number | undefined {
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,162 @@
+// lib/ai/model-pricing.ts
+
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { AIModelConfig, TokenUsage } from '../../types/ai';
+import { describeSchemaIssues } from './digest-analysis-schema';
+import logger from '../logger';
+
+/**
+ * Price (USD per 1K tokens) and capabilities of one model.
+ *
+ * Token usage follows OpenAI's convention: prompt tokens include cache reads
+ * and completion tokens include reasoning/thinking tokens. Cache reads and
+ * reasoning are billed at their own rate when one is given.
+ */
+export interface ModelPricing {
+  provider: AIModelConfig['provider'];
+  model: string;              // API model name ('*' for any model of the provider)
+  input_per_1k: number;
+  output_per_1k: number;
+  cache_read_per_1k?: number; // default: input rate
+  reasoning_per_1k?: number;  // default: output rate
+  quality: number;            // 0-1, relative analysis quality
+  context_window?: number;
+  local?: boolean;            // runs on your own hardware (no API cost, needs a running server)
+}
+
+const modelPricingSchema = z.object({
+  provider: z.enum(['openai', 'anthropic', 'google', 'ollama']),
+  model: z.string().min(1),
+  input_per_1k: z.number().min(0),
+  output_per_1k: z.number().min(0),
+  cache_read_per_1k: z.number().min(0).optional(),
+  reasoning_per_1k: z.number().min(0).optional(),
+  quality: z.number().min(0).max(1),
+  context_window: z.number().int().positive().optional(),
+  local: z.boolean().optional()
+});
+
+const pricingFileSchema = z.object({
+  models: z.array(z.unknown())
+});
+
+/**
+ * Editable pricing and capability catalog for every supported provider,
+ * loaded from config/model-pricing.json (the only copy of the prices).
+ */
+export class ModelPricingCatalog {
+  private entries: Map<string, ModelPricing> = new Map();
+  private filePath: string;
+
+  constructor(filePath: string = path.join(process.cwd(), 'config', 'model-pricing.json')) {
+    this.filePath = filePath;
+    this.reload();
+  }
+
+  /**
+   * Re-read the pricing file (e.g. after editing it)
+   */
+  reload(): void {
+    if (!existsSync(this.filePath)) {
+      logger.error(`No model pricing file at ${this.filePath}, AI costs can't be estimated`);
+      this.entries.clear();
+      return;
+    }
+
+    try {
+      const file = pricingFileSchema.parse(JSON.parse(readFileSync(this.filePath, 'utf-8')));
+      this.entries.clear();
+      let loaded = 0;
+
+      for (const [index, raw] of file.models.entries()) {
+        const result = modelPricingSchema.safeParse(raw);
+        if (!result.success) {
+          logger.warn(`Skipping invalid model pricing entry #${index + 1}`, { issues: describeSchemaIssues(result.error) });
+          continue;
+        }
+        this.set(result.data);
+        loaded++;
+      }
+
+      logger.info(`Loaded ${loaded} model price(s) from ${this.filePath}`);
+    } catch (error: any) {
+      // Keep the prices loaded before, if any
+      logger.error(`Invalid model pricing file ${this.filePath}`, { error: error.message });
+    }
+  }
+
+  /**
+   * Pricing for a model: an exact match, else the same model with another
+   * date/-latest suffix, else the provider's '*' entry. Other variants (e.g.
+   * o3-pro vs o3) are priced differently and need their own entry. Without a
+   * provider, any provider's entries match.
+   */
+  find(model: string, provider?: string): ModelPricing | undefined {
+    const candidates = this.list().filter(entry => !provider || entry.provider === provider);
+
+    const exact = candidates.find(entry => entry.model === model);
+    if (exact) return exact;
+
+    const base = baseModelName(model);
+    const variant = candidates.find(entry => baseModelName(entry.model) === base);
+    if (variant) return variant;
+
+    return provider ? candidates.find(entry => entry.model === '*') : undefined;
+  }
+
+  /**
+   * Models with a concrete name (no '*' entries)
+   */
+  listModels(): ModelPricing[] {
+    return this.list().filter(entry => entry.model !== '*');
+  }
+
+  list(): ModelPricing[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Cost in USD of the given usage, or undefined if the model isn't priced
+   */
+  costOf(
+    model: string,
+    usage: Pick<TokenUsage, 'prompt_tokens' | 'completion_tokens' | 'reasoning_tokens' | 'cache_read_tokens'>,
+    provider?: string
+  ): number | undefined {
+    const pricing = this.find(model, provider);
+    if (!pricing) return undefined;
+
+    const cacheRead = Math.min(usage.cache_read_tokens || 0, usage.prompt_tokens);
+    const reasoning = Math.min(usage.reasoning_tokens || 0, usage.completion_tokens);
+
+    return ((usage.prompt_tokens - cacheRead) / 1000) * pricing.input_per_1k
+      + (cacheRead / 1000) * (pricing.cache_read_per_1k ?? pricing.input_per_1k)
+      + ((usage.completion_tokens - reasoning) / 1000) * pricing.output_per_1k
+      + (reasoning / 1000) * (pricing.reasoning_per_1k ?? pricing.output_per_1k);
+  }
+
+  private set(entry: ModelPricing): void {
+    this.entries.set(`${entry.provider}:${entry.model}`, entry);
+  }
+}
+
+/**
+ * Model name without a release date or -latest suffix
+ * (claude-3-5-sonnet-20241022 → claude-3-5-sonnet, gpt-4o-2024-08-06 → gpt-4o)
+ */
+function baseModelName(model: string): string {
+  return model.replace(/-(\d{8}|\d{4}-\d{2}-\d{2}|latest)$/, '');
+}
+
+// Use global so API routes (bundled separately in Next.js) share one catalog
+declare global {
+  var _modelPricingCatalog: ModelPricingCatalog | undefined;
+}
+
+if (!global._modelPricingCatalog) {
+  global._modelPricingCatalog = new ModelPricingCatalog();
+}
+
+export const modelPricing = global._modelPricingCatalog;
@@ -0,0 +1,152 @@
+// lib/ai/model-profiles.ts
+
+import { EventEmitter } from 'events';
+import { AIModelConfig, AnalysisPriority } from '../../types/ai';
+import type { AutomationConfig } from '../automation/config-manager';
+import logger from '../logger';
+
+/** Chat agent intent recognition - small, fast model */
+export const INTENT_PARSING_PROFILE = 'intent-parsing';
+/** Digest analysis - the model switched and tuned from chat */
+export const DIGEST_ANALYSIS_PROFILE = 'digest-analysis';
+
+/** Priorities from most to least expensive */
+export const ANALYSIS_PRIORITIES: AnalysisPriority[] = ['critical', 'important', 'routine'];
+
+/**
+ * Profile holding the digest model for a priority tier
+ */
+export function priorityProfileName(priority: AnalysisPriority): string {
+  return `digest-${priority}`;
+}
+
+const BUILT_IN_PROFILES: Record<string, AIModelConfig> = {
+  [INTENT_PARSING_PROFILE]: {
+    provider: 'google',
+    modelName: 'gemini-1.5-flash', // Fast and cheap for this task
+    options: {
+      temperature: 0.7,
+      max_tokens: 2000
+    }
+  },
+  [DIGEST_ANALYSIS_PROFILE]: {
+    provider: 'anthropic',
+    modelName: 'claude-3-5-sonnet-20241022',
+    options: {
+      temperature: 0.7,
+      max_tokens: 2000,
+      thinking: {
+        type: 'enabled',
+        budgetTokens: 20000,
+      }
+    }
+  }
+};
+
+/**
+ * Deep-frozen copy of a model config, so a config handed to one AIService
+ * can't be changed underneath it
+ */
+export function freezeModelConfig(config: AIModelConfig): Readonly<AIModelConfig> {
+  return deepFreeze(JSON.parse(JSON.stringify(config)));
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object') {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * Named model configurations, one per use case. Profiles are replaced, never
+ * mutated: AIService instances created from a profile keep the config they
+ * were created with, and pick up changes the next time they're created.
+ */
+export class ModelProfileRegistry {
+  private profiles: Map<string, Readonly<AIModelConfig>> = new Map();
+  private emitter = new EventEmitter();
+
+  constructor(profiles: Record<string, AIModelConfig> = BUILT_IN_PROFILES) {
+    for (const [name, config] of Object.entries(profiles)) {
+      this.profiles.set(name, freezeModelConfig(config));
+    }
+  }
+
+  /**
+   * Get a profile's config
+   */
+  get(name: string): Readonly<AIModelConfig> {
+    const config = this.profiles.get(name);
+    if (!config) {
+      throw new Error(`Unknown AI model profile: ${name}`);
+    }
+    return config;
+  }
+
+  has(name: string): boolean {
+    return this.profiles.has(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+
+  /**
+   * Add or replace a profile
+   */
+  set(name: string, config: AIModelConfig): void {
+    const frozen = freezeModelConfig(config);
+    this.profiles.set(name, frozen);
+    logger.info(`AI model profile "${name}" set to ${config.provider}:${config.modelName}`);
+    this.emitter.emit('change', name, frozen);
+  }
+
+  /**
+   * Listen for profile changes. Returns a function that stops listening.
+   */
+  watch(listener: (name: string, config: Readonly<AIModelConfig>) => void): () => void {
+    this.emitter.on('change', listener);
+    return () => {
+      this.emitter.off('change', listener);
+    };
+  }
+}
+
+/**
+ * Set the priority tier profiles from automation.json's ai.model_configs.
+ * Profiles that haven't changed are left alone.
+ */
+export function registerPriorityProfiles(
+  modelConfigs: AutomationConfig['ai']['model_configs'],
+  registry: ModelProfileRegistry = modelProfiles
+): void {
+  for (const priority of ANALYSIS_PRIORITIES) {
+    const tier = modelConfigs[priority];
+    const config: AIModelConfig = {
+      provider: tier.provider,
+      modelName: tier.model,
+      options: {
+        temperature: tier.temperature,
+        max_tokens: tier.max_tokens
+      }
+    };
+
+    const name = priorityProfileName(priority);
+    if (!registry.has(name) || JSON.stringify(registry.get(name)) !== JSON.stringify(config)) {
+      registry.set(name, config);
+    }
+  }
+}
+
+// Use global so API routes (bundled separately in Next.js) share one registry
+declare global {
+  var _modelProfileRegistry: ModelProfileRegistry | undefined;
+}
+
+if (!global._modelProfileRegistry) {
+  global._modelProfileRegistry = new ModelProfileRegistry();
+}
+
+export const modelProfiles = global._modelProfileRegistry;
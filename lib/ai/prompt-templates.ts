@@ -1,26 +1,156 @@
 // lib/ai/prompt-templates.ts
 
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { digestAnalysisSchema, describeSchemaIssues } from './digest-analysis-schema';
+import { DigestAnalysis } from '../../types/ai';
+import logger from '../logger';
+
+/**
+ * Shorthand for a template's output sections: a type name, or nested fields
+ */
+export type OutputSchemaSpec = 'string' | 'number' | 'boolean' | 'array' | 'object' | { [field: string]: OutputSchemaSpec };
+
 export interface PromptTemplate {
     name: string;
     description: string;
     systemPrompt: string;
-    userPromptTemplate: string;
-    outputSchema: any;
+    userPromptTemplate: string;  // {variables} are filled in by buildPrompt
+    outputSchema: Record<string, OutputSchemaSpec>;  // sections returned on top of the DigestAnalysis fields
     costTier: 'low' | 'medium' | 'high';
     recommendedModels: string[];
   }
-  
+
+  /** Used when an analysis type has no template of its own */
+  export const DEFAULT_ANALYSIS_TEMPLATE = 'digest';
+
+  const outputSchemaSpecSchema: z.ZodType<OutputSchemaSpec> = z.lazy(() => z.union([
+    z.enum(['string', 'number', 'boolean', 'array', 'object']),
+    z.record(z.string(), outputSchemaSpecSchema)
+  ]));
+
+  /**
+   * Schema for template files in config/prompt-templates/
+   */
+  export const promptTemplateFileSchema = z.object({
+    name: z.string().regex(/^[a-z0-9_]+$/, 'must be lowercase letters, digits and underscores'),
+    description: z.string().min(1),
+    systemPrompt: z.string().min(1),
+    userPromptTemplate: z.string().includes('{formatted_content}', { message: 'must include {formatted_content}' }),
+    outputSchema: z.record(z.string(), outputSchemaSpecSchema).default({}),
+    costTier: z.enum(['low', 'medium', 'high']).default('medium'),
+    recommendedModels: z.array(z.string()).default([])
+  });
+
+  const CURATOR_SYSTEM_PROMPT = `You are an expert content analyst and curator specializing in technology, finance, and current events. 
+
+Your job has TWO phases:
+1. INTELLIGENT FILTERING: Select only the most valuable, relevant, and newsworthy content
+2. ANALYSIS: Generate actionable insights from your curated selection
+
+CONTENT CURATION GUIDELINES:
+- IGNORE repetitive, off-topic, or low-value content
+- PRIORITIZE breaking news, unique insights, and emerging trends
+- COMBINE multiple sources discussing the same topic into single insights
+- FOCUS on content with high engagement scores and quality ratings
+- SELECT content that provides genuine value to readers
+
+ANALYSIS REQUIREMENTS:
+1. Focus on the most significant trends and patterns from your curated selection
+2. Prioritize high-quality, high-engagement content you've selected
+3. Identify emerging themes from your filtered content
+4. Provide balanced, objective analysis based on your curation
+5. Include confidence levels for your assessments
+6. Cite specific examples from the content you chose to include`;
+
   export class PromptTemplateManager {
     private templates: Map<string, PromptTemplate> = new Map();
   
-    constructor() {
+    /**
+     * Built-in templates, then any custom templates (*.json) from the directory.
+     * A custom template with a built-in's name replaces it.
+     */
+    constructor(templatesDir: string = path.join(process.cwd(), 'config', 'prompt-templates')) {
       this.initializeTemplates();
+      this.loadFromDirectory(templatesDir);
     }
   
     /**
      * Initialize all prompt templates
      */
     private initializeTemplates(): void {
+      // Digest Templates - the default analysis types
+      this.registerTemplate({
+        name: 'digest',
+        description: 'Comprehensive daily digest of the collected content',
+        systemPrompt: CURATOR_SYSTEM_PROMPT,
+        userPromptTemplate: `DIGEST REQUEST
+
+TIME PERIOD: {timeframe}
+CONTENT SOURCES: {source_count} sources ({source_breakdown})
+
+DIGEST-SPECIFIC INSTRUCTIONS:
+- Create a comprehensive daily digest format
+- Highlight breaking news and significant developments
+- Connect related stories across different sources
+- Identify market implications and business opportunities
+- Focus on actionable intelligence for decision-makers
+
+CONTENT TO ANALYZE:
+
+{formatted_content}`,
+        outputSchema: {},
+        costTier: 'medium',
+        recommendedModels: ['claude-3-5-sonnet-20241022', 'gpt-4o']
+      });
+
+      this.registerTemplate({
+        name: 'summary',
+        description: 'Concise, factual summary without speculation',
+        systemPrompt: CURATOR_SYSTEM_PROMPT,
+        userPromptTemplate: `SUMMARY REQUEST
+
+TIME PERIOD: {timeframe}
+CONTENT SOURCES: {source_count} sources ({source_breakdown})
+
+SUMMARY-SPECIFIC INSTRUCTIONS:
+- Provide concise, factual summaries
+- Maintain key details and context
+- Avoid speculation or analysis beyond the source material
+- Focus on information density and clarity
+
+CONTENT TO ANALYZE:
+
+{formatted_content}`,
+        outputSchema: {},
+        costTier: 'low',
+        recommendedModels: ['gpt-4o-mini', 'claude-3-haiku-20240307']
+      });
+
+      this.registerTemplate({
+        name: 'sentiment',
+        description: 'Detailed sentiment analysis of the content',
+        systemPrompt: CURATOR_SYSTEM_PROMPT,
+        userPromptTemplate: `SENTIMENT REQUEST
+
+TIME PERIOD: {timeframe}
+CONTENT SOURCES: {source_count} sources ({source_breakdown})
+
+SENTIMENT-SPECIFIC INSTRUCTIONS:
+- Perform detailed sentiment analysis
+- Identify emotional tone and market sentiment
+- Analyze sentiment trends over time
+- Provide confidence levels for sentiment assessments
+
+CONTENT TO ANALYZE:
+
+{formatted_content}`,
+        outputSchema: {},
+        costTier: 'low',
+        recommendedModels: ['gpt-4o-mini', 'claude-3-haiku-20240307']
+      });
+
       // Market Intelligence Template
       this.registerTemplate({
         name: 'market_intelligence',
@@ -204,11 +334,79 @@ export interface PromptTemplate {
     }
   
     /**
-     * Register a new prompt template
+     * Register a new prompt template. Its output sections can't redefine DigestAnalysis fields.
      */
     registerTemplate(template: PromptTemplate): void {
+      const clashes = Object.keys(template.outputSchema).filter(field => field in digestAnalysisSchema.shape);
+      if (clashes.length > 0) {
+        throw new Error(`Template '${template.name}' redefines DigestAnalysis fields: ${clashes.join(', ')}`);
+      }
+
       this.templates.set(template.name, template);
     }
+
+    /**
+     * Load custom templates from *.json files. Invalid files are skipped with a warning.
+     */
+    loadFromDirectory(directory: string): string[] {
+      if (!existsSync(directory)) return [];
+
+      const loaded: string[] = [];
+      for (const file of readdirSync(directory).filter(name => name.endsWith('.json')).sort()) {
+        const filePath = path.join(directory, file);
+        try {
+          const result = promptTemplateFileSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf-8')));
+          if (!result.success) {
+            logger.warn(`Skipping invalid prompt template ${file}`, { issues: describeSchemaIssues(result.error) });
+            continue;
+          }
+
+          if (this.templates.has(result.data.name)) {
+            logger.info(`Prompt template '${result.data.name}' overridden by ${file}`);
+          }
+          this.registerTemplate(result.data);
+          loaded.push(result.data.name);
+        } catch (error: any) {
+          logger.warn(`Skipping invalid prompt template ${file}`, { error: error.message });
+        }
+      }
+
+      if (loaded.length > 0) {
+        logger.info(`Loaded ${loaded.length} custom prompt template(s)`, { templates: loaded });
+      }
+      return loaded;
+    }
+
+    /**
+     * Schema a template's output must match: the DigestAnalysis fields plus the
+     * template's own sections
+     */
+    getOutputSchema(name: string): z.ZodType<DigestAnalysis> {
+      const template = this.getTemplate(name);
+      if (!template) {
+        throw new Error(`Prompt template '${name}' not found`);
+      }
+
+      const sections = Object.fromEntries(
+        Object.entries(template.outputSchema).map(([field, spec]) => [field, this.toZod(spec)])
+      );
+      // Sections are only known at runtime; the result is a DigestAnalysis with extra fields
+      return digestAnalysisSchema.extend(sections) as unknown as z.ZodType<DigestAnalysis>;
+    }
+
+    private toZod(spec: OutputSchemaSpec): z.ZodType {
+      switch (spec) {
+        case 'string': return z.string();
+        case 'number': return z.number();
+        case 'boolean': return z.boolean();
+        case 'array': return z.array(z.unknown());
+        case 'object': return z.record(z.string(), z.unknown());
+        default:
+          return z.object(Object.fromEntries(
+            Object.entries(spec).map(([field, child]) => [field, this.toZod(child)])
+          ));
+      }
+    }
   
     /**
      * Get template by name
@@ -250,17 +448,25 @@ export interface PromptTemplate {
       const template = this.getTemplate(templateName);
       if (!template) return null;
   
-      let userPrompt = template.userPromptTemplate;
-      
-      // Replace variables in template
-      Object.entries(variables).forEach(([key, value]) => {
-        const placeholder = `{${key}}`;
-        userPrompt = userPrompt.replace(new RegExp(placeholder, 'g'), String(value));
-      });
+      // Replace variables in template (values are inserted literally; unknown placeholders are kept)
+      const userPrompt = template.userPromptTemplate.replace(/\{([a-z_]+)\}/g, (placeholder, key: string) =>
+        key in variables ? String(variables[key]) : placeholder
+      );
   
       return {
         systemPrompt: template.systemPrompt,
         userPrompt
       };
     }
-  }
\ No newline at end of file
+  }
+
+  // Use global so API routes (bundled separately in Next.js) share one set of templates
+  declare global {
+    var _promptTemplateManager: PromptTemplateManager | undefined;
+  }
+
+  if (!global._promptTemplateManager) {
+    global._promptTemplateManager = new PromptTemplateManager();
+  }
+
+  export const promptTemplates = global._promptTemplateManager;
@@ -0,0 +1,110 @@
+// lib/ai/reasoning-cache.ts
+
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { SerialQueue, writeJsonFileAtomic } from '../storage/json-file-store';
+import logger from '../logger';
+
+export interface CachedStepResult {
+  output: unknown;
+  token_usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  provider: string;
+  model: string;
+  execution_time_ms: number;
+  completed_at: string;
+}
+
+const cachedStepSchema = z.object({
+  output: z.unknown(),
+  token_usage: z.object({
+    prompt_tokens: z.number(),
+    completion_tokens: z.number(),
+    total_tokens: z.number()
+  }),
+  provider: z.string(),
+  model: z.string(),
+  execution_time_ms: z.number(),
+  completed_at: z.string()
+});
+
+const cacheFileSchema = z.object({
+  version: z.literal(1),
+  chain: z.string(),
+  updated_at: z.string(),
+  steps: z.record(z.string(), cachedStepSchema)
+});
+
+type CacheFile = z.infer<typeof cacheFileSchema>;
+
+// Partial results older than this are not resumed
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Completed step results of reasoning chain runs, one file per chain + input,
+ * so a run that fails part-way can resume without repeating finished steps.
+ */
+export class ReasoningCache {
+  private directory: string;
+  private writeQueue = new SerialQueue();
+
+  constructor(directory: string = path.join(process.cwd(), '.reasoning-cache')) {
+    this.directory = directory;
+  }
+
+  /**
+   * Completed steps for a run, or an empty record if there is nothing (fresh) to resume
+   */
+  async load(key: string): Promise<Record<string, CachedStepResult>> {
+    const filePath = this.filePath(key);
+    if (!existsSync(filePath)) {
+      return {};
+    }
+
+    try {
+      const file = cacheFileSchema.parse(JSON.parse(await fs.readFile(filePath, 'utf-8')));
+      if (Date.now() - new Date(file.updated_at).getTime() > CACHE_TTL_MS) {
+        await fs.rm(filePath, { force: true });
+        return {};
+      }
+      return file.steps as Record<string, CachedStepResult>;
+    } catch (error: any) {
+      logger.warn('Ignoring unreadable reasoning cache file', { file: filePath, error: error.message });
+      return {};
+    }
+  }
+
+  /**
+   * Record a completed step. Writes are serialized and atomic (temp file + rename).
+   */
+  saveStep(key: string, chain: string, step: string, stepResult: CachedStepResult): Promise<void> {
+    return this.writeQueue.run(async () => {
+      const steps = await this.load(key);
+      const file: CacheFile = {
+        version: 1,
+        chain,
+        updated_at: new Date().toISOString(),
+        steps: { ...steps, [step]: stepResult }
+      };
+
+      await writeJsonFileAtomic(this.filePath(key), file);
+    });
+  }
+
+  /**
+   * Forget a run's partial results (after it completes)
+   */
+  async clear(key: string): Promise<void> {
+    await this.writeQueue.idle();
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
@@ -1,32 +1,236 @@
 // lib/ai/reasoning-chains.ts
 
+import { createHash } from 'crypto';
+import { z } from 'zod';
 import { AIService } from './ai-service';
-import { PromptTemplateManager } from './prompt-templates';
+import { ReasoningCache } from './reasoning-cache';
+import { digestAnalysisSchema } from './digest-analysis-schema';
+import { ReasoningChainError } from './errors';
+import { estimateContentTokens } from './content-chunker';
+import {
+  AIAnalysisRequest,
+  AIAnalysisResponse,
+  AIModelConfig,
+  ContentForAnalysis,
+  ModelCallEstimate,
+  TokenUsage
+} from '../../types/ai';
+import logger from '../logger';
 
-export interface ReasoningStep {
+export const MARKET_ANALYSIS_CHAIN = 'comprehensive_market_analysis';
+
+export interface ReasoningStep<T = unknown> {
   name: string;
   description: string;
-  inputSchema: any;
-  outputSchema: any;
+  instructions: string;          // what the model does in this step
+  outputSchema: z.ZodType<T>;    // the step's output is validated against this
+  includeContent?: boolean;      // put the source content in the prompt (default true)
   estimatedTokens: number;
-  dependencies?: string[];
+  dependencies?: string[];       // steps whose results this step builds on
 }
 
 export interface ReasoningChain {
   name: string;
   description: string;
-  steps: ReasoningStep[];
+  steps: ReasoningStep<any>[];   // the last step's output is the chain's result
   totalEstimatedCost: number;
 }
 
+export interface ReasoningChainInput {
+  content: ContentForAnalysis;
+  focusTopics?: string[];
+  instructions?: string;
+}
+
+export interface StepExecution {
+  step: string;
+  wave: number;
+  execution_time_ms: number;
+  tokens_used: number;
+  token_usage: TokenUsage;
+  provider: string;
+  model: string;
+  cached: boolean;               // restored from an earlier run that failed later on
+}
+
+export interface ReasoningChainResult<T = unknown> {
+  chain: string;
+  result: T;
+  step_results: Record<string, unknown>;
+  execution_log: StepExecution[];
+  waves: string[][];             // steps in the same wave ran in parallel
+  total_steps: number;
+  resumed_steps: string[];
+  total_time_ms: number;
+  total_tokens: number;
+}
+
+const score = z.number().min(0).max(1);
+const priority = z.enum(['high', 'medium', 'low']);
+const itemReferences = z.array(z.string()).describe('Item labels from the content, e.g. "Tweet 3", "Article 1"');
+
+// Chains every manager starts with
+const BUILT_IN_CHAINS: ReasoningChain[] = [
+  // Market Intelligence Chain
+  {
+    name: MARKET_ANALYSIS_CHAIN,
+    description: 'Multi-step market intelligence with cross-validation',
+    steps: [
+      {
+        name: 'initial_assessment',
+        description: 'Quick content categorization and priority scoring',
+        instructions: `Group the content into categories, score each item's priority for a market intelligence report, and list the market signals it contains.
+- Refer to items by their labels ("Tweet 3", "Message 2", "Article 1")
+- Mark an item high priority only if it is market-moving or genuinely new`,
+        outputSchema: z.object({
+          categories: z.array(z.object({
+            name: z.string().min(1),
+            items: itemReferences
+          })),
+          priorities: z.array(z.object({
+            item: z.string().min(1),
+            priority,
+            reason: z.string()
+          })),
+          signals: z.array(z.object({
+            signal: z.string().min(1),
+            strength: priority,
+            sources: itemReferences
+          }))
+        }),
+        estimatedTokens: 500
+      },
+      {
+        name: 'trend_extraction',
+        description: 'Identify and analyze emerging trends',
+        instructions: `Using the prioritized content and signals from the initial assessment, identify the trends that matter.
+- Prefer trends backed by several high-priority items or strong signals
+- Give each trend a confidence score between 0 and 1`,
+        outputSchema: z.object({
+          trends: z.array(z.object({
+            name: z.string().min(1),
+            direction: z.enum(['rising', 'stable', 'declining']),
+            timeframe: z.enum(['1W', '1M', '3M', '1Y']),
+            evidence: itemReferences,
+            confidence: score
+          }))
+        }),
+        estimatedTokens: 1000,
+        dependencies: ['initial_assessment']
+      },
+      {
+        name: 'risk_modeling',
+        description: 'Assess risks and opportunities',
+        instructions: `From the extracted trends, assess the risks and opportunities they point to and sketch the likely scenarios.
+- Every risk and opportunity must be traceable to a trend
+- Scenario probabilities should add up to roughly 1`,
+        outputSchema: z.object({
+          risks: z.array(z.object({
+            description: z.string().min(1),
+            likelihood: score,
+            impact: priority,
+            mitigation: z.string()
+          })),
+          opportunities: z.array(z.object({
+            description: z.string().min(1),
+            timeframe: z.enum(['1W', '1M', '3M', '1Y']),
+            confidence: score
+          })),
+          scenarios: z.array(z.object({
+            name: z.string().min(1),
+            probability: score,
+            description: z.string()
+          }))
+        }),
+        includeContent: false,
+        estimatedTokens: 800,
+        dependencies: ['trend_extraction']
+      },
+      {
+        name: 'synthesis',
+        description: 'Synthesize insights into actionable intelligence',
+        instructions: `Combine the assessment, trends and risk model into the final market intelligence report.
+- trending_topics come from the extracted trends; supporting_content cites the items behind them
+- key_insights and recommendations should reflect the risks and opportunities
+- confidence_score reflects how well the trends and risks are supported by the content`,
+        outputSchema: digestAnalysisSchema,
+        includeContent: false,
+        estimatedTokens: 1200,
+        dependencies: ['initial_assessment', 'trend_extraction', 'risk_modeling']
+      }
+    ],
+    totalEstimatedCost: 0.15 // USD estimate
+  },
+
+  // Content Quality Enhancement Chain
+  {
+    name: 'content_quality_enhancement',
+    description: 'Multi-pass content filtering and enhancement',
+    steps: [
+      {
+        name: 'quality_scoring',
+        description: 'Score content quality across multiple dimensions',
+        instructions: `Score every item on relevance, credibility and novelty (0-1 each) and an overall score, then list the items worth keeping (overall score of 0.6 or more).`,
+        outputSchema: z.object({
+          scores: z.array(z.object({
+            item: z.string().min(1),
+            relevance: score,
+            credibility: score,
+            novelty: score,
+            overall: score
+          })),
+          filtered_content: itemReferences
+        }),
+        estimatedTokens: 300
+      },
+      {
+        name: 'duplicate_detection',
+        description: 'Identify and handle duplicate/similar content',
+        instructions: `Among the items kept by quality scoring, find items that report the same story or make the same point. For each cluster of duplicates pick the single best item to keep, and list every kept item that is not a duplicate of a better one.`,
+        outputSchema: z.object({
+          unique_content: itemReferences,
+          duplicate_clusters: z.array(z.object({
+            topic: z.string().min(1),
+            items: itemReferences,
+            keep: z.string()
+          }))
+        }),
+        estimatedTokens: 400,
+        dependencies: ['quality_scoring']
+      },
+      {
+        name: 'content_enhancement',
+        description: 'Enhance and standardize content format',
+        instructions: `Take the unique items from duplicate detection (they already passed quality scoring) and give each a standardized headline, a one-sentence summary and topic tags.`,
+        outputSchema: z.object({
+          enhanced_content: z.array(z.object({
+            item: z.string().min(1),
+            headline: z.string().min(1),
+            summary: z.string().min(1),
+            tags: z.array(z.string())
+          })),
+          metadata: z.object({
+            kept: z.number().int().min(0),
+            removed_low_quality: z.number().int().min(0),
+            removed_duplicates: z.number().int().min(0)
+          })
+        }),
+        estimatedTokens: 600,
+        dependencies: ['duplicate_detection']
+      }
+    ],
+    totalEstimatedCost: 0.08
+  }
+];
+
 export class ReasoningChainManager {
   private aiService: AIService;
-  private promptManager: PromptTemplateManager;
+  private cache: ReasoningCache;
   private chains: Map<string, ReasoningChain> = new Map();
 
-  constructor(aiService: AIService) {
+  constructor(aiService: AIService, cache: ReasoningCache = new ReasoningCache()) {
     this.aiService = aiService;
-    this.promptManager = new PromptTemplateManager();
+    this.cache = cache;
     this.initializeChains();
   }
 
@@ -34,200 +238,298 @@ export class ReasoningChainManager {
    * Initialize reasoning chains
    */
   private initializeChains(): void {
-    // Market Intelligence Chain
-    this.registerChain({
-      name: 'comprehensive_market_analysis',
-      description: 'Multi-step market intelligence with cross-validation',
-      steps: [
-        {
-          name: 'initial_assessment',
-          description: 'Quick content categorization and priority scoring',
-          inputSchema: { content: 'array', timeframe: 'string' },
-          outputSchema: { categories: 'array', priorities: 'array', signals: 'array' },
-          estimatedTokens: 500
-        },
-        {
-          name: 'trend_extraction',
-          description: 'Identify and analyze emerging trends',
-          inputSchema: { prioritized_content: 'array', context: 'object' },
-          outputSchema: { trends: 'array', confidence_scores: 'array' },
-          estimatedTokens: 1000,
-          dependencies: ['initial_assessment']
-        },
-        {
-          name: 'risk_modeling',
-          description: 'Assess risks and opportunities',
-          inputSchema: { trends: 'array', market_context: 'object' },
-          outputSchema: { risks: 'array', opportunities: 'array', scenarios: 'array' },
-          estimatedTokens: 800,
-          dependencies: ['trend_extraction']
-        },
-        {
-          name: 'synthesis',
-          description: 'Synthesize insights into actionable intelligence',
-          inputSchema: { assessments: 'array', trends: 'array', risks: 'array' },
-          outputSchema: { final_report: 'object', recommendations: 'array' },
-          estimatedTokens: 1200,
-          dependencies: ['initial_assessment', 'trend_extraction', 'risk_modeling']
-        }
-      ],
-      totalEstimatedCost: 0.15 // USD estimate
-    });
-
-    // Content Quality Enhancement Chain
-    this.registerChain({
-      name: 'content_quality_enhancement',
-      description: 'Multi-pass content filtering and enhancement',
-      steps: [
-        {
-          name: 'quality_scoring',
-          description: 'Score content quality across multiple dimensions',
-          inputSchema: { content: 'array' },
-          outputSchema: { scores: 'array', filtered_content: 'array' },
-          estimatedTokens: 300
-        },
-        {
-          name: 'duplicate_detection',
-          description: 'Identify and handle duplicate/similar content',
-          inputSchema: { content: 'array', similarity_threshold: 'number' },
-          outputSchema: { unique_content: 'array', duplicate_clusters: 'array' },
-          estimatedTokens: 400,
-          dependencies: ['quality_scoring']
-        },
-        {
-          name: 'content_enhancement',
-          description: 'Enhance and standardize content format',
-          inputSchema: { filtered_content: 'array' },
-          outputSchema: { enhanced_content: 'array', metadata: 'object' },
-          estimatedTokens: 600,
-          dependencies: ['duplicate_detection']
-        }
-      ],
-      totalEstimatedCost: 0.08
-    });
+    BUILT_IN_CHAINS.forEach(chain => this.registerChain(chain));
   }
 
   /**
-   * Register a reasoning chain
+   * Register a reasoning chain. Throws if its dependencies are unknown or circular.
    */
   registerChain(chain: ReasoningChain): void {
+    this.planWaves(chain);
     this.chains.set(chain.name, chain);
   }
 
   /**
-   * Execute a reasoning chain
+   * Execute a reasoning chain. Steps run in dependency order, with independent
+   * steps of the same wave in parallel. Completed steps are cached, so running
+   * the same chain on the same content items after a failure (e.g. a retried
+   * pipeline run) resumes where it stopped.
    */
-  async executeChain(chainName: string, initialInput: any): Promise<any> {
+  async executeChain<T = unknown>(
+    chainName: string,
+    input: ReasoningChainInput,
+    options: { resume?: boolean } = {}
+  ): Promise<ReasoningChainResult<T>> {
     const chain = this.chains.get(chainName);
     if (!chain) {
       throw new Error(`Reasoning chain '${chainName}' not found`);
     }
 
-    const stepResults: Map<string, any> = new Map();
-    const executionLog: any[] = [];
+    const startTime = Date.now();
+    const waves = this.planWaves(chain);
+    const cacheKey = this.getCacheKey(chain, input);
+    const cached = options.resume === false ? {} : await this.cache.load(cacheKey);
 
-    console.log(`🔗 Executing reasoning chain: ${chain.name}`);
-    console.log(`   Steps: ${chain.steps.length}, Estimated cost: $${chain.totalEstimatedCost}`);
+    const stepResults: Map<string, unknown> = new Map();
+    const executionLog: StepExecution[] = [];
+    const resumedSteps: string[] = [];
 
-    for (const step of chain.steps) {
-      console.log(`   Executing step: ${step.name}`);
-      
-      // Check dependencies
-      if (step.dependencies) {
-        for (const dep of step.dependencies) {
-          if (!stepResults.has(dep)) {
-            throw new Error(`Step '${step.name}' depends on '${dep}' which hasn't been executed`);
-          }
+    logger.info(`Executing reasoning chain: ${chain.name}`, {
+      steps: chain.steps.length,
+      waves: waves.map(wave => wave.join(' + ')),
+      estimated_cost: chain.totalEstimatedCost,
+      resumable_steps: Object.keys(cached)
+    });
+
+    for (const [waveIndex, wave] of waves.entries()) {
+      const settled = await Promise.allSettled(wave.map(async stepName => {
+        const step = chain.steps.find(candidate => candidate.name === stepName)!;
+
+        // Reuse the result of an earlier, failed run if it still fits the schema
+        const previous = cached[stepName];
+        const restored = previous && step.outputSchema.safeParse(previous.output);
+        if (previous && restored?.success) {
+          stepResults.set(stepName, restored.data);
+          resumedSteps.push(stepName);
+          executionLog.push({
+            step: stepName,
+            wave: waveIndex,
+            execution_time_ms: previous.execution_time_ms,
+            tokens_used: previous.token_usage.total_tokens,
+            token_usage: previous.token_usage,
+            provider: previous.provider,
+            model: previous.model,
+            cached: true
+          });
+          logger.info(`Reasoning step restored from cache: ${stepName}`);
+          return;
         }
-      }
 
-      // Prepare input for this step
-      const stepInput = this.prepareStepInput(step, initialInput, stepResults);
-      
-      // Execute step
-      const startTime = Date.now();
-      const stepResult = await this.executeStep(step, stepInput);
-      const executionTime = Date.now() - startTime;
-
-      // Store result
-      stepResults.set(step.name, stepResult);
-      
-      executionLog.push({
-        step: step.name,
-        execution_time_ms: executionTime,
-        tokens_used: stepResult.token_usage?.total_tokens || 0,
-        success: true
-      });
-
-      console.log(`   ✅ Step completed: ${step.name} (${executionTime}ms)`);
+        const stepStart = Date.now();
+        const response = await this.aiService.generateObject({
+          prompt: this.buildStepPrompt(chain, step, input, stepResults),
+          schema: step.outputSchema,
+          schemaName: step.name
+        });
+        const executionTime = Date.now() - stepStart;
+
+        stepResults.set(stepName, response.object);
+        executionLog.push({
+          step: stepName,
+          wave: waveIndex,
+          execution_time_ms: executionTime,
+          tokens_used: response.usage.total_tokens,
+          token_usage: response.usage,
+          provider: response.provider,
+          model: response.model,
+          cached: false
+        });
+
+        await this.cache.saveStep(cacheKey, chain.name, stepName, {
+          output: response.object,
+          token_usage: response.usage,
+          provider: response.provider,
+          model: response.model,
+          execution_time_ms: executionTime,
+          completed_at: new Date().toISOString()
+        });
+
+        logger.info(`Reasoning step completed: ${stepName} (${executionTime}ms)`, { tokens: response.usage.total_tokens });
+      }));
+
+      const failures = settled
+        .map((outcome, index) => ({ outcome, step: wave[index] }))
+        .filter((entry): entry is { outcome: PromiseRejectedResult; step: string } => entry.outcome.status === 'rejected');
+
+      if (failures.length > 0) {
+        const error = new ReasoningChainError({
+          chain: chain.name,
+          failedSteps: failures.map(failure => failure.step),
+          completedSteps: Array.from(stepResults.keys()),
+          cause: failures[0].outcome.reason
+        });
+        logger.error(error.message, { resumable: error.completedSteps });
+        throw error;
+      }
     }
 
-    // Return final result
-    const finalStep = chain.steps[chain.steps.length - 1];
-    const finalResult = stepResults.get(finalStep.name);
+    await this.cache.clear(cacheKey);
 
+    const finalStep = chain.steps[chain.steps.length - 1];
     return {
-      result: finalResult,
+      chain: chain.name,
+      result: stepResults.get(finalStep.name) as T,
+      step_results: Object.fromEntries(stepResults),
       execution_log: executionLog,
+      waves,
       total_steps: chain.steps.length,
-      total_time_ms: executionLog.reduce((sum, log) => sum + log.execution_time_ms, 0),
+      resumed_steps: resumedSteps,
+      total_time_ms: Date.now() - startTime,
       total_tokens: executionLog.reduce((sum, log) => sum + log.tokens_used, 0)
     };
   }
 
   /**
-   * Prepare input for a specific step
+   * Run a chain whose final step produces a DigestAnalysis and report it like
+   * AIService.analyzeContent, so the pipeline can store and distribute it
+   */
+  async analyzeContent(chainName: string, request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    const run = await this.executeChain(chainName, {
+      content: request.content,
+      focusTopics: request.focusTopics,
+      instructions: request.instructions
+    });
+
+    const analysis = digestAnalysisSchema.safeParse(run.result);
+    if (!analysis.success) {
+      throw new Error(`Reasoning chain '${chainName}' does not produce a digest analysis`);
+    }
+
+    const steps = this.chains.get(chainName)!.steps;
+    const finalStep = run.execution_log.find(log => log.step === steps[steps.length - 1].name)!;
+    return {
+      analysis: analysis.data,
+      token_usage: run.execution_log.reduce<TokenUsage>((total, log) => ({
+        prompt_tokens: total.prompt_tokens + log.token_usage.prompt_tokens,
+        completion_tokens: total.completion_tokens + log.token_usage.completion_tokens,
+        total_tokens: total.total_tokens + log.token_usage.total_tokens
+      }), { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }),
+      model_info: {
+        provider: finalStep.provider,
+        model: finalStep.model
+      },
+      analysis_mode: 'reasoning_chain',
+      stage_usage: run.execution_log.map(log => ({
+        stage: 'chain_step',
+        step: log.step,
+        provider: log.provider,
+        model: log.model,
+        token_usage: log.token_usage,
+        ...(log.cached && { cached: true })
+      })),
+      processing_time_ms: run.total_time_ms
+    };
+  }
+
+  /**
+   * Estimated model calls for running a built-in chain on `content` with
+   * `config`, one per step (steps resumed from the cache cost less). Static,
+   * so a run can be budgeted before its AI service is chosen.
    */
-  private prepareStepInput(step: ReasoningStep, initialInput: any, previousResults: Map<string, any>): any {
-    const stepInput: any = { ...initialInput };
-
-    // Add results from dependency steps
-    if (step.dependencies) {
-      for (const dep of step.dependencies) {
-        const depResult = previousResults.get(dep);
-        if (depResult) {
-          stepInput[`${dep}_result`] = depResult.analysis || depResult;
+  static estimateCalls(chainName: string, content: ContentForAnalysis, config: AIModelConfig): ModelCallEstimate[] {
+    const chain = BUILT_IN_CHAINS.find(candidate => candidate.name === chainName);
+    if (!chain) {
+      throw new Error(`Reasoning chain '${chainName}' not found`);
+    }
+
+    const contentTokens = estimateContentTokens(content);
+    const stepOutputTokens = new Map(chain.steps.map(step => [step.name, step.estimatedTokens]));
+
+    return chain.steps.map(step => ({
+      prompt_tokens: AIService.PROMPT_OVERHEAD_TOKENS
+        + (step.includeContent === false ? 0 : contentTokens)
+        + (step.dependencies || []).reduce((sum, dependency) => sum + (stepOutputTokens.get(dependency) || 0), 0),
+      completion_tokens: AIService.maxCompletionTokens(config)
+    }));
+  }
+
+  /**
+   * Group steps into waves: each wave only depends on earlier waves
+   */
+  private planWaves(chain: ReasoningChain): string[][] {
+    const names = new Set(chain.steps.map(step => step.name));
+    if (names.size !== chain.steps.length) {
+      throw new Error(`Reasoning chain '${chain.name}' has duplicate step names`);
+    }
+
+    for (const step of chain.steps) {
+      for (const dependency of step.dependencies || []) {
+        if (!names.has(dependency)) {
+          throw new Error(`Step '${step.name}' in chain '${chain.name}' depends on unknown step '${dependency}'`);
         }
       }
     }
 
-    return stepInput;
+    const waves: string[][] = [];
+    const done = new Set<string>();
+    while (done.size < chain.steps.length) {
+      const wave = chain.steps
+        .filter(step => !done.has(step.name) && (step.dependencies || []).every(dependency => done.has(dependency)))
+        .map(step => step.name);
+
+      if (wave.length === 0) {
+        const remaining = chain.steps.filter(step => !done.has(step.name)).map(step => step.name);
+        throw new Error(`Reasoning chain '${chain.name}' has circular dependencies between: ${remaining.join(', ')}`);
+      }
+
+      wave.forEach(name => done.add(name));
+      waves.push(wave);
+    }
+
+    return waves;
   }
 
   /**
-   * Execute a single reasoning step
+   * Identifies a run: the chain's definition plus the content items (by id, in
+   * prompt order) and options. The timeframe is left out - it moves with every
+   * run, and a retried run over the same items should resume.
    */
-  private async executeStep(step: ReasoningStep, input: any): Promise<any> {
-    // Build specialized prompt for this step
-    const prompt = this.buildStepPrompt(step, input);
-    
-    // Execute with AI service
-    const response = await this.aiService.analyzeContent({
-      content: input,
-      analysisType: 'summary', // Could be more specific
-      instructions: prompt
-    });
-
-    return response;
+  private getCacheKey(chain: ReasoningChain, input: ReasoningChainInput): string {
+    const definition = chain.steps.map(step => [step.name, step.instructions, step.dependencies || []]);
+    const { content } = input;
+    const items = {
+      tweets: (content.tweets || []).map(tweet => tweet.id),
+      telegram: (content.telegram_messages || []).map(message => message.id),
+      rss: (content.rss_articles || []).map(article => article.id)
+    };
+    const hash = createHash('sha256')
+      .update(JSON.stringify({ definition, items, focusTopics: input.focusTopics, instructions: input.instructions }))
+      .digest('hex')
+      .slice(0, 16);
+    return `${chain.name}-${hash}`;
   }
 
   /**
    * Build prompt for a reasoning step
    */
-  private buildStepPrompt(step: ReasoningStep, input: any): string {
-    return `REASONING STEP: ${step.name}
+  private buildStepPrompt(chain: ReasoningChain, step: ReasoningStep<any>, input: ReasoningChainInput, previousResults: Map<string, unknown>): string {
+    const { content } = input;
+    const sections = [
+      `REASONING STEP: ${step.name} (${chain.name})`,
+      `OBJECTIVE: ${step.description}`,
+      '',
+      step.instructions
+    ];
+
+    if (input.focusTopics && input.focusTopics.length > 0) {
+      sections.push(`- Only consider content related to: ${input.focusTopics.join(', ')}`);
+    }
+    if (input.instructions) {
+      sections.push('', 'ADDITIONAL INSTRUCTIONS:', input.instructions);
+    }
 
-OBJECTIVE: ${step.description}
+    for (const dependency of step.dependencies || []) {
+      sections.push('', `RESULT OF STEP "${dependency}":`, JSON.stringify(previousResults.get(dependency), null, 2));
+    }
+
+    sections.push(
+      '',
+      'CONTENT OVERVIEW:',
+      `Timeframe: ${content.timeframe.from} to ${content.timeframe.to}`,
+      `Sources: ${content.metadata.total_sources} (Twitter: ${content.metadata.source_breakdown.twitter}, Telegram: ${content.metadata.source_breakdown.telegram}, RSS: ${content.metadata.source_breakdown.rss})`
+    );
 
-INPUT DATA: ${JSON.stringify(input, null, 2)}
+    if (step.includeContent !== false) {
+      sections.push('', 'CONTENT:', '', this.aiService.prepareContentForAnalysis(content));
+    }
 
-REQUIREMENTS:
-- Focus specifically on ${step.name}
-- Output must match the expected schema
-- Be concise but thorough in your analysis
-- Build upon any previous step results provided
+    sections.push(
+      '',
+      'OUTPUT FORMAT: Return ONLY a JSON object matching this JSON Schema - no markdown fences, no commentary:',
+      JSON.stringify(z.toJSONSchema(step.outputSchema))
+    );
 
-Please provide your analysis for this step.`;
+    return sections.join('\n');
   }
 
   /**
@@ -243,4 +545,4 @@ Please provide your analysis for this step.`;
   getChainDetails(chainName: string): ReasoningChain | null {
     return this.chains.get(chainName) || null;
   }
-}
\ No newline at end of file
+}
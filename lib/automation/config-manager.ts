@@ -1,6 +1,6 @@
 // lib/automation/config-manager.ts
 
-import { readFileSync, writeFileSync } from 'fs';
+import { readFileSync, writeFileSync, watchFile, unwatchFile } from 'fs';
 import { join } from 'path';
 import logger from '../logger';
 
@@ -16,11 +16,15 @@ export interface AutomationConfig {
       max_concurrent_runs: number;
       retry_attempts: number;
       retry_delay_ms: number;
+      catch_up?: 'skip' | 'once' | 'all'; // runs missed while the process was down (default once)
+      timeout_ms?: number; // hard limit per attempt (default 3x the estimated duration)
     };
     cache_cleanup: {
       enabled: boolean;
       cron_pattern: string;
       retention_days: number;
+      catch_up?: 'skip' | 'once' | 'all'; // default once
+      timeout_ms?: number;
     };
     health_check: {
       enabled: boolean;
@@ -34,16 +38,20 @@ export interface AutomationConfig {
       enabled: boolean;
       accounts: string[];
       api_rate_limit_buffer: number;
+      request_spacing_ms?: number; // ms between starting two account fetches (default 0)
+      max_concurrency?: number; // accounts fetched at once (default 1)
     };
     telegram: {
       enabled: boolean;
       channels: string[];
-      scraping_delay_ms: number;
+      scraping_delay_ms: number; // ms between starting two channels
+      max_concurrency?: number; // channels scraped at once (default 2)
     };
     rss: {
       enabled: boolean;
       feeds: string[];
       timeout_ms: number;
+      max_concurrency?: number; // feeds fetched at once (default 5)
     };
   };
 
@@ -109,6 +117,8 @@ export class ConfigManager {
   private config!: AutomationConfig;
   private configPath: string;
   private watchers: ((config: AutomationConfig) => void)[] = [];
+  private isWatchingFile = false;
+  private lastSavedContent = '';
 
   constructor(configPath?: string) {
     this.configPath = configPath || join(process.cwd(), 'config', 'automation.json');
@@ -123,6 +133,7 @@ export class ConfigManager {
       const configData = readFileSync(this.configPath, 'utf-8');
       this.config = JSON.parse(configData);
       this.validateConfig();
+      this.lastSavedContent = configData;
       logger.info(`Configuration loaded from ${this.configPath}`);
     } catch (error) {
       logger.warn(`Failed to load config from ${this.configPath}, using defaults`);
@@ -147,12 +158,15 @@ export class ConfigManager {
           timezone: 'UTC',
           max_concurrent_runs: 1,
           retry_attempts: 3,
-          retry_delay_ms: 60000
+          retry_delay_ms: 60000,
+          catch_up: 'once', // one digest for everything missed while down
+          timeout_ms: 30 * 60 * 1000 // give up on a hung run after 30 minutes
         },
         cache_cleanup: {
           enabled: true,
           cron_pattern: '0 2 * * *', // 2 AM daily
-          retention_days: 7
+          retention_days: 7,
+          catch_up: 'once'
         },
         health_check: {
           enabled: true,
@@ -164,7 +178,8 @@ export class ConfigManager {
         twitter: {
           enabled: !!process.env.X_API_KEY,
           accounts: ['openai', 'anthropicai'],
-          api_rate_limit_buffer: 5000
+          api_rate_limit_buffer: 5000,
+          request_spacing_ms: 1000
         },
         telegram: {
           enabled: true,
@@ -306,6 +321,7 @@ export class ConfigManager {
     try {
       const configData = JSON.stringify(this.config, null, 2);
       writeFileSync(this.configPath, configData, 'utf-8');
+      this.lastSavedContent = configData;
       logger.info(`Configuration saved to ${this.configPath}`);
     } catch (error) {
       logger.error('Failed to save configuration', error);
@@ -313,10 +329,71 @@ export class ConfigManager {
   }
 
   /**
-   * Watch for configuration changes
+   * Watch for configuration changes (in-process updates and edits to the file)
+   * Returns a function that removes the watcher again.
    */
-  watch(callback: (config: AutomationConfig) => void): void {
+  watch(callback: (config: AutomationConfig) => void): () => void {
     this.watchers.push(callback);
+    this.startFileWatcher();
+
+    return () => {
+      this.watchers = this.watchers.filter(watcher => watcher !== callback);
+      if (this.watchers.length === 0) {
+        this.stopFileWatcher();
+      }
+    };
+  }
+
+  /**
+   * Poll the config file so edits made outside this process reach the watchers
+   */
+  private startFileWatcher(): void {
+    if (this.isWatchingFile) return;
+
+    const statWatcher = watchFile(this.configPath, { interval: 2000 }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        this.reloadFromFile();
+      }
+    });
+
+    // Don't keep the process alive just for the config watcher
+    statWatcher.unref();
+    this.isWatchingFile = true;
+  }
+
+  private stopFileWatcher(): void {
+    if (!this.isWatchingFile) return;
+
+    unwatchFile(this.configPath);
+    this.isWatchingFile = false;
+  }
+
+  /**
+   * Reload configuration after the file changed on disk
+   */
+  private reloadFromFile(): void {
+    try {
+      const configData = readFileSync(this.configPath, 'utf-8');
+
+      // Skip our own writes - watchers were already notified by updateConfig
+      if (configData === this.lastSavedContent) return;
+
+      const previousConfig = this.config;
+      this.config = JSON.parse(configData);
+
+      try {
+        this.validateConfig();
+      } catch (error) {
+        this.config = previousConfig;
+        throw error;
+      }
+
+      this.lastSavedContent = configData;
+      logger.info(`Configuration reloaded from ${this.configPath}`);
+      this.notifyWatchers();
+    } catch (error: any) {
+      logger.warn(`Ignoring invalid configuration change in ${this.configPath}`, { error: error.message });
+    }
   }
 
   /**
@@ -0,0 +1,172 @@
+// lib/automation/control-server.ts
+
+import { timingSafeEqual } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { TaskScheduler, TriggerFailureReason } from './scheduler';
+import logger from '../logger';
+
+export interface ControlServerOptions {
+  port: number;
+  host?: string;  // default 127.0.0.1
+  token?: string; // required as `Authorization: Bearer <token>` when set
+}
+
+const TRIGGER_FAILURES: Record<TriggerFailureReason, { error: string; status: number }> = {
+  not_found: { error: 'Task not found', status: 404 },
+  already_running: { error: 'Task is already running', status: 409 }
+};
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+/**
+ * Small HTTP API on the daemon process, so operators can run or cancel
+ * scheduled tasks without editing cron patterns:
+ *
+ *   GET  /tasks                  schedules, running runs and last fire times
+ *   POST /tasks/:name/trigger    run a task now
+ *   POST /tasks/:name/cancel     cancel a task's current runs
+ */
+export class ControlServer {
+  private scheduler: TaskScheduler;
+  private options: ControlServerOptions;
+  private server?: http.Server;
+
+  constructor(scheduler: TaskScheduler, options: ControlServerOptions) {
+    this.scheduler = scheduler;
+    this.options = options;
+  }
+
+  /**
+   * Start listening. Refuses to listen beyond loopback without a token.
+   */
+  async start(): Promise<void> {
+    const host = this.options.host || '127.0.0.1';
+    if (!this.options.token && !LOOPBACK_HOSTS.includes(host)) {
+      throw new Error(`Control server on ${host} needs a token`);
+    }
+
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        logger.error('Control API error', { url: request.url, error: error.message });
+        this.send(response, 500, { error: error.message });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    logger.info(`Control API listening on http://${host}:${this.options.port}`);
+  }
+
+  /**
+   * Stop accepting requests
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    logger.info('Control API stopped');
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (this.options.token && !this.isAuthorized(request.headers.authorization)) {
+      this.send(response, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+    const [resource, name, action] = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (resource !== 'tasks') {
+      this.send(response, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!name && request.method === 'GET') {
+      this.send(response, 200, { tasks: await this.listTasks() });
+      return;
+    }
+
+    if (name && request.method === 'POST' && action === 'trigger') {
+      const result = this.scheduler.triggerNow(name);
+      if (!result.ok) {
+        const { error, status } = TRIGGER_FAILURES[result.reason];
+        this.send(response, status, { error });
+        return;
+      }
+      this.send(response, 202, { execution: result.execution });
+      return;
+    }
+
+    if (name && request.method === 'POST' && action === 'cancel') {
+      const result = this.scheduler.cancelRun(name);
+      if (!result.ok) {
+        this.send(response, 409, { error: 'Task is not running' });
+        return;
+      }
+      this.send(response, 202, { executions: result.executions });
+      return;
+    }
+
+    this.send(response, 404, { error: 'Not found' });
+  }
+
+  /**
+   * Check the bearer token in constant time
+   */
+  private isAuthorized(header: string | undefined): boolean {
+    const expected = Buffer.from(`Bearer ${this.options.token}`);
+    const actual = Buffer.from(header || '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private async listTasks() {
+    const running = this.scheduler.getRunningTasks();
+
+    return Promise.all(this.scheduler.getSchedules().map(async schedule => {
+      const lastFire = await this.scheduler.getLastFire(schedule.name).catch(() => undefined);
+      return {
+        ...schedule,
+        scheduled: this.scheduler.isScheduled(schedule.name),
+        last_fired_at: lastFire?.toISOString() ?? null,
+        running: running.filter(execution => execution.taskName === schedule.name)
+      };
+    }));
+  }
+
+  private send(response: ServerResponse, status: number, body: unknown): void {
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
+
+/**
+ * Control server settings from AUTOMATION_CONTROL_PORT / _HOST / _TOKEN,
+ * or undefined when no port is set (the API is off). Throws on an invalid port.
+ */
+export function controlServerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ControlServerOptions | undefined {
+  if (!env.AUTOMATION_CONTROL_PORT) return undefined;
+
+  const port = Number(env.AUTOMATION_CONTROL_PORT);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid AUTOMATION_CONTROL_PORT "${env.AUTOMATION_CONTROL_PORT}": must be a port number between 1 and 65535`);
+  }
+
+  return {
+    port,
+    host: env.AUTOMATION_CONTROL_HOST || undefined,
+    token: env.AUTOMATION_CONTROL_TOKEN || undefined
+  };
+}
@@ -0,0 +1,237 @@
+// lib/automation/daemon.ts
+
+import { AutomationConfig, ConfigManager, configManager } from './config-manager';
+import {
+  CACHE_CLEANUP_TASK,
+  DIGEST_PIPELINE_TASK,
+  HEALTH_CHECK_TASK,
+  ScheduledTask,
+  TaskSchedule,
+  TaskScheduler,
+  cacheCleanupScheduleFromConfig,
+  digestScheduleFromConfig,
+  healthCheckScheduleFromConfig,
+  taskScheduler
+} from './scheduler';
+import { DigestPipeline, DigestPipelineConfig } from './digest-pipeline';
+import { healthMonitor } from './health-monitor';
+import { ControlServer, ControlServerOptions } from './control-server';
+import { AIModelManager } from '../agent/ai-model-manager';
+import { TwitterCache } from '../twitter/twitter-cache';
+import { TelegramCache } from '../telegram/telegram-cache';
+import { RSSCache } from '../rss/rss-cache';
+import logger from '../logger';
+
+/**
+ * Pipeline settings for scheduled digests, from the automation config
+ */
+export function scheduledPipelineConfig(
+  config: AutomationConfig,
+  overrides: Partial<DigestPipelineConfig> = {}
+): DigestPipelineConfig {
+  return {
+    enableTwitter: config.data_sources.twitter.enabled,
+    enableTelegram: config.data_sources.telegram.enabled,
+    enableRSS: config.data_sources.rss.enabled,
+    priority: 'important', // model and budget tier from ai.model_configs
+    analysisType: 'digest',
+    postToSlack: false,
+    minQualityThreshold: config.quality.min_quality_threshold,
+    maxContentAge: config.quality.max_content_age_hours,
+    ...overrides
+  };
+}
+
+/**
+ * Runs a fresh pipeline per scheduled run, so each run uses the current
+ * config, and reports the outcome to the health monitor
+ */
+class ScheduledDigestTask implements ScheduledTask {
+  private config: ConfigManager;
+  private overrides: Partial<DigestPipelineConfig>;
+
+  constructor(config: ConfigManager, overrides: Partial<DigestPipelineConfig>) {
+    this.config = config;
+    this.overrides = overrides;
+  }
+
+  async execute(signal?: AbortSignal): Promise<void> {
+    const pipeline = new DigestPipeline(scheduledPipelineConfig(this.config.getConfig(), this.overrides));
+    const startTime = Date.now();
+
+    try {
+      await pipeline.execute(signal);
+      healthMonitor.recordPipelineExecution(true, Date.now() - startTime);
+    } catch (error) {
+      healthMonitor.recordPipelineExecution(false, Date.now() - startTime);
+      throw error;
+    } finally {
+      pipeline.dispose();
+    }
+  }
+
+  getName(): string {
+    return DIGEST_PIPELINE_TASK;
+  }
+
+  getEstimatedDuration(): number {
+    return 5 * 60 * 1000;
+  }
+}
+
+/**
+ * Deletes cached tweets, Telegram messages and RSS articles older than the
+ * configured retention
+ */
+class CacheCleanupTask implements ScheduledTask {
+  private config: ConfigManager;
+  private caches = [new TwitterCache(), new TelegramCache(), new RSSCache()];
+
+  constructor(config: ConfigManager) {
+    this.config = config;
+  }
+
+  async execute(): Promise<void> {
+    const retentionDays = this.config.getConfig().scheduling.cache_cleanup.retention_days;
+    logger.info(`Cleaning cache entries older than ${retentionDays} days`);
+
+    const results = await Promise.allSettled(
+      this.caches.map(cache => cache.cleanOldCache(retentionDays))
+    );
+    const failures = results.filter(result => result.status === 'rejected');
+    if (failures.length > 0) {
+      throw new Error(`${failures.length} of ${results.length} cache cleanups failed: ${(failures[0] as PromiseRejectedResult).reason?.message}`);
+    }
+  }
+
+  getName(): string {
+    return CACHE_CLEANUP_TASK;
+  }
+
+  getEstimatedDuration(): number {
+    return 30 * 1000;
+  }
+}
+
+/**
+ * Refreshes the health monitor's metrics and logs anything unhealthy
+ */
+class HealthCheckTask implements ScheduledTask {
+  async execute(): Promise<void> {
+    const health = await healthMonitor.performHealthCheck();
+    if (health.overall_status !== 'healthy') {
+      logger.warn(`System health: ${health.overall_status}`, {
+        metrics: health.metrics
+          .filter(metric => metric.status !== 'healthy')
+          .map(metric => `${metric.name}=${metric.value}`)
+      });
+    }
+  }
+
+  getName(): string {
+    return HEALTH_CHECK_TASK;
+  }
+
+  getEstimatedDuration(): number {
+    return 1000;
+  }
+}
+
+export interface AutomationDaemonOptions {
+  pipeline?: Partial<DigestPipelineConfig>; // overrides for scheduled digest runs
+  shutdownTimeoutMs?: number; // how long stop() waits for running tasks
+  control?: ControlServerOptions; // serve the control API (trigger/cancel runs)
+}
+
+/**
+ * Long-running process that schedules the digest pipeline, cache cleanup
+ * and health checks from automation.json and follows changes to it and to
+ * the digest model chosen from chat.
+ */
+export class AutomationDaemon {
+  private scheduler: TaskScheduler;
+  private config: ConfigManager;
+  private options: AutomationDaemonOptions;
+  private controlServer?: ControlServer;
+  private unfollowConfig: (() => void)[] = [];
+  private stopping?: Promise<boolean>;
+
+  constructor(
+    options: AutomationDaemonOptions = {},
+    scheduler: TaskScheduler = taskScheduler,
+    config: ConfigManager = configManager
+  ) {
+    this.options = options;
+    this.scheduler = scheduler;
+    this.config = config;
+  }
+
+  /**
+   * Start the control API (if configured) and register the scheduled tasks
+   */
+  async start(): Promise<void> {
+    if (this.options.control) {
+      this.controlServer = new ControlServer(this.scheduler, this.options.control);
+      await this.controlServer.start();
+    }
+
+    const tasks: [ScheduledTask, (config: AutomationConfig) => TaskSchedule][] = [
+      [new ScheduledDigestTask(this.config, this.options.pipeline || {}), digestScheduleFromConfig],
+      [new CacheCleanupTask(this.config), cacheCleanupScheduleFromConfig],
+      [new HealthCheckTask(), healthCheckScheduleFromConfig]
+    ];
+
+    // The digest model and settings chosen from chat are persisted by the app
+    // process; load them before any run and follow later changes
+    const aiModels = new AIModelManager();
+    await aiModels.ready();
+    this.unfollowConfig.push(aiModels.followPersistedConfig());
+
+    // Before catch-up can start new runs: runs a previous process left as running never finish
+    await this.scheduler.recoverInterruptedRuns();
+
+    // The scheduled health check replaces the monitor's fixed 5 minute timer
+    healthMonitor.stopPeriodicHealthCheck();
+
+    const current = this.config.getConfig();
+    for (const [task, select] of tasks) {
+      const name = task.getName();
+      this.scheduler.scheduleTask({ ...select(current), name }, task);
+      this.unfollowConfig.push(this.scheduler.followConfig(name, select));
+    }
+
+    logger.info('Automation daemon started', {
+      tasks: tasks.map(([task]) => ({
+        name: task.getName(),
+        schedule: this.scheduler.getSchedule(task.getName())?.cronPattern,
+        enabled: this.scheduler.isScheduled(task.getName())
+      }))
+    });
+  }
+
+  /**
+   * Stop scheduling new runs and wait for running ones to finish. Returns
+   * false if some were still running when the timeout ran out.
+   */
+  stop(): Promise<boolean> {
+    if (!this.stopping) {
+      this.stopping = this.shutdown();
+    }
+    return this.stopping;
+  }
+
+  private async shutdown(): Promise<boolean> {
+    logger.info('Stopping automation daemon');
+
+    // No manual runs once shutdown has begun
+    await this.controlServer?.stop();
+
+    this.unfollowConfig.forEach(unfollow => unfollow());
+    this.unfollowConfig = [];
+    this.scheduler.stopAll();
+
+    const drained = await this.scheduler.drain(this.options.shutdownTimeoutMs);
+    logger.info(drained ? 'Automation daemon stopped' : 'Automation daemon stopped with tasks still running');
+    return drained;
+  }
+}
@@ -1,5 +1,6 @@
 // lib/automation/digest-pipeline.ts
 
+import { EventEmitter } from 'events';
 import { ScheduledTask } from './scheduler';
 import { TwitterClient } from '../twitter/twitter-client';
 import { TwitterCache } from '../twitter/twitter-cache';
@@ -8,11 +9,27 @@ import { TelegramCache } from '../telegram/telegram-cache';
 import { RSSProcessor } from '../rss/rss-processor';
 import { RSSCache } from '../rss/rss-cache';
 import { AIService } from '../ai/ai-service';
+import {
+  ANALYSIS_PRIORITIES,
+  DIGEST_ANALYSIS_PROFILE,
+  modelProfiles,
+  priorityProfileName,
+  registerPriorityProfiles
+} from '../ai/model-profiles';
+import { MARKET_ANALYSIS_CHAIN, ReasoningChainManager } from '../ai/reasoning-chains';
+import { CostOptimizer } from '../ai/cost-optimizer';
+import { BudgetExceededError } from '../ai/errors';
+import { AIAnalysisRequest, AIModelConfig, AnalysisMode, AnalysisPriority } from '../../types/ai';
 import { DigestStorage } from '../digest/digest-storage';
 import { SlackClient } from '../slack/slack-client';
 import { ProgressTracker } from '../../utils/progress';
 import { DigestDistributor, DistributionConfig } from '../social/digest-distributor';
 import { SlackNotifier } from '../slack/slack-notifier';
+import { configManager, AutomationConfig } from './config-manager';
+import { sourceRegistry } from '../sources/source-registry';
+import { CollectionReport, SourceCollector } from '../sources/source-collector';
+import { TopicFilter } from '../digest/topic-filter';
+import { BudgetAllocation, ContentBudget, ContentBudgetAllocator } from '../digest/content-budget';
 
 import logger from '../logger';
 
@@ -23,9 +40,16 @@ export interface DigestPipelineConfig {
   enableRSS: boolean;
   
   // Processing settings
-  aiModel: 'openai' | 'anthropic';
+  aiModel?: 'openai' | 'anthropic'; // explicit provider; otherwise the model profile decides
   aiModelName?: string;
-  analysisType: 'digest' | 'summary' | 'market_intelligence';
+  modelProfile?: string; // named model profile (default: digest-analysis, the model switched from chat)
+  priority?: AnalysisPriority; // budget and model tier for the run (default: important)
+  analysisType: 'digest' | 'summary' | 'market_intelligence' | typeof MARKET_ANALYSIS_CHAIN;
+  promptTemplate?: string; // prompt template name (e.g. from config/prompt-templates/); defaults to analysisType's
+  focusTopics?: string[]; // scope the digest to these subjects (e.g. "AI", "crypto")
+  maxSources?: number; // cap on items sent to the AI (overrides contentBudget.maxItems)
+  contentBudget?: Partial<ContentBudget>; // item/token limits and per-platform quotas (none by default)
+  analysisMode?: AnalysisMode; // default 'auto': map_reduce once content is too large for one prompt
   
   // Distribution settings
   postToSlack: boolean;
@@ -36,63 +60,101 @@ export interface DigestPipelineConfig {
   maxContentAge: number; // hours
 }
 
-export class DigestPipeline implements ScheduledTask {
+export interface PipelineProgressEvent {
+  step: string;
+  current: number;
+  total: number;
+  timestamp: string;
+}
+
+export interface DigestPipelineResult {
+  digestId?: string; // missing when there was no content to analyze
+  title?: string;
+  twitterUrl?: string;
+  sourcesCount: number;
+  processingTimeMs: number;
+  message: string;
+  collection?: CollectionReport; // per-source timings and failures
+}
+
+export interface PipelineFailureEvent {
+  error: string;
+  step: string;
+  timestamp: string;
+}
+
+interface BudgetedAnalysis {
+  priority: AnalysisPriority;
+  aiService: AIService;
+  estimatedCost: number;
+}
+
+const PIPELINE_STEPS = 5;
+
+/**
+ * Runs collection → analysis → distribution.
+ * Emits 'progress' (PipelineProgressEvent), 'completed' (DigestPipelineResult)
+ * and 'failed' (PipelineFailureEvent) so callers can follow a run.
+ */
+export class DigestPipeline extends EventEmitter implements ScheduledTask {
   private config: DigestPipelineConfig;
-  private twitterClient?: TwitterClient;
-  private twitterCache?: TwitterCache;
-  private telegramScraper?: TelegramScraper;
-  private telegramCache?: TelegramCache;
-  private rssProcessor?: RSSProcessor;
-  private rssCache?: RSSCache;
-  private aiService: AIService;
+  private sourceCollector: SourceCollector;
   private digestStorage: DigestStorage;
   private slackClient?: SlackClient;
   private digestDistributor: DigestDistributor;
   private slackNotifier: SlackNotifier;
+  private dataSources: AutomationConfig['data_sources'];
+  private configuredSources: AutomationConfig['data_sources']; // as last seen in the automation config
+  private sourceImport: Promise<void> = Promise.resolve();
+  private unwatchConfig: () => void;
+  private lastResult?: DigestPipelineResult;
+  private topicFilter: TopicFilter;
   
   constructor(config: DigestPipelineConfig) {
+    super();
     this.config = config;
+    this.topicFilter = new TopicFilter(config.focusTopics || []);
+
+    // Source settings follow the automation config live; edits to its source
+    // lists are imported into the source registry, which decides what runs
+    this.dataSources = configManager.getConfig().data_sources;
+    this.configuredSources = this.dataSources;
+    registerPriorityProfiles(configManager.getConfig().ai.model_configs);
+    this.unwatchConfig = configManager.watch(updatedConfig => {
+      const previous = this.configuredSources;
+      this.configuredSources = updatedConfig.data_sources;
+      this.sourceImport = this.sourceImport.then(() =>
+        sourceRegistry.importAutomationConfigEdits(previous, updatedConfig.data_sources)
+      );
+      this.dataSources = updatedConfig.data_sources;
+      registerPriorityProfiles(updatedConfig.ai.model_configs);
+      logger.info('Digest pipeline data sources updated from configuration');
+    });
     
     // Initialize components based on configuration
-    if (config.enableTwitter) {
-      this.twitterClient = new TwitterClient();
-      this.twitterCache = new TwitterCache();
-    }
-    
-    if (config.enableTelegram) {
-      this.telegramScraper = new TelegramScraper();
-      this.telegramCache = new TelegramCache();
-    }
-    
-    if (config.enableRSS) {
-      this.rssProcessor = new RSSProcessor();
-      this.rssCache = new RSSCache();
-    }
+    this.sourceCollector = new SourceCollector({
+      ...(config.enableTwitter && { twitter: { client: new TwitterClient(), cache: new TwitterCache() } }),
+      ...(config.enableTelegram && { telegram: { scraper: new TelegramScraper(), cache: new TelegramCache() } }),
+      ...(config.enableRSS && { rss: { processor: new RSSProcessor(), cache: new RSSCache() } })
+    });
     
-    this.aiService = AIService.getInstance();
     this.digestStorage = new DigestStorage();
     
     if (config.postToSlack) {
       this.slackClient = new SlackClient();
     }
-    
-    // Configure AI model
-    if (config.aiModel === 'openai') {
-      this.aiService.useOpenAI(config.aiModelName);
-    } else {
-      this.aiService.useClaude(config.aiModelName);
-    }
 
     this.digestDistributor = new DigestDistributor();
     this.slackNotifier = new SlackNotifier();
   }
 
   /**
-   * Execute the complete digest pipeline
+   * Execute the complete digest pipeline. Aborting `signal` stops collection,
+   * AI calls and distribution; the run then fails with the abort reason.
    */
-  async execute(): Promise<void> {
+  async execute(signal?: AbortSignal): Promise<void> {
     const progress = new ProgressTracker({
-      total: 8,
+      total: PIPELINE_STEPS,
       label: 'Digest Pipeline'
     });
 
@@ -101,55 +163,118 @@ export class DigestPipeline implements ScheduledTask {
 
     try {
       logger.info('Starting digest pipeline execution');
-      currentStep = 'data collection';
-      // Step 1: Collect Twitter data
-      progress.update(1, { step: 'Twitter Collection' });
-      const tweets = await this.collectTwitterData();
-      logger.info(`Collected ${tweets.length} tweets`);
-
-      // Step 2: Collect Telegram data  
-      progress.update(2, { step: 'Telegram Collection' });
-      const telegramMessages = await this.collectTelegramData();
-      logger.info(`Collected ${telegramMessages.length} Telegram messages`);
-
-      // Step 3: Collect RSS data
-      progress.update(3, { step: 'RSS Collection' });
-      const rssArticles = await this.collectRSSData();
-      logger.info(`Collected ${rssArticles.length} RSS articles`);
+      await this.refreshSourcesFromRegistry();
 
-      // Step 4: Prepare content for AI analysis
-      progress.update(4, { step: 'Content Preparation' });
-      const analysisContent = this.prepareContentForAnalysis(tweets, telegramMessages, rssArticles);
+      currentStep = 'data collection';
+      // Step 1: Collect Twitter, Telegram and RSS sources in parallel
+      this.reportProgress(progress, 1, 'Source Collection');
+      const collection = await this.sourceCollector.collect(this.dataSources, signal);
+      const tweets = this.filterByQuality(collection.tweets, 'tweet');
+      const telegramMessages = this.filterByQuality(collection.telegramMessages, 'telegram');
+      const rssArticles = this.filterByQuality(collection.rssArticles, 'rss');
+      logger.info(`Collected ${tweets.length} tweets, ${telegramMessages.length} Telegram messages and ${rssArticles.length} RSS articles`);
+
+      // Step 2: Prepare content for AI analysis
+      signal?.throwIfAborted();
+      this.reportProgress(progress, 2, 'Content Preparation');
+      const allocation = this.allocateContentBudget(
+        this.applyTopicFocus(tweets, 'tweet'),
+        this.applyTopicFocus(telegramMessages, 'telegram'),
+        this.applyTopicFocus(rssArticles, 'rss')
+      );
+      const analysisContent = this.prepareContentForAnalysis(
+        allocation.tweets,
+        allocation.telegramMessages,
+        allocation.rssArticles
+      );
 
+      const collected = tweets.length + telegramMessages.length + rssArticles.length;
       if (analysisContent.metadata.total_sources === 0) {
-        logger.warn('No content collected, skipping AI analysis');
+        const message = this.topicFilter.isActive() && collected > 0
+          ? `None of the ${collected} collected items matched the focus topics (${this.topicFilter.getTopics().join(', ')}), so no digest was generated`
+          : 'No content was collected, so no digest was generated';
+
+        logger.warn('No content to analyze, skipping AI analysis', { collected, focusTopics: this.topicFilter.getTopics() });
         progress.complete('Pipeline completed with no content');
+        this.finish({
+          sourcesCount: 0,
+          processingTimeMs: Date.now() - startTime,
+          message,
+          collection: collection.report
+        });
         return;
       }
 
       currentStep = 'ai analysis';
-      // Step 5: AI Analysis
-      progress.update(5, { step: 'AI Analysis' });
-      const aiResponse = await this.aiService.analyzeContent({
+      // Step 3: AI Analysis
+      signal?.throwIfAborted();
+      this.reportProgress(progress, 3, 'AI Analysis');
+      const analysisRequest: AIAnalysisRequest = {
         content: analysisContent,
-        analysisType: this.config.analysisType as any
-      });
+        analysisType: this.config.analysisType as any,
+        template: this.config.promptTemplate,
+        focusTopics: this.topicFilter.getTopics(),
+        analysisMode: this.config.analysisMode
+      };
+      const costOptimizer = CostOptimizer.fromAutomationConfig(configManager.getConfig().ai);
+      let budgeted: BudgetedAnalysis;
+      try {
+        budgeted = await this.selectModelWithinBudget(costOptimizer, analysisRequest);
+      } catch (error) {
+        if (!(error instanceof BudgetExceededError)) throw error;
+
+        // A refusal isn't a failure - retrying won't help until the budget frees up
+        logger.warn('AI budget refused the digest run', {
+          reason: error.reason,
+          priority: error.priority,
+          estimated_cost: error.estimatedCost,
+          available_budget: error.availableBudget,
+          daily_spend: error.dailySpend
+        });
+        progress.complete('Pipeline stopped by the AI budget');
+        this.finish({
+          sourcesCount: collected,
+          processingTimeMs: Date.now() - startTime,
+          message: `${error.message}, so no digest was generated`,
+          collection: collection.report
+        });
+        return;
+      }
 
-      // Step 6: Store and distribute results
-      progress.update(6, { step: 'Storage & Distribution' });
+      // Each model call is recorded as it returns, so calls of failed, aborted
+      // and fallen-back attempts count against the budget too
+      const callCosts: Promise<number>[] = [];
+      const trackedService = budgeted.aiService.withUsageListener(call => {
+        callCosts.push(costOptimizer.recordActualCost(call.token_usage, call.model, {
+          provider: call.provider,
+          context: `digest:${call.operation}`
+        }));
+      });
+      const aiService = signal ? trackedService.withAbortSignal(signal) : trackedService;
+      // The market analysis chain builds the digest in several typed steps (resumable after a failure)
+      const analysis = this.config.analysisType === MARKET_ANALYSIS_CHAIN
+        ? new ReasoningChainManager(aiService).analyzeContent(MARKET_ANALYSIS_CHAIN, analysisRequest)
+        : aiService.analyzeContent(analysisRequest);
+      const aiResponse = await analysis.finally(() => Promise.all(callCosts));
+      const actualCost = (await Promise.all(callCosts)).reduce((sum, cost) => sum + cost, 0);
+
+      // Step 4: Store and distribute results
+      signal?.throwIfAborted();
+      this.reportProgress(progress, 4, 'Storage & Distribution');
       const digestId = await this.storeDigest(aiResponse, analysisContent);
       
       if (this.config.postToSlack && this.slackClient) {
-        await this.distributeToSlack(aiResponse, digestId);
+        await this.distributeToSlack(aiResponse, digestId, signal);
       }
 
       currentStep='Social Media Distribution'
-      // Step 7: Distribute to social media
-      progress.update(7, { step: 'Social Media Distribution' });
+      // Step 5: Distribute to social media
+      this.reportProgress(progress, 5, 'Social Media Distribution');
       
       const distributionResults = await this.digestDistributor.distributeDigest(
         { ...aiResponse.analysis, id: digestId },
-        { enableTwitter: true, tweetFormat: 'thread' }
+        { enableTwitter: true, tweetFormat: 'thread' },
+        signal
       );
 
       // Get Twitter URL if successful
@@ -175,16 +300,40 @@ export class DigestPipeline implements ScheduledTask {
       );
 
       progress.complete(`Pipeline completed successfully (Digest: ${digestId})`);
+      this.finish({
+        digestId,
+        title: aiResponse.analysis.title,
+        twitterUrl,
+        sourcesCount: analysisContent.metadata.total_sources,
+        processingTimeMs: Date.now() - startTime,
+        message: 'Digest generated successfully',
+        collection: collection.report
+      });
       
       logger.info('Digest pipeline completed successfully', {
         digest_id: digestId,
         content_sources: analysisContent.metadata.total_sources,
+        collection_time_ms: collection.report.durationMs,
+        failed_sources: collection.report.failed,
+        ai_model: `${aiResponse.model_info.provider}:${aiResponse.model_info.model}`,
+        ai_fallback_attempts: aiResponse.model_info.fallback_attempts?.length || 0,
+        ai_analysis_mode: aiResponse.analysis_mode,
+        ai_template: aiResponse.template,
         ai_tokens_used: aiResponse.token_usage.total_tokens,
+        ai_stage_tokens: aiResponse.stage_usage.map(stage => stage.token_usage.total_tokens),
+        ai_priority: budgeted.priority,
+        ai_estimated_cost: budgeted.estimatedCost,
+        ai_actual_cost: actualCost,
         processing_time_ms: aiResponse.processing_time_ms
       });
 
     } catch (error: any) {
       progress.fail(`Pipeline failed: ${ error.message }, ${ currentStep }`);      
+      this.emit('failed', {
+        error: error.message,
+        step: currentStep,
+        timestamp: new Date().toISOString()
+      } as PipelineFailureEvent);
 
       // Send error notification (don't block pipeline on this)
       this.sendSlackNotificationSafely(() => 
@@ -196,134 +345,42 @@ export class DigestPipeline implements ScheduledTask {
   }
 
   /**
-   * Collect Twitter data
+   * Result of the most recent successful run
    */
-  private async collectTwitterData(): Promise<any[]> {
-    if (!this.config.enableTwitter || !this.twitterClient) {
-      return [];
-    }
-
-    try {
-      // Get configured Twitter accounts (you'd load this from config)
-      const twitterAccounts = ['openai', 'anthropicai', 'elonmusk']; // Example
-      const allTweets: any[] = [];
-
-      for (const username of twitterAccounts) {
-        try {
-          // Check cache first
-          const isCacheFresh = await this.twitterCache!.isCacheFresh(username);
-          
-          let tweets;
-          if (isCacheFresh) {
-            tweets = await this.twitterCache!.getCachedTweets(username);
-            logger.debug(`Using cached tweets for @${username}: ${tweets.length} tweets`);
-          } else {
-            tweets = await this.twitterClient!.fetchUserTweets(username);
-            await this.twitterCache!.storeTweets(tweets);
-            logger.debug(`Fetched fresh tweets for @${username}: ${tweets.length} tweets`);
-          }
-
-          allTweets.push(...tweets);
-        } catch (error) {
-          logger.error(`Failed to collect tweets from @${username}`, error);
-          // Continue with other accounts
-        }
-      }
-
-      return this.filterByQuality(allTweets, 'tweet');
-    } catch (error) {
-      logger.error('Twitter data collection failed', error);
-      return [];
-    }
+  getLastResult(): DigestPipelineResult | undefined {
+    return this.lastResult;
   }
 
-  /**
-   * Collect Telegram data
-   */
-  private async collectTelegramData(): Promise<any[]> {
-    if (!this.config.enableTelegram) {
-      return [];
-    }
-
-    try {
-      // Get configured Telegram channels
-      const telegramChannels = ['telegram', 'durov']; // Example
-      const allMessages: any[] = [];
-
-      for (const channelUsername of telegramChannels) {
-        try {
-          // Check cache first
-          const isCacheFresh = await this.telegramCache!.isCacheFresh(channelUsername);
-          
-          let messages;
-          if (isCacheFresh) {
-            messages = await this.telegramCache!.getCachedMessages(channelUsername);
-            logger.debug(`Using cached messages for t.me/${channelUsername}: ${messages.length} messages`);
-          } else {
-            const result = await this.telegramScraper!.scrapeChannel(channelUsername);
-            messages = result.messages;
-            await this.telegramCache!.storeMessages(messages);
-            logger.debug(`Scraped fresh messages for t.me/${channelUsername}: ${messages.length} messages`);
-          }
-
-          allMessages.push(...messages);
-        } catch (error) {
-          logger.error(`Failed to collect messages from t.me/${channelUsername}`, error);
-          // Continue with other channels
-        }
-      }
+  private reportProgress(progress: ProgressTracker, current: number, step: string): void {
+    progress.update(current, { step });
+    this.emit('progress', {
+      step,
+      current,
+      total: PIPELINE_STEPS,
+      timestamp: new Date().toISOString()
+    } as PipelineProgressEvent);
+  }
 
-      return this.filterByQuality(allMessages, 'telegram');
-    } catch (error) {
-      logger.error('Telegram data collection failed', error);
-      return [];
-    }
+  private finish(result: DigestPipelineResult): void {
+    this.lastResult = result;
+    this.emit('completed', result);
   }
 
   /**
-   * Collect RSS data
+   * Take the source lists from the registry (after importing pending config
+   * edits), picking up changes made by other processes
    */
-  private async collectRSSData(): Promise<any[]> {
-    if (!this.config.enableRSS) {
-      return [];
-    }
-
+  private async refreshSourcesFromRegistry(): Promise<void> {
+    await this.sourceImport;
     try {
-      // Get configured RSS feeds
-      const rssFeeds = [
-        'https://techcrunch.com/feed/',
-        'https://www.theverge.com/rss/index.xml'
-      ]; // Example
-      
-      const allArticles: any[] = [];
-
-      for (const feedUrl of rssFeeds) {
-        try {
-          // Check cache first
-          const isCacheFresh = await this.rssCache!.isCacheFresh(feedUrl);
-          
-          let articles;
-          if (isCacheFresh) {
-            articles = await this.rssCache!.getCachedArticles(feedUrl);
-            logger.debug(`Using cached articles for ${feedUrl}: ${articles.length} articles`);
-          } else {
-            const result = await this.rssProcessor!.processFeed(feedUrl);
-            articles = result.articles;
-            await this.rssCache!.storeArticles(articles);
-            logger.debug(`Processed fresh articles for ${feedUrl}: ${articles.length} articles`);
-          }
-
-          allArticles.push(...articles);
-        } catch (error) {
-          logger.error(`Failed to collect articles from ${feedUrl}`, error);
-          // Continue with other feeds
-        }
-      }
-
-      return this.filterByQuality(allArticles, 'rss');
-    } catch (error) {
-      logger.error('RSS data collection failed', error);
-      return [];
+      const active = await sourceRegistry.getActiveIdentifiers();
+      this.dataSources = {
+        twitter: { ...this.dataSources.twitter, accounts: active.twitter },
+        telegram: { ...this.dataSources.telegram, channels: active.telegram },
+        rss: { ...this.dataSources.rss, feeds: active.rss }
+      };
+    } catch (error: any) {
+      logger.warn('Source registry unavailable, using sources from automation config', { error: error.message });
     }
   }
 
@@ -358,6 +415,60 @@ export class DigestPipeline implements ScheduledTask {
     });
   }
 
+  /**
+   * Narrow items to the focus topics and order them by relevance (no-op without topics)
+   */
+  private applyTopicFocus(content: any[], type: 'tweet' | 'telegram' | 'rss'): any[] {
+    if (!this.topicFilter.isActive()) {
+      return content;
+    }
+
+    const ranked = this.topicFilter.filterAndRank(
+      content,
+      item => type === 'rss'
+        ? [item.title, item.description, item.content].filter(Boolean).join(' ')
+        : item.text,
+      item => item.quality_score
+    );
+
+    logger.info(`Topic focus kept ${ranked.length}/${content.length} ${type} items`, {
+      focusTopics: this.topicFilter.getTopics()
+    });
+
+    return ranked.map(({ item, relevance, matchedTopics }) => ({
+      ...item,
+      topic_relevance: relevance,
+      matched_topics: matchedTopics
+    }));
+  }
+
+  /**
+   * Pick the best items across platforms within the run's item and token budget
+   */
+  private allocateContentBudget(tweets: any[], telegramMessages: any[], rssArticles: any[]): BudgetAllocation {
+    const allocator = new ContentBudgetAllocator(
+      {
+        ...this.config.contentBudget,
+        ...(this.config.maxSources && { maxItems: this.config.maxSources })
+      },
+      this.config.maxContentAge
+    );
+
+    const allocation = allocator.allocate(tweets, telegramMessages, rssArticles);
+    const { report } = allocation;
+
+    logger.info(`Content budget selected ${report.selected}/${report.available} items (~${report.estimatedTokens} tokens)`, {
+      maxItems: allocator.getBudget().maxItems ?? 'unlimited',
+      maxTokens: allocator.getBudget().maxTokens ?? 'unlimited',
+      droppedForLimit: report.droppedForLimit,
+      droppedForQuota: report.droppedForQuota,
+      droppedForTokens: report.droppedForTokens,
+      platforms: report.platforms
+    });
+
+    return allocation;
+  }
+
   /**
    * Prepare content for AI analysis
    */
@@ -373,6 +484,7 @@ export class DigestPipeline implements ScheduledTask {
         created_at: tweet.created_at,
         engagement_score: tweet.engagement_score,
         quality_score: tweet.quality_score,
+        topic_relevance: tweet.topic_relevance,
         url: tweet.source_url || `https://twitter.com/${tweet.author_username}/status/${tweet.id}`
       })),
       telegram_messages: telegramMessages.map(msg => ({
@@ -383,6 +495,7 @@ export class DigestPipeline implements ScheduledTask {
         message_date: msg.message_date,
         views: msg.views,
         quality_score: msg.quality_score,
+        topic_relevance: msg.topic_relevance,
         url: msg.source_url
       })),
       rss_articles: rssArticles.map(article => ({
@@ -394,6 +507,7 @@ export class DigestPipeline implements ScheduledTask {
         published_at: article.published_at,
         source: article.feed_title || 'RSS Feed',
         quality_score: article.quality_score,
+        topic_relevance: article.topic_relevance,
         url: article.link
       })),
       timeframe: {
@@ -406,11 +520,65 @@ export class DigestPipeline implements ScheduledTask {
           twitter: tweets.length,
           telegram: telegramMessages.length,
           rss: rssArticles.length
-        }
+        },
+        ...(this.topicFilter.isActive() && { focus_topics: this.topicFilter.getTopics() })
       }
     };
   }
 
+  /**
+   * Choose the AI model for this run within the cost limits. An explicitly
+   * configured model or profile is preferred, else the digest-analysis profile
+   * (the model switched from chat). When that doesn't fit the budget, the
+   * priority's tier and cheaper tiers are tried before giving up. A candidate's
+   * cost covers every call the run would make: chain steps or map-reduce chunks,
+   * and thinking tokens. Each run gets its own AI service, so runs can't change
+   * each other's model.
+   */
+  private async selectModelWithinBudget(costOptimizer: CostOptimizer, request: AIAnalysisRequest): Promise<BudgetedAnalysis> {
+    const priority = this.config.priority || 'important';
+    const candidates: { label: string; config: AIModelConfig; create: () => AIService }[] = [];
+
+    if (this.config.aiModel) {
+      const service = AIService.forProvider(this.config.aiModel, this.config.aiModelName);
+      candidates.push({ label: `${this.config.aiModel} (configured)`, config: service.getConfig(), create: () => service });
+    } else {
+      const profile = this.config.modelProfile || DIGEST_ANALYSIS_PROFILE;
+      candidates.push({ label: profile, config: modelProfiles.get(profile), create: () => AIService.forProfile(profile) });
+    }
+
+    for (const tier of ANALYSIS_PRIORITIES.slice(ANALYSIS_PRIORITIES.indexOf(priority))) {
+      const profile = priorityProfileName(tier);
+      const config = modelProfiles.get(profile);
+      if (candidates.some(candidate =>
+        candidate.config.provider === config.provider && candidate.config.modelName === config.modelName
+      )) continue;
+      candidates.push({ label: profile, config, create: () => AIService.forProfile(profile) });
+    }
+
+    const estimated = candidates.map(candidate => ({
+      ...candidate,
+      calls: this.config.analysisType === MARKET_ANALYSIS_CHAIN
+        ? ReasoningChainManager.estimateCalls(MARKET_ANALYSIS_CHAIN, request.content, candidate.config)
+        : AIService.estimateAnalysisCalls(request, candidate.config)
+    }));
+
+    const choice = await costOptimizer.selectWithinBudget(estimated, priority);
+    if (choice.candidate !== estimated[0]) {
+      logger.info(`Using ${choice.candidate.label} to stay within the ${priority} AI budget`, {
+        preferred: estimated[0].label,
+        estimated_cost: choice.estimatedCost,
+        available_budget: choice.availableBudget
+      });
+    }
+
+    return {
+      priority,
+      aiService: choice.candidate.create(),
+      estimatedCost: choice.estimatedCost
+    };
+  }
+
   /**
    * Store digest in database
    */
@@ -421,9 +589,10 @@ export class DigestPipeline implements ScheduledTask {
       content: aiResponse.analysis,
       ai_model: aiResponse.model_info.model,
       ai_provider: aiResponse.model_info.provider,
-      token_usage: aiResponse.token_usage,
+      token_usage: { ...aiResponse.token_usage, stages: aiResponse.stage_usage },
       data_from: analysisContent.timeframe.from,
       data_to: analysisContent.timeframe.to,
+      ...(this.topicFilter.isActive() && { focus_topics: this.topicFilter.getTopics() }),
       published_to_slack: false,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
@@ -435,7 +604,7 @@ export class DigestPipeline implements ScheduledTask {
   /**
    * Distribute to Slack
    */
-  private async distributeToSlack(aiResponse: any, digestId: string): Promise<void> {
+  private async distributeToSlack(aiResponse: any, digestId: string, signal?: AbortSignal): Promise<void> {
     if (!this.slackClient) return;
 
     try {
@@ -449,13 +618,14 @@ export class DigestPipeline implements ScheduledTask {
           ai_model: aiResponse.model_info.model,
           token_usage: aiResponse.token_usage
         }
-      });
+      }, undefined, signal);
 
       // Update digest as posted to Slack
       await this.digestStorage.updateDigest(digestId, { published_to_slack: true });
       
       logger.info(`Digest distributed to Slack: ${digestId}`);
     } catch (error) {
+      signal?.throwIfAborted();
       logger.error('Failed to distribute to Slack', error);
       // Don't throw - we still want the digest to be considered successful
     }
@@ -479,6 +649,14 @@ export class DigestPipeline implements ScheduledTask {
     });
   }
 
+  /**
+   * Stop following configuration changes (call when the pipeline is discarded)
+   */
+  dispose(): void {
+    this.unwatchConfig();
+    this.removeAllListeners();
+  }
+
   /**
    * Get task name for scheduler
    */
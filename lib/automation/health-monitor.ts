@@ -36,6 +36,7 @@ export class HealthMonitor extends EventEmitter {
   private startTime: Date = new Date();
   private errorCount: number = 0;
   private totalRuns: number = 0;
+  private healthCheckTimer?: NodeJS.Timeout;
 
   constructor() {
     super();
@@ -294,23 +295,35 @@ export class HealthMonitor extends EventEmitter {
    * Start periodic health checks
    */
   private startPeriodicHealthCheck(): void {
-    setInterval(() => {
+    this.healthCheckTimer = setInterval(() => {
       this.performHealthCheck();
     }, 5 * 60 * 1000); // Every 5 minutes
   }
 
+  /**
+   * Stop the built-in 5 minute checks, e.g. when a scheduler runs performHealthCheck instead
+   */
+  stopPeriodicHealthCheck(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+  }
+
   /**
    * Perform comprehensive health check
    */
-  private performHealthCheck(): void {
+  async performHealthCheck(): Promise<SystemHealth> {
     // Check data freshness
-    this.checkDataFreshness();
+    await this.checkDataFreshness();
     
     // Check system resources if possible
     this.checkSystemResources();
     
     // Emit health check complete event
-    this.emit('healthcheck', this.getSystemHealth());
+    const health = this.getSystemHealth();
+    this.emit('healthcheck', health);
+    return health;
   }
 
   /**
@@ -0,0 +1,149 @@
+// lib/automation/pipeline-runs.ts
+
+import { EventEmitter } from 'events';
+import {
+  DigestPipeline,
+  DigestPipelineResult,
+  PipelineFailureEvent,
+  PipelineProgressEvent
+} from './digest-pipeline';
+import logger from '../logger';
+
+export type PipelineRunEvent =
+  | { type: 'progress'; data: PipelineProgressEvent }
+  | { type: 'completed'; data: DigestPipelineResult }
+  | { type: 'failed'; data: PipelineFailureEvent };
+
+export interface PipelineRun {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: Date;
+  finishedAt?: Date;
+  events: PipelineRunEvent[];
+  result?: DigestPipelineResult;
+  error?: string;
+}
+
+/**
+ * Keeps track of digest pipeline runs started from the agent so their
+ * progress can be streamed to clients (see /api/agent/runs/[id]/events).
+ * Late subscribers get the events recorded so far replayed.
+ */
+export class PipelineRunRegistry {
+  private runs: Map<string, PipelineRun> = new Map();
+  private emitter = new EventEmitter();
+  private maxRuns = 50;
+
+  constructor() {
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Register a new run before its pipeline starts
+   */
+  create(runId: string): PipelineRun {
+    const run: PipelineRun = {
+      id: runId,
+      status: 'running',
+      startedAt: new Date(),
+      events: []
+    };
+
+    this.runs.set(runId, run);
+    this.prune();
+    return run;
+  }
+
+  /**
+   * Record a pipeline's events against a run
+   */
+  track(runId: string, pipeline: DigestPipeline): void {
+    if (!this.runs.has(runId)) {
+      this.create(runId);
+    }
+
+    pipeline.on('progress', (data: PipelineProgressEvent) => this.record(runId, { type: 'progress', data }));
+    pipeline.on('completed', (data: DigestPipelineResult) => this.record(runId, { type: 'completed', data }));
+    pipeline.on('failed', (data: PipelineFailureEvent) => this.record(runId, { type: 'failed', data }));
+  }
+
+  /**
+   * Mark a run as failed (e.g. when the pipeline couldn't be created)
+   */
+  fail(runId: string, error: string, step: string = 'initialization'): void {
+    this.record(runId, {
+      type: 'failed',
+      data: { error, step, timestamp: new Date().toISOString() }
+    });
+  }
+
+  /**
+   * Get a run by ID
+   */
+  get(runId: string): PipelineRun | undefined {
+    return this.runs.get(runId);
+  }
+
+  /**
+   * Listen for new events of a run. Returns a function that stops listening.
+   */
+  subscribe(runId: string, listener: (event: PipelineRunEvent) => void): () => void {
+    const channel = this.channel(runId);
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  private record(runId: string, event: PipelineRunEvent): void {
+    const run = this.runs.get(runId);
+    if (!run || run.status !== 'running') {
+      return;
+    }
+
+    run.events.push(event);
+
+    if (event.type === 'completed') {
+      run.status = 'completed';
+      run.result = event.data;
+      run.finishedAt = new Date();
+    } else if (event.type === 'failed') {
+      run.status = 'failed';
+      run.error = event.data.error;
+      run.finishedAt = new Date();
+      logger.warn('Pipeline run failed', { runId, error: event.data.error, step: event.data.step });
+    }
+
+    this.emitter.emit(this.channel(runId), event);
+  }
+
+  /**
+   * Drop the oldest finished runs once we hold too many
+   */
+  private prune(): void {
+    if (this.runs.size <= this.maxRuns) return;
+
+    for (const [id, run] of Array.from(this.runs.entries())) {
+      if (this.runs.size <= this.maxRuns) break;
+      if (run.status !== 'running') {
+        this.runs.delete(id);
+      }
+    }
+  }
+
+  private channel(runId: string): string {
+    return `run:${runId}`;
+  }
+}
+
+// Use global so API routes (bundled separately in Next.js) share one registry
+declare global {
+  var _pipelineRunRegistry: PipelineRunRegistry | undefined;
+}
+
+if (!global._pipelineRunRegistry) {
+  global._pipelineRunRegistry = new PipelineRunRegistry();
+}
+
+export const pipelineRuns = global._pipelineRunRegistry;
@@ -1,8 +1,26 @@
 // lib/automation/scheduler.ts
 
-import { CronJob } from 'cron';
+import { CronJob, CronTime } from 'cron';
 import logger from '../logger';
 import { ProgressTracker } from '../../utils/progress';
+import { abortable, settlesWithin } from '../../utils/abort';
+import { AutomationConfig, configManager } from './config-manager';
+import { TaskAttempt, TaskExecution, TaskRunStore, TaskTrigger, createTaskRunStore } from './task-run-store';
+
+export type { TaskAttempt, TaskExecution, TaskTrigger } from './task-run-store';
+
+/** Name the digest pipeline is scheduled under */
+export const DIGEST_PIPELINE_TASK = 'digest_pipeline';
+/** Name the cache cleanup is scheduled under */
+export const CACHE_CLEANUP_TASK = 'cache_cleanup';
+/** Name the health check is scheduled under */
+export const HEALTH_CHECK_TASK = 'health_check';
+
+/**
+ * What to do at startup about fire times missed while the process was down:
+ * nothing, one run for all of them, or one run per missed fire time
+ */
+export type CatchUpPolicy = 'skip' | 'once' | 'all';
 
 export interface ScheduleConfig {
   name: string;
@@ -12,29 +30,162 @@ export interface ScheduleConfig {
   maxConcurrentRuns?: number;
   retryAttempts?: number;
   retryDelayMs?: number;
+  catchUp?: CatchUpPolicy; // default skip
+  timeoutMs?: number; // hard limit per attempt (default: DEFAULT_TIMEOUT_FACTOR x the task's estimated duration)
 }
 
 export interface ScheduledTask {
-  execute(): Promise<void>;
+  /** `signal` is aborted when the run is cancelled or the attempt times out */
+  execute(signal?: AbortSignal): Promise<void>;
   getName(): string;
   getEstimatedDuration(): number; // milliseconds
 }
 
-export interface TaskExecution {
-  taskName: string;
-  startTime: Date;
-  endTime?: Date;
-  status: 'running' | 'completed' | 'failed' | 'retrying';
-  error?: string;
-  retryCount: number;
-  executionId: string;
+export type TriggerFailureReason = 'not_found' | 'already_running';
+
+export type TriggerResult =
+  | { ok: true; execution: TaskExecution }
+  | { ok: false; reason: TriggerFailureReason };
+
+export type CancelResult =
+  | { ok: true; executions: TaskExecution[] }
+  | { ok: false; reason: 'not_running' };
+
+/**
+ * A run in progress (or waiting to retry)
+ */
+interface ActiveRun {
+  execution: TaskExecution;
+  controller: AbortController;
+  settled: Promise<void>; // resolves when the run ends, retries included
+  settle: () => void;
+}
+
+// Retry delays double per attempt (retryDelayMs, 2x, 4x...) up to this
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Without a timeoutMs, an attempt may take this many times its estimated duration
+const DEFAULT_TIMEOUT_FACTOR = 3;
+
+// How long a failed attempt that ignores its abort signal may keep running
+// before the run gives up on retrying (a retry alongside it could post twice)
+const ABORTED_ATTEMPT_GRACE_MS = 30 * 1000;
+
+// Fire times older than this aren't caught up
+const CATCH_UP_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// The 'all' policy runs at most this many of the most recent missed fire times
+const MAX_CATCH_UP_RUNS = 10;
+
+// Error recorded for runs a stopped process left behind as running
+const INTERRUPTED_ERROR = 'Interrupted: the process stopped during the run';
+
+export type ScheduleUpdate = Partial<Omit<ScheduleConfig, 'name'>>;
+export type TaskSchedule = Omit<ScheduleConfig, 'name'>;
+
+/**
+ * Map the digest pipeline section of the automation config to a schedule
+ */
+export function digestScheduleFromConfig(config: AutomationConfig): TaskSchedule {
+  const schedule = config.scheduling.digest_pipeline;
+  return {
+    cronPattern: schedule.cron_pattern,
+    enabled: schedule.enabled,
+    timezone: schedule.timezone,
+    maxConcurrentRuns: schedule.max_concurrent_runs,
+    retryAttempts: schedule.retry_attempts,
+    retryDelayMs: schedule.retry_delay_ms,
+    catchUp: schedule.catch_up || 'once',
+    timeoutMs: schedule.timeout_ms
+  };
+}
+
+/**
+ * Map the cache cleanup section of the automation config to a schedule
+ * (in the digest pipeline's timezone)
+ */
+export function cacheCleanupScheduleFromConfig(config: AutomationConfig): TaskSchedule {
+  const cleanup = config.scheduling.cache_cleanup;
+  return {
+    cronPattern: cleanup.cron_pattern,
+    enabled: cleanup.enabled,
+    timezone: config.scheduling.digest_pipeline.timezone,
+    maxConcurrentRuns: 1,
+    retryAttempts: 1,
+    catchUp: cleanup.catch_up || 'once',
+    timeoutMs: cleanup.timeout_ms
+  };
+}
+
+/**
+ * Map the health check interval of the automation config to a schedule
+ */
+export function healthCheckScheduleFromConfig(config: AutomationConfig): TaskSchedule {
+  const healthCheck = config.scheduling.health_check;
+  return {
+    cronPattern: intervalToCronPattern(healthCheck.interval_minutes),
+    enabled: healthCheck.enabled,
+    timezone: config.scheduling.digest_pipeline.timezone,
+    maxConcurrentRuns: 1,
+    catchUp: 'skip', // the next check is never far away
+    timeoutMs: 60 * 1000
+  };
+}
+
+/**
+ * Cron pattern for "every N minutes". Intervals that don't fit cron's fields
+ * are rounded to whole hours (at most daily).
+ */
+function intervalToCronPattern(minutes: number): string {
+  const interval = Math.max(1, Math.round(minutes));
+  if (interval < 60) {
+    return `*/${interval} * * * *`;
+  }
+
+  const hours = Math.round(interval / 60);
+  if (interval % 60 !== 0) {
+    logger.warn(`Interval of ${interval} minutes rounded to ${hours} hour(s)`);
+  }
+  return hours < 24 ? `0 */${hours} * * *` : '0 0 * * *';
+}
+
+/**
+ * Fire times of a schedule after `since` and up to `until` (within the
+ * catch-up window): the most recent MAX_CATCH_UP_RUNS of them, oldest first,
+ * and how many there were in total
+ */
+function missedFireTimes(config: ScheduleConfig, since: Date, until: Date): { missed: Date[]; total: number } {
+  const timezone = config.timezone || 'UTC';
+  const cronTime = new CronTime(config.cronPattern, timezone);
+  const windowStart = new Date(until.getTime() - CATCH_UP_WINDOW_MS);
+
+  const missed: Date[] = [];
+  let total = 0;
+  let next = cronTime.getNextDateFrom(since > windowStart ? since : windowStart, timezone).toJSDate();
+
+  while (next.getTime() <= until.getTime()) {
+    total++;
+    missed.push(next);
+    if (missed.length > MAX_CATCH_UP_RUNS) {
+      missed.shift();
+    }
+    next = cronTime.getNextDateFrom(next, timezone).toJSDate();
+  }
+
+  return { missed, total };
 }
 
 export class TaskScheduler {
   private jobs: Map<string, CronJob> = new Map();
-  private runningTasks: Map<string, TaskExecution> = new Map();
-  private taskHistory: TaskExecution[] = [];
-  private maxHistoryItems = 100;
+  private tasks: Map<string, { config: ScheduleConfig; task: ScheduledTask }> = new Map();
+  private runningTasks: Map<string, ActiveRun> = new Map(); // by execution id
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map(); // by execution id
+  private inFlight: Set<Promise<void>> = new Set();
+  private runStore: TaskRunStore;
+
+  constructor(runStore: TaskRunStore = createTaskRunStore()) {
+    this.runStore = runStore;
+  }
 
   /**
    * Schedule a task with cron pattern
@@ -42,9 +193,14 @@ export class TaskScheduler {
   scheduleTask(config: ScheduleConfig, task: ScheduledTask): void {
     if (this.jobs.has(config.name)) {
       logger.warn(`Task ${config.name} is already scheduled, updating...`);
-      this.unscheduleTask(config.name);
+      // Pending retries carry on with the new schedule
+      this.stopJob(config.name);
     }
 
+    // Remember the task so it can be rescheduled (or re-enabled) later
+    const firstSchedule = !this.tasks.has(config.name);
+    this.tasks.set(config.name, { config, task });
+
     if (!config.enabled) {
       logger.info(`Task ${config.name} is disabled, skipping schedule`);
       return;
@@ -52,29 +208,247 @@ export class TaskScheduler {
 
     const job = new CronJob(
       config.cronPattern,
-      () => this.executeTask(config, task),
+      () => this.onTick(config, task),
       null,
       true, // Start immediately
       config.timezone || 'UTC'
     );
 
     this.jobs.set(config.name, job);
-    logger.info(`Scheduled task: ${config.name} with pattern: ${config.cronPattern}`);
+    logger.info(`Scheduled task: ${config.name} with pattern: ${config.cronPattern}`, {
+      timezone: config.timezone || 'UTC'
+    });
+
+    // Only when the task is registered - a reschedule mustn't replay old fire times
+    if (firstSchedule && config.catchUp && config.catchUp !== 'skip') {
+      this.track(this.catchUp(config, task));
+    }
   }
 
   /**
-   * Execute a task with error handling and retries
+   * Change the schedule of a registered task without restarting the process.
+   * Returns false when no task with that name has been scheduled here.
    */
-  private async executeTask(config: ScheduleConfig, task: ScheduledTask): Promise<void> {
-    const executionId = this.generateExecutionId();
-    const taskName = config.name;
+  rescheduleTask(taskName: string, updates: ScheduleUpdate): boolean {
+    const registered = this.tasks.get(taskName);
+    if (!registered) {
+      return false;
+    }
 
-    // Check for concurrent runs
-    if (config.maxConcurrentRuns && config.maxConcurrentRuns <= 1) {
-      if (this.runningTasks.has(taskName)) {
-        logger.warn(`Task ${taskName} is already running, skipping execution`);
-        return;
+    const config: ScheduleConfig = { ...registered.config, ...updates, name: taskName };
+    const unchanged = (Object.keys(updates) as (keyof ScheduleUpdate)[])
+      .every(key => config[key] === registered.config[key]);
+
+    if (unchanged && this.jobs.has(taskName) === config.enabled) {
+      return true;
+    }
+
+    try {
+      this.scheduleTask(config, registered.task);
+    } catch (error) {
+      // Keep the task running on its previous schedule
+      this.scheduleTask(registered.config, registered.task);
+      throw error;
+    }
+
+    logger.info(`Rescheduled task: ${taskName}`, {
+      cronPattern: config.cronPattern,
+      timezone: config.timezone || 'UTC',
+      enabled: config.enabled
+    });
+    return true;
+  }
+
+  /**
+   * Keep a task's schedule in sync with the automation config, including edits
+   * made by other processes. Returns a function that stops following it.
+   */
+  followConfig(taskName: string, select: (config: AutomationConfig) => ScheduleUpdate): () => void {
+    return configManager.watch(config => {
+      try {
+        this.rescheduleTask(taskName, select(config));
+      } catch (error: any) {
+        logger.error(`Failed to reschedule task ${taskName} from config`, { error: error.message });
+      }
+    });
+  }
+
+  /**
+   * Get the schedule a task is currently registered with
+   */
+  getSchedule(taskName: string): ScheduleConfig | undefined {
+    const registered = this.tasks.get(taskName);
+    return registered ? { ...registered.config } : undefined;
+  }
+
+  /**
+   * Schedules of all registered tasks
+   */
+  getSchedules(): ScheduleConfig[] {
+    return Array.from(this.tasks.values()).map(({ config }) => ({ ...config }));
+  }
+
+  /**
+   * When a task's schedule last fired, if known
+   */
+  async getLastFire(taskName: string): Promise<Date | undefined> {
+    return this.runStore.getLastFire(taskName);
+  }
+
+  /**
+   * Check whether a task currently has an active cron job
+   */
+  isScheduled(taskName: string): boolean {
+    return this.jobs.has(taskName);
+  }
+
+  /**
+   * Run a registered task now, outside its schedule (even if it's disabled)
+   */
+  triggerNow(taskName: string): TriggerResult {
+    const registered = this.tasks.get(taskName);
+    if (!registered) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    const run = this.startRun(registered.config, registered.task, 'manual');
+    if (!run) {
+      return { ok: false, reason: 'already_running' };
+    }
+
+    logger.info(`Triggered task: ${taskName} (${run.execution.executionId})`);
+    return { ok: true, execution: { ...run.execution } };
+  }
+
+  /**
+   * Cancel a task's current runs. Pending retries are dropped; running attempts
+   * are asked to stop through their abort signal and aren't retried.
+   */
+  cancelRun(taskName: string): CancelResult {
+    const runs = this.getActiveRuns(taskName);
+    if (runs.length === 0) {
+      return { ok: false, reason: 'not_running' };
+    }
+
+    for (const run of runs) {
+      const { executionId } = run.execution;
+      logger.info(`Cancelling task run: ${taskName} (${executionId})`);
+      if (this.retryTimers.has(executionId)) {
+        this.cancelRetry(executionId, 'cancelled by operator');
+      } else {
+        run.controller.abort(new Error('Cancelled by operator'));
+      }
+    }
+
+    return { ok: true, executions: runs.map(run => ({ ...run.execution })) };
+  }
+
+  /**
+   * Mark runs the store still has as running or waiting to retry as failed.
+   * Call at startup, before scheduling: such runs were left by a process that
+   * stopped mid-run, and nothing would ever finish them. Returns how many
+   * runs were marked.
+   */
+  async recoverInterruptedRuns(): Promise<number> {
+    let history: TaskExecution[];
+    try {
+      history = await this.runStore.list();
+    } catch (error: any) {
+      logger.error('Failed to load task runs, skipping recovery of interrupted runs', { error: error.message });
+      return 0;
+    }
+
+    const interrupted = history.filter(execution =>
+      (execution.status === 'running' || execution.status === 'retrying')
+      && !this.runningTasks.has(execution.executionId)
+    );
+    const now = new Date();
+
+    for (const execution of interrupted) {
+      for (const attempt of execution.attempts.filter(attempt => attempt.status === 'running')) {
+        attempt.status = 'failed';
+        attempt.endTime = now;
+        attempt.error = INTERRUPTED_ERROR;
       }
+
+      execution.error = execution.status === 'retrying'
+        ? `${execution.error} (retry lost: the process stopped)`
+        : INTERRUPTED_ERROR;
+      execution.status = 'failed';
+      execution.endTime = now;
+      execution.nextRetryAt = undefined;
+      await this.saveRun(execution);
+    }
+
+    if (interrupted.length > 0) {
+      logger.warn(`Marked ${interrupted.length} interrupted task run(s) as failed`, {
+        runs: interrupted.map(execution => `${execution.taskName} (${execution.executionId})`)
+      });
+    }
+    return interrupted.length;
+  }
+
+  private onTick(config: ScheduleConfig, task: ScheduledTask): void {
+    this.saveLastFire(config.name, new Date());
+    this.startRun(config, task, 'schedule');
+  }
+
+  /**
+   * Run the fire times missed since the schedule last fired (e.g. while the
+   * process was down), as the task's catch-up policy says
+   */
+  private async catchUp(config: ScheduleConfig, task: ScheduledTask): Promise<void> {
+    const taskName = config.name;
+
+    let lastFire: Date | undefined;
+    try {
+      lastFire = await this.runStore.getLastFire(taskName);
+    } catch (error: any) {
+      logger.error(`Failed to load last fire time of ${taskName}, skipping catch-up`, { error: error.message });
+      return;
+    }
+
+    // Never fired before - nothing was missed
+    if (!lastFire) return;
+
+    const { missed, total } = missedFireTimes(config, lastFire, new Date());
+    if (total === 0) return;
+
+    const runs = config.catchUp === 'all' ? missed : missed.slice(-1);
+    logger.info(`Task ${taskName} missed ${total} scheduled run(s) since ${lastFire.toISOString()}, catching up ${runs.length}`, {
+      policy: config.catchUp
+    });
+
+    // Mark them all as handled first, so a restart midway doesn't replay them
+    await this.saveLastFire(taskName, missed[missed.length - 1]);
+
+    for (const scheduledFor of runs) {
+      // Stop if the task was unscheduled or rescheduled meanwhile
+      if (this.tasks.get(taskName)?.config !== config) return;
+
+      const run = this.startRun(config, task, 'catch_up', scheduledFor);
+      if (!run) return;
+      await run.settled;
+    }
+  }
+
+  /**
+   * Start a run unless the task is already running and may not overlap.
+   * The first attempt is tracked for shutdown.
+   */
+  private startRun(
+    config: ScheduleConfig,
+    task: ScheduledTask,
+    trigger: TaskTrigger,
+    scheduledFor?: Date
+  ): ActiveRun | undefined {
+    const taskName = config.name;
+
+    // Check for concurrent runs (a run waiting to retry still counts)
+    const active = this.getActiveRuns(taskName).length;
+    if (config.maxConcurrentRuns && active >= config.maxConcurrentRuns) {
+      logger.warn(`Task ${taskName} already has ${active} run(s) in progress, skipping ${trigger} execution`);
+      return undefined;
     }
 
     const execution: TaskExecution = {
@@ -82,11 +456,54 @@ export class TaskScheduler {
       startTime: new Date(),
       status: 'running',
       retryCount: 0,
-      executionId
+      executionId: this.generateExecutionId(),
+      attempts: [],
+      trigger,
+      scheduledFor
+    };
+
+    let settle: () => void = () => undefined;
+    const settled = new Promise<void>(resolve => {
+      settle = resolve;
+    });
+    const run: ActiveRun = { execution, controller: new AbortController(), settled, settle };
+
+    this.runningTasks.set(execution.executionId, run);
+    this.track(this.runAttempt(config, task, run).catch(error => {
+      logger.error(`Task run failed: ${taskName} (${execution.executionId})`, { error: error.message });
+    }));
+    return run;
+  }
+
+  /**
+   * Run one attempt of a run, scheduling the next one (with backoff) if it
+   * fails and retries are left. The attempt ends when its timeout passes or
+   * the run is cancelled, even if the task ignores its signal; it's only
+   * retried once the task has actually stopped.
+   */
+  private async runAttempt(config: ScheduleConfig, task: ScheduledTask, run: ActiveRun): Promise<void> {
+    const { execution, controller } = run;
+    const { taskName, executionId } = execution;
+    const attempt: TaskAttempt = {
+      attempt: execution.attempts.length + 1,
+      startTime: new Date(),
+      status: 'running'
     };
 
-    this.runningTasks.set(taskName, execution);
-    logger.info(`Starting task execution: ${taskName} (${executionId})`);
+    execution.attempts.push(attempt);
+    execution.status = 'running';
+    execution.nextRetryAt = undefined;
+    await this.saveRun(execution);
+    logger.info(`Starting task execution: ${taskName} (${executionId}, attempt ${attempt.attempt})`);
+
+    const timeoutMs = this.getTimeout(config, task);
+    const timeout = new AbortController();
+    const timer = setTimeout(() => {
+      logger.warn(`Task ${taskName} (${executionId}) timed out after ${timeoutMs}ms, aborting it`);
+      timeout.abort(new Error(`Timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    const signal = AbortSignal.any([controller.signal, timeout.signal]);
+    const running = Promise.resolve().then(() => task.execute(signal));
 
     try {
       const progress = new ProgressTracker({
@@ -94,51 +511,173 @@ export class TaskScheduler {
         label: `Executing ${taskName}`
       });
 
-      await task.execute();
+      await abortable(running, signal);
 
+      attempt.status = 'completed';
+      attempt.endTime = new Date();
       execution.status = 'completed';
-      execution.endTime = new Date();
+      execution.endTime = attempt.endTime;
       
       const duration = execution.endTime.getTime() - execution.startTime.getTime();
       progress.complete(`Task completed in ${(duration / 1000).toFixed(2)}s`);
       
       logger.info(`Task completed successfully: ${taskName} (${executionId})`, {
-        duration_ms: duration
+        duration_ms: duration,
+        attempts: execution.attempts.length
       });
 
     } catch (error: any) {
+      attempt.endTime = new Date();
+      attempt.error = error.message;
       execution.error = error.message;
-      logger.error(`Task failed: ${taskName} (${executionId})`, error);
 
-      // Retry logic
+      // A cancelled run isn't retried
+      if (controller.signal.aborted) {
+        attempt.status = 'cancelled';
+        execution.status = 'cancelled';
+        execution.endTime = attempt.endTime;
+        logger.warn(`Task cancelled: ${taskName} (${executionId}, attempt ${attempt.attempt})`, { reason: error.message });
+        this.finishRun(run);
+        await this.saveRun(execution);
+        return;
+      }
+
+      attempt.status = 'failed';
+      logger.error(`Task failed: ${taskName} (${executionId}, attempt ${attempt.attempt})`, error);
+
+      // Retry logic - only once the failed attempt has really stopped
       const maxRetries = config.retryAttempts || 0;
-      if (execution.retryCount < maxRetries) {
-        execution.status = 'retrying';
+      const retry = execution.retryCount < maxRetries && await this.attemptStopped(running, execution);
+      if (retry) {
         execution.retryCount++;
-        
-        const retryDelay = config.retryDelayMs || 60000; // 1 minute default
-        logger.info(`Retrying task ${taskName} in ${retryDelay}ms (attempt ${execution.retryCount}/${maxRetries})`);
-        
-        setTimeout(() => {
-          this.executeTask(config, task);
-        }, retryDelay);
-        
+        const retryDelay = this.getRetryDelay(config, execution.retryCount);
+        execution.status = 'retrying';
+        execution.nextRetryAt = new Date(Date.now() + retryDelay);
+        await this.saveRun(execution);
+
+        logger.info(`Retrying task ${taskName} in ${retryDelay}ms (retry ${execution.retryCount}/${maxRetries})`);
+        this.retryTimers.set(executionId, setTimeout(() => {
+          this.retryTimers.delete(executionId);
+          this.track(this.runAttempt(config, task, run).catch(retryError => {
+            logger.error(`Task retry failed: ${taskName} (${executionId})`, { error: retryError.message });
+          }));
+        }, retryDelay));
         return;
-      } else {
-        execution.status = 'failed';
-        execution.endTime = new Date();
       }
+
+      execution.status = 'failed';
+      execution.endTime = attempt.endTime;
     } finally {
-      // Clean up running tasks (unless retrying)
-      if (execution.status !== 'retrying') {
-        this.runningTasks.delete(taskName);
-        
-        // Add to history
-        this.taskHistory.unshift(execution);
-        if (this.taskHistory.length > this.maxHistoryItems) {
-          this.taskHistory = this.taskHistory.slice(0, this.maxHistoryItems);
-        }
-      }
+      clearTimeout(timer);
+    }
+
+    this.finishRun(run);
+    await this.saveRun(execution);
+  }
+
+  /**
+   * Wait (up to ABORTED_ATTEMPT_GRACE_MS) for a failed attempt's task to stop.
+   * An aborted attempt may still be working, e.g. distributing a digest.
+   */
+  private async attemptStopped(running: Promise<void>, execution: TaskExecution): Promise<boolean> {
+    if (await settlesWithin(running, ABORTED_ATTEMPT_GRACE_MS)) {
+      return true;
+    }
+
+    logger.error(`Task ${execution.taskName} (${execution.executionId}) still running ${ABORTED_ATTEMPT_GRACE_MS}ms after it was aborted, not retrying it`);
+    execution.error = `${execution.error} (not retried: the attempt didn't stop)`;
+    return false;
+  }
+
+  /**
+   * Hard limit for one attempt: the schedule's timeoutMs, else a multiple of
+   * the task's own estimate
+   */
+  private getTimeout(config: ScheduleConfig, task: ScheduledTask): number {
+    return config.timeoutMs ?? task.getEstimatedDuration() * DEFAULT_TIMEOUT_FACTOR;
+  }
+
+  /**
+   * Forget a run that has ended
+   */
+  private finishRun(run: ActiveRun): void {
+    const { executionId } = run.execution;
+    if (this.runningTasks.get(executionId) === run) {
+      this.runningTasks.delete(executionId);
+    }
+    run.settle();
+  }
+
+  /**
+   * A task's runs in progress or waiting to retry
+   */
+  private getActiveRuns(taskName: string): ActiveRun[] {
+    return Array.from(this.runningTasks.values()).filter(run => run.execution.taskName === taskName);
+  }
+
+  /**
+   * Remember a running attempt until it settles, so shutdown can wait for it
+   */
+  private track(run: Promise<void>): Promise<void> {
+    this.inFlight.add(run);
+    run.finally(() => this.inFlight.delete(run)).catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Wait for attempts that are currently executing to finish. Returns false
+   * if some were still running after `timeoutMs`.
+   */
+  async drain(timeoutMs: number = 5 * 60 * 1000): Promise<boolean> {
+    if (this.inFlight.size === 0) return true;
+
+    logger.info(`Waiting for ${this.inFlight.size} running task(s) to finish`);
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<false>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    const drained = await Promise.race([
+      Promise.allSettled(Array.from(this.inFlight)).then(() => true as const),
+      timedOut
+    ]);
+    clearTimeout(timer);
+
+    if (!drained) {
+      logger.warn(`${this.inFlight.size} task(s) still running after ${timeoutMs}ms`, {
+        tasks: this.getRunningTasks().map(execution => execution.taskName)
+      });
+    }
+    return drained;
+  }
+
+  /**
+   * Exponential backoff: retryDelayMs doubled for each retry already made
+   */
+  private getRetryDelay(config: ScheduleConfig, retryNumber: number): number {
+    const baseDelay = config.retryDelayMs || 60000; // 1 minute default
+    return Math.min(baseDelay * 2 ** (retryNumber - 1), MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Persist a run. History is best-effort - a storage problem mustn't stop the task.
+   */
+  private async saveRun(execution: TaskExecution): Promise<void> {
+    try {
+      await this.runStore.save(execution);
+    } catch (error: any) {
+      logger.error(`Failed to save task run ${execution.executionId}`, { error: error.message });
+    }
+  }
+
+  /**
+   * Remember when a task's schedule fired. Best-effort like saveRun.
+   */
+  private async saveLastFire(taskName: string, firedAt: Date): Promise<void> {
+    try {
+      await this.runStore.saveLastFire(taskName, firedAt);
+    } catch (error: any) {
+      logger.error(`Failed to save last fire time of ${taskName}`, { error: error.message });
     }
   }
 
@@ -146,6 +685,14 @@ export class TaskScheduler {
    * Unschedule a task
    */
   unscheduleTask(taskName: string): void {
+    this.tasks.delete(taskName);
+    for (const run of this.getActiveRuns(taskName)) {
+      this.cancelRetry(run.execution.executionId, 'task stopped');
+    }
+    this.stopJob(taskName);
+  }
+
+  private stopJob(taskName: string): void {
     const job = this.jobs.get(taskName);
     if (job) {
       job.stop();
@@ -154,27 +701,47 @@ export class TaskScheduler {
     }
   }
 
+  /**
+   * Drop a run's pending retry, recording the run as cancelled
+   */
+  private cancelRetry(executionId: string, reason: string): void {
+    const timer = this.retryTimers.get(executionId);
+    if (!timer) return;
+
+    clearTimeout(timer);
+    this.retryTimers.delete(executionId);
+
+    const run = this.runningTasks.get(executionId);
+    if (run) {
+      const { execution } = run;
+      execution.status = 'cancelled';
+      execution.endTime = new Date();
+      execution.nextRetryAt = undefined;
+      execution.error = `${execution.error} (retry cancelled: ${reason})`;
+      this.finishRun(run);
+      this.saveRun(execution);
+    }
+  }
+
   /**
    * Get running tasks
    */
   getRunningTasks(): TaskExecution[] {
-    return Array.from(this.runningTasks.values());
+    return Array.from(this.runningTasks.values()).map(run => run.execution);
   }
 
   /**
-   * Get task history
+   * Get task history (newest first, including runs still in progress)
    */
-  getTaskHistory(limit?: number): TaskExecution[] {
-    return limit ? this.taskHistory.slice(0, limit) : this.taskHistory;
+  async getTaskHistory(limit?: number, taskName?: string): Promise<TaskExecution[]> {
+    return this.runStore.list({ taskName, limit });
   }
 
   /**
-   * Get task statistics
+   * Get task statistics from the stored run history
    */
-  getTaskStats(taskName?: string): any {
-    const history = taskName 
-      ? this.taskHistory.filter(exec => exec.taskName === taskName)
-      : this.taskHistory;
+  async getTaskStats(taskName?: string): Promise<any> {
+    const history = await this.runStore.list({ taskName });
 
     if (history.length === 0) {
       return { total_executions: 0 };
@@ -182,6 +749,8 @@ export class TaskScheduler {
 
     const completed = history.filter(exec => exec.status === 'completed');
     const failed = history.filter(exec => exec.status === 'failed');
+    const cancelled = history.filter(exec => exec.status === 'cancelled');
+    const finished = completed.length + failed.length;
     
     const completedDurations = completed
       .filter(exec => exec.endTime)
@@ -191,7 +760,11 @@ export class TaskScheduler {
       total_executions: history.length,
       completed: completed.length,
       failed: failed.length,
-      success_rate: completed.length / history.length,
+      cancelled: cancelled.length, // not counted in the success rate
+      in_progress: history.length - finished - cancelled.length,
+      success_rate: finished > 0 ? completed.length / finished : 0,
+      total_attempts: history.reduce((sum, exec) => sum + exec.attempts.length, 0),
+      retried_runs: history.filter(exec => exec.retryCount > 0).length,
       average_duration_ms: completedDurations.length > 0 
         ? completedDurations.reduce((sum, dur) => sum + dur, 0) / completedDurations.length
         : 0,
@@ -208,6 +781,10 @@ export class TaskScheduler {
       logger.info(`Stopped task: ${taskName}`);
     }
     this.jobs.clear();
+    for (const executionId of Array.from(this.retryTimers.keys())) {
+      this.cancelRetry(executionId, 'task stopped');
+    }
+    this.tasks.clear();
   }
 
   /**
@@ -0,0 +1,347 @@
+// lib/automation/task-run-store.ts
+
+import path from 'path';
+import { z } from 'zod';
+import { JsonFileStore } from '../storage/json-file-store';
+import { createStore, StoreType, SupabaseBackedStore } from '../storage/store-factory';
+
+/**
+ * One try at running a task. Retries add attempts to the same run.
+ */
+export interface TaskAttempt {
+  attempt: number; // 1-based
+  startTime: Date;
+  endTime?: Date;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  error?: string;
+}
+
+/**
+ * What started a run: its cron schedule, catch-up of a fire time missed
+ * while the process was down, or an operator
+ */
+export type TaskTrigger = 'schedule' | 'catch_up' | 'manual';
+
+/**
+ * One logical run of a scheduled task, from the first attempt to the last retry
+ */
+export interface TaskExecution {
+  taskName: string;
+  startTime: Date;
+  endTime?: Date;
+  status: 'running' | 'completed' | 'failed' | 'retrying' | 'cancelled';
+  error?: string;        // error of the latest failed attempt
+  retryCount: number;    // attempts after the first
+  executionId: string;
+  attempts: TaskAttempt[];
+  nextRetryAt?: Date;    // set while waiting to retry
+  trigger?: TaskTrigger; // runs stored before triggers were recorded have none
+  scheduledFor?: Date;   // the missed fire time a catch-up run stands in for
+}
+
+/**
+ * Storage for task run history, so stats survive restarts
+ */
+export interface TaskRunStore {
+  /** Insert or replace a run, including its attempts */
+  save(execution: TaskExecution): Promise<void>;
+  get(executionId: string): Promise<TaskExecution | undefined>;
+  /** Runs newest first, optionally for one task */
+  list(options?: { taskName?: string; limit?: number }): Promise<TaskExecution[]>;
+  /** When the task's schedule last fired, used to find runs missed while the process was down */
+  getLastFire(taskName: string): Promise<Date | undefined>;
+  saveLastFire(taskName: string, firedAt: Date): Promise<void>;
+}
+
+export type TaskRunStoreType = StoreType;
+
+// Local stores keep this many of the most recent runs
+const MAX_STORED_RUNS = 1000;
+
+const taskAttemptRecordSchema = z.object({
+  attempt: z.number(),
+  startTime: z.string(),
+  endTime: z.string().optional(),
+  status: z.enum(['running', 'completed', 'failed', 'cancelled']),
+  error: z.string().optional(),
+});
+
+const taskRunRecordSchema = z.object({
+  executionId: z.string(),
+  taskName: z.string(),
+  startTime: z.string(),
+  endTime: z.string().optional(),
+  status: z.enum(['running', 'completed', 'failed', 'retrying', 'cancelled']),
+  error: z.string().optional(),
+  retryCount: z.number(),
+  attempts: z.array(taskAttemptRecordSchema),
+  nextRetryAt: z.string().optional(),
+  trigger: z.enum(['schedule', 'catch_up', 'manual']).optional(),
+  scheduledFor: z.string().optional(),
+});
+
+type TaskRunRecord = z.infer<typeof taskRunRecordSchema>;
+
+function toRecord(execution: TaskExecution): TaskRunRecord {
+  return {
+    executionId: execution.executionId,
+    taskName: execution.taskName,
+    startTime: execution.startTime.toISOString(),
+    endTime: execution.endTime?.toISOString(),
+    status: execution.status,
+    error: execution.error,
+    retryCount: execution.retryCount,
+    attempts: execution.attempts.map(attempt => ({
+      attempt: attempt.attempt,
+      startTime: attempt.startTime.toISOString(),
+      endTime: attempt.endTime?.toISOString(),
+      status: attempt.status,
+      error: attempt.error
+    })),
+    nextRetryAt: execution.nextRetryAt?.toISOString(),
+    trigger: execution.trigger,
+    scheduledFor: execution.scheduledFor?.toISOString()
+  };
+}
+
+function fromRecord(record: TaskRunRecord): TaskExecution {
+  return {
+    executionId: record.executionId,
+    taskName: record.taskName,
+    startTime: new Date(record.startTime),
+    endTime: record.endTime ? new Date(record.endTime) : undefined,
+    status: record.status,
+    error: record.error,
+    retryCount: record.retryCount,
+    attempts: record.attempts.map(attempt => ({
+      attempt: attempt.attempt,
+      startTime: new Date(attempt.startTime),
+      endTime: attempt.endTime ? new Date(attempt.endTime) : undefined,
+      status: attempt.status,
+      error: attempt.error
+    })),
+    nextRetryAt: record.nextRetryAt ? new Date(record.nextRetryAt) : undefined,
+    trigger: record.trigger,
+    scheduledFor: record.scheduledFor ? new Date(record.scheduledFor) : undefined
+  };
+}
+
+/**
+ * Newest first, trimmed to the retention limit
+ */
+function upsertRecord(records: TaskRunRecord[], record: TaskRunRecord): TaskRunRecord[] {
+  return records
+    .filter(existing => existing.executionId !== record.executionId)
+    .concat(record)
+    .sort((a, b) => b.startTime.localeCompare(a.startTime))
+    .slice(0, MAX_STORED_RUNS);
+}
+
+function selectRecords(records: TaskRunRecord[], options: { taskName?: string; limit?: number }): TaskExecution[] {
+  const matching = records.filter(record => !options.taskName || record.taskName === options.taskName);
+  return (options.limit ? matching.slice(0, options.limit) : matching).map(fromRecord);
+}
+
+/**
+ * Process-local store. History is lost on restart.
+ */
+export class MemoryTaskRunStore implements TaskRunStore {
+  private records: TaskRunRecord[] = [];
+  private lastFires: Map<string, Date> = new Map();
+
+  async save(execution: TaskExecution): Promise<void> {
+    // Store a snapshot - the scheduler keeps mutating the execution
+    this.records = upsertRecord(this.records, toRecord(execution));
+  }
+
+  async get(executionId: string): Promise<TaskExecution | undefined> {
+    const record = this.records.find(existing => existing.executionId === executionId);
+    return record ? fromRecord(record) : undefined;
+  }
+
+  async list(options: { taskName?: string; limit?: number } = {}): Promise<TaskExecution[]> {
+    return selectRecords(this.records, options);
+  }
+
+  async getLastFire(taskName: string): Promise<Date | undefined> {
+    return this.lastFires.get(taskName);
+  }
+
+  async saveLastFire(taskName: string, firedAt: Date): Promise<void> {
+    this.lastFires.set(taskName, firedAt);
+  }
+}
+
+const taskRunFileSchema = z.object({
+  version: z.literal(1),
+  runs: z.array(taskRunRecordSchema),
+  lastFires: z.record(z.string(), z.string()).default({}), // task name -> ISO time
+});
+
+type TaskRunFile = z.infer<typeof taskRunFileSchema>;
+
+/**
+ * JSON-file store for single-host setups. All operations are serialized
+ * within the process and written via temp file + rename.
+ */
+export class FileTaskRunStore implements TaskRunStore {
+  private file: JsonFileStore<TaskRunFile>;
+
+  constructor(filePath: string = path.join(process.cwd(), '.task-runs.json')) {
+    this.file = new JsonFileStore(filePath, {
+      schema: taskRunFileSchema,
+      empty: () => ({ version: 1, runs: [], lastFires: {} }),
+      label: 'task runs'
+    });
+  }
+
+  save(execution: TaskExecution): Promise<void> {
+    const record = toRecord(execution);
+    return this.file.transaction(document => {
+      document.runs = upsertRecord(document.runs, record);
+      return { result: undefined, changed: true };
+    });
+  }
+
+  get(executionId: string): Promise<TaskExecution | undefined> {
+    return this.file.transaction(document => {
+      const record = document.runs.find(existing => existing.executionId === executionId);
+      return { result: record ? fromRecord(record) : undefined, changed: false };
+    });
+  }
+
+  list(options: { taskName?: string; limit?: number } = {}): Promise<TaskExecution[]> {
+    return this.file.transaction(document => ({
+      result: selectRecords(document.runs, options),
+      changed: false
+    }));
+  }
+
+  getLastFire(taskName: string): Promise<Date | undefined> {
+    return this.file.transaction(document => {
+      const firedAt = document.lastFires[taskName];
+      return { result: firedAt ? new Date(firedAt) : undefined, changed: false };
+    });
+  }
+
+  saveLastFire(taskName: string, firedAt: Date): Promise<void> {
+    return this.file.transaction(document => {
+      document.lastFires[taskName] = firedAt.toISOString();
+      return { result: undefined, changed: true };
+    });
+  }
+
+}
+
+/**
+ * Store backed by the `task_runs` table, shared by every scheduler instance
+ */
+export class SupabaseTaskRunStore extends SupabaseBackedStore implements TaskRunStore {
+  async save(execution: TaskExecution): Promise<void> {
+    const record = toRecord(execution);
+
+    const { error } = await this.supabase
+      .from('task_runs')
+      .upsert({
+        id: record.executionId,
+        task_name: record.taskName,
+        status: record.status,
+        started_at: record.startTime,
+        ended_at: record.endTime ?? null,
+        error: record.error ?? null,
+        retry_count: record.retryCount,
+        attempts: record.attempts,
+        next_retry_at: record.nextRetryAt ?? null,
+        trigger: record.trigger ?? null,
+        scheduled_for: record.scheduledFor ?? null
+      });
+
+    if (error) {
+      throw new Error(`Failed to save task run: ${error.message}`);
+    }
+  }
+
+  async get(executionId: string): Promise<TaskExecution | undefined> {
+    const { data, error } = await this.supabase
+      .from('task_runs')
+      .select('*')
+      .eq('id', executionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load task run: ${error.message}`);
+    }
+
+    return data ? this.fromRow(data) : undefined;
+  }
+
+  async list(options: { taskName?: string; limit?: number } = {}): Promise<TaskExecution[]> {
+    let query = this.supabase
+      .from('task_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(options.limit || MAX_STORED_RUNS);
+
+    if (options.taskName) {
+      query = query.eq('task_name', options.taskName);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load task runs: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => this.fromRow(row));
+  }
+
+  async getLastFire(taskName: string): Promise<Date | undefined> {
+    const { data, error } = await this.supabase
+      .from('task_fire_times')
+      .select('last_fired_at')
+      .eq('task_name', taskName)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load last fire time: ${error.message}`);
+    }
+
+    return data ? new Date(data.last_fired_at) : undefined;
+  }
+
+  async saveLastFire(taskName: string, firedAt: Date): Promise<void> {
+    const { error } = await this.supabase
+      .from('task_fire_times')
+      .upsert({ task_name: taskName, last_fired_at: firedAt.toISOString() });
+
+    if (error) {
+      throw new Error(`Failed to save last fire time: ${error.message}`);
+    }
+  }
+
+  private fromRow(row: any): TaskExecution {
+    return fromRecord({
+      executionId: row.id,
+      taskName: row.task_name,
+      startTime: row.started_at,
+      endTime: row.ended_at ?? undefined,
+      status: row.status,
+      error: row.error ?? undefined,
+      retryCount: row.retry_count,
+      attempts: row.attempts || [],
+      nextRetryAt: row.next_retry_at ?? undefined,
+      trigger: row.trigger ?? undefined,
+      scheduledFor: row.scheduled_for ?? undefined
+    });
+  }
+}
+
+/**
+ * Create the store selected by TASK_RUN_STORE (memory | file | supabase, default file)
+ */
+export function createTaskRunStore(type?: string): TaskRunStore {
+  return createStore<TaskRunStore>('TASK_RUN_STORE', type, {
+    memory: () => new MemoryTaskRunStore(),
+    file: () => new FileTaskRunStore(),
+    supabase: () => new SupabaseTaskRunStore()
+  });
+}
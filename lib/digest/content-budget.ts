@@ -0,0 +1,222 @@
+// lib/digest/content-budget.ts
+
+export type ContentPlatform = 'twitter' | 'telegram' | 'rss';
+
+export interface ContentBudget {
+  maxItems?: number;                                          // total items sent to the model (default: no limit)
+  maxTokens?: number;                                         // rough prompt budget for the content section (default: no limit)
+  platformQuotas: Partial<Record<ContentPlatform, number>>;   // max items per platform
+  weights: {
+    quality: number;
+    engagement: number;
+    freshness: number;
+  };
+}
+
+// No item or token cap unless one is configured - large runs go to map-reduce analysis instead
+export const DEFAULT_CONTENT_BUDGET: ContentBudget = {
+  platformQuotas: {},
+  weights: {
+    quality: 0.45,
+    engagement: 0.3,
+    freshness: 0.25
+  }
+};
+
+export interface PlatformAllocation {
+  available: number;
+  selected: number;
+  estimatedTokens: number;
+}
+
+export interface BudgetAllocation {
+  tweets: any[];
+  telegramMessages: any[];
+  rssArticles: any[];
+  report: {
+    available: number;
+    selected: number;
+    estimatedTokens: number;
+    droppedForQuota: number;
+    droppedForTokens: number;
+    droppedForLimit: number;
+    platforms: Record<ContentPlatform, PlatformAllocation>;
+  };
+}
+
+interface Candidate {
+  platform: ContentPlatform;
+  item: any;
+  score: number;
+  tokens: number;
+}
+
+// Per-item prompt overhead for the labels AIService adds (author, date, URL, signals...)
+const ITEM_OVERHEAD_TOKENS = 60;
+// AIService truncates article bodies to this many characters
+const MAX_ARTICLE_CONTENT_CHARS = 1000;
+
+/**
+ * Rough token count (~4 characters per token) of an item as AIService renders it
+ */
+export function estimateItemTokens(platform: ContentPlatform, item: any): number {
+  let text: string;
+  if (platform === 'rss') {
+    const content = (item.content || '').substring(0, MAX_ARTICLE_CONTENT_CHARS);
+    text = [item.title, item.description, content].filter(Boolean).join(' ');
+  } else {
+    text = item.text || '';
+  }
+  return Math.ceil(text.length / 4) + ITEM_OVERHEAD_TOKENS;
+}
+
+/**
+ * Picks the items worth sending to the model when more content was collected
+ * than fits in the prompt. Items from all platforms compete on one score
+ * (quality, engagement and freshness) within the configured item limit,
+ * per-platform quotas and token budget (each optional).
+ */
+export class ContentBudgetAllocator {
+  private budget: ContentBudget;
+  private maxContentAgeMs: number;
+
+  constructor(budget: Partial<ContentBudget> = {}, maxContentAgeHours: number = 24) {
+    this.budget = {
+      ...DEFAULT_CONTENT_BUDGET,
+      ...budget,
+      platformQuotas: { ...DEFAULT_CONTENT_BUDGET.platformQuotas, ...budget.platformQuotas },
+      weights: { ...DEFAULT_CONTENT_BUDGET.weights, ...budget.weights }
+    };
+    this.maxContentAgeMs = Math.max(1, maxContentAgeHours) * 60 * 60 * 1000;
+  }
+
+  getBudget(): ContentBudget {
+    return this.budget;
+  }
+
+  /**
+   * Select items within the budget. Each platform's selection keeps score order.
+   */
+  allocate(tweets: any[], telegramMessages: any[], rssArticles: any[]): BudgetAllocation {
+    const candidates = [
+      ...this.scorePlatform('twitter', tweets),
+      ...this.scorePlatform('telegram', telegramMessages),
+      ...this.scorePlatform('rss', rssArticles)
+    ].sort((a, b) => b.score - a.score);
+
+    const selected: Record<ContentPlatform, any[]> = { twitter: [], telegram: [], rss: [] };
+    const platforms: Record<ContentPlatform, PlatformAllocation> = {
+      twitter: { available: tweets.length, selected: 0, estimatedTokens: 0 },
+      telegram: { available: telegramMessages.length, selected: 0, estimatedTokens: 0 },
+      rss: { available: rssArticles.length, selected: 0, estimatedTokens: 0 }
+    };
+
+    let estimatedTokens = 0;
+    let droppedForQuota = 0;
+    let droppedForTokens = 0;
+    let droppedForLimit = 0;
+
+    for (const candidate of candidates) {
+      const platform = platforms[candidate.platform];
+      const quota = this.budget.platformQuotas[candidate.platform];
+
+      if (this.budget.maxItems !== undefined && this.selectedCount(platforms) >= this.budget.maxItems) {
+        droppedForLimit++;
+        continue;
+      }
+      if (quota !== undefined && platform.selected >= quota) {
+        droppedForQuota++;
+        continue;
+      }
+      if (this.budget.maxTokens !== undefined && estimatedTokens + candidate.tokens > this.budget.maxTokens) {
+        // A shorter item further down may still fit
+        droppedForTokens++;
+        continue;
+      }
+
+      selected[candidate.platform].push(candidate.item);
+      platform.selected++;
+      platform.estimatedTokens += candidate.tokens;
+      estimatedTokens += candidate.tokens;
+    }
+
+    return {
+      tweets: selected.twitter,
+      telegramMessages: selected.telegram,
+      rssArticles: selected.rss,
+      report: {
+        available: candidates.length,
+        selected: this.selectedCount(platforms),
+        estimatedTokens,
+        droppedForQuota,
+        droppedForTokens,
+        droppedForLimit,
+        platforms
+      }
+    };
+  }
+
+  /**
+   * Rough token count (~4 characters per token) of an item as AIService renders it
+   */
+  estimateTokens(platform: ContentPlatform, item: any): number {
+    return estimateItemTokens(platform, item);
+  }
+
+  private scorePlatform(platform: ContentPlatform, items: any[]): Candidate[] {
+    // Engagement is only comparable within a platform, so normalize against its best item
+    const engagement = items.map(item => Math.log1p(Math.max(0, this.engagementOf(platform, item))));
+    const maxEngagement = Math.max(0, ...engagement);
+    const { weights } = this.budget;
+
+    return items.map((item, index) => {
+      const quality = this.clamp(item.quality_score ?? 0);
+      const normalizedEngagement = maxEngagement > 0 ? engagement[index] / maxEngagement : quality;
+      const freshness = this.freshnessOf(platform, item);
+
+      let score = weights.quality * quality + weights.engagement * normalizedEngagement + weights.freshness * freshness;
+
+      // Topic-focused runs (see TopicFilter) keep relevance in the ranking
+      if (typeof item.topic_relevance === 'number') {
+        score = score * 0.6 + item.topic_relevance * 0.4;
+      }
+
+      return { platform, item, score, tokens: this.estimateTokens(platform, item) };
+    });
+  }
+
+  private engagementOf(platform: ContentPlatform, item: any): number {
+    switch (platform) {
+      case 'twitter':
+        return item.engagement_score ?? 0;
+      case 'telegram':
+        return (item.views ?? 0) + 10 * (item.forwards ?? 0);
+      case 'rss':
+        return 0; // feeds carry no engagement signal
+    }
+  }
+
+  /**
+   * 1 for brand-new items, falling linearly to 0 at the max content age
+   */
+  private freshnessOf(platform: ContentPlatform, item: any): number {
+    const dateValue = platform === 'twitter'
+      ? item.created_at
+      : platform === 'telegram'
+        ? item.message_date
+        : item.published_at || item.fetched_at;
+
+    const timestamp = new Date(dateValue).getTime();
+    if (isNaN(timestamp)) return 0;
+
+    return this.clamp(1 - (Date.now() - timestamp) / this.maxContentAgeMs);
+  }
+
+  private selectedCount(platforms: Record<ContentPlatform, PlatformAllocation>): number {
+    return platforms.twitter.selected + platforms.telegram.selected + platforms.rss.selected;
+  }
+
+  private clamp(value: number): number {
+    return Math.min(1, Math.max(0, value || 0));
+  }
+}
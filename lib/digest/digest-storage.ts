@@ -14,6 +14,7 @@ export interface DigestData {
   token_usage: any;
   data_from: string;
   data_to: string;
+  focus_topics?: string[]; // set for topic-focused digests
   published_to_slack: boolean;
   created_at: string;
   updated_at: string;
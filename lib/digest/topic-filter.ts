@@ -0,0 +1,149 @@
+// lib/digest/topic-filter.ts
+
+/**
+ * Related terms for common focus topics, so "AI" also matches posts about
+ * LLMs or OpenAI. Topics not listed here match on their own words only.
+ */
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  ai: ['artificial intelligence', 'machine learning', 'deep learning', 'llm', 'llms', 'gpt', 'chatgpt', 'openai', 'anthropic', 'claude', 'gemini', 'neural network', 'generative ai', 'genai', 'agi', 'ai agent', 'ai agents'],
+  crypto: ['cryptocurrency', 'cryptocurrencies', 'bitcoin', 'btc', 'ethereum', 'eth', 'solana', 'blockchain', 'defi', 'stablecoin', 'stablecoins', 'altcoin', 'altcoins', 'web3', 'nft', 'nfts', 'memecoin', 'memecoins'],
+  defi: ['decentralized finance', 'dex', 'liquidity pool', 'yield', 'lending protocol', 'uniswap', 'aave'],
+  tech: ['technology', 'software', 'startup', 'startups', 'silicon valley', 'big tech', 'saas', 'cloud', 'semiconductor', 'semiconductors'],
+  finance: ['markets', 'stocks', 'equities', 'bonds', 'interest rates', 'fed', 'inflation', 'earnings', 'investors', 'wall street'],
+  regulation: ['sec', 'regulator', 'regulators', 'regulatory', 'legislation', 'lawmakers', 'compliance', 'lawsuit', 'policy'],
+  security: ['cybersecurity', 'hack', 'hacked', 'exploit', 'vulnerability', 'breach', 'malware', 'ransomware'],
+};
+
+const TOPIC_ALIASES: Record<string, string> = {
+  'artificial intelligence': 'ai',
+  'machine learning': 'ai',
+  'cryptocurrency': 'crypto',
+  'cryptocurrencies': 'crypto',
+  'technology': 'tech',
+  'cybersecurity': 'security',
+};
+
+export interface TopicMatch {
+  relevance: number;        // 0-1
+  matchedTopics: string[];
+}
+
+export interface RankedItem<T> {
+  item: T;
+  relevance: number;
+  matchedTopics: string[];
+}
+
+interface TopicMatcher {
+  topic: string;
+  patterns: RegExp[];
+}
+
+/**
+ * Scores content against a set of focus topics and narrows collected items
+ * down to the ones that are about them.
+ */
+export class TopicFilter {
+  private topics: string[];
+  private matchers: TopicMatcher[];
+
+  constructor(topics: string[]) {
+    this.topics = TopicFilter.normalizeTopics(topics);
+    this.matchers = this.topics.map(topic => ({
+      topic,
+      patterns: this.expandTopic(topic).map(term => this.termPattern(term))
+    }));
+  }
+
+  /**
+   * Trim, de-duplicate (case-insensitively) and drop empty topics
+   */
+  static normalizeTopics(topics: string[] = []): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+
+    for (const topic of topics) {
+      const trimmed = topic?.trim();
+      if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+      seen.add(trimmed.toLowerCase());
+      result.push(trimmed);
+    }
+
+    return result;
+  }
+
+  getTopics(): string[] {
+    return [...this.topics];
+  }
+
+  isActive(): boolean {
+    return this.matchers.length > 0;
+  }
+
+  /**
+   * How relevant a piece of text is to the focus topics.
+   * Matching more of the topics and mentioning them more often both count.
+   */
+  score(text: string): TopicMatch {
+    if (!text || !this.isActive()) {
+      return { relevance: 0, matchedTopics: [] };
+    }
+
+    const matchedTopics: string[] = [];
+    let hits = 0;
+
+    for (const matcher of this.matchers) {
+      let topicHits = 0;
+      for (const pattern of matcher.patterns) {
+        topicHits += text.match(pattern)?.length || 0;
+      }
+      if (topicHits > 0) {
+        matchedTopics.push(matcher.topic);
+        hits += topicHits;
+      }
+    }
+
+    if (matchedTopics.length === 0) {
+      return { relevance: 0, matchedTopics };
+    }
+
+    // Any match is worth 0.5; coverage of the topics and repeated mentions add the rest
+    const coverage = matchedTopics.length / this.matchers.length;
+    const density = Math.min(hits, 5) / 5;
+    const relevance = 0.5 + 0.3 * coverage + 0.2 * density;
+
+    return { relevance: Math.round(relevance * 100) / 100, matchedTopics };
+  }
+
+  /**
+   * Keep only items that match a focus topic, ordered by relevance blended
+   * with the item's own quality score (0-1).
+   */
+  filterAndRank<T>(items: T[], getText: (item: T) => string, getQuality: (item: T) => number): RankedItem<T>[] {
+    if (!this.isActive()) {
+      return items.map(item => ({ item, relevance: 0, matchedTopics: [] }));
+    }
+
+    const rankScore = (entry: RankedItem<T>) => entry.relevance * 0.7 + (getQuality(entry.item) || 0) * 0.3;
+
+    return items
+      .map(item => ({ item, ...this.score(getText(item)) }))
+      .filter(entry => entry.relevance > 0)
+      .sort((a, b) => rankScore(b) - rankScore(a));
+  }
+
+  private expandTopic(topic: string): string[] {
+    const key = topic.toLowerCase();
+    const canonical = TOPIC_ALIASES[key] || key;
+    return Array.from(new Set([key, canonical, ...(TOPIC_KEYWORDS[canonical] || [])]));
+  }
+
+  /**
+   * Whole-word, case-insensitive pattern (optionally as $TICKER or #hashtag).
+   * Short terms like "ai" or "eth" would otherwise match inside "said" or "method".
+   */
+  private termPattern(term: string): RegExp {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return new RegExp(`(?<![\\w$#])[$#]?${escaped}(?!\\w)`, 'gi');
+  }
+}
@@ -8,6 +8,7 @@ import { getRssFeedConfig } from '../../config/data-sources-config';
 import { envConfig } from '../../config/environment';
 import logger from '../logger';
 import { ProgressTracker } from '../../utils/progress';
+import { sleep } from '../../utils/abort';
 import crypto from 'crypto';
 
 interface RSSParseOptions {
@@ -15,6 +16,7 @@ interface RSSParseOptions {
   extractFullContent?: boolean;
   includeOldArticles?: boolean;
   sinceDate?: Date;
+  signal?: AbortSignal; // stops the feed and article requests
 }
 
 export class RSSProcessor {
@@ -56,7 +58,7 @@ export class RSSProcessor {
     try {
       // Step 1: Fetch RSS XML
       progress.update(1, { step: 'Fetching RSS XML' });
-      const xmlContent = await this.fetchFeedXML(feedUrl);
+      const xmlContent = await this.fetchFeedXML(feedUrl, options.signal);
 
       // Step 2: Parse RSS structure
       progress.update(2, { step: 'Parsing RSS structure' });
@@ -80,7 +82,8 @@ export class RSSProcessor {
       progress.update(3, { step: 'Extracting full content' });
       
       if (options.extractFullContent !== false) {
-        await this.extractFullContent(filteredArticles, result.errors);
+        await this.extractFullContent(filteredArticles, result.errors, options.signal);
+        options.signal?.throwIfAborted();
         result.successful_extractions = filteredArticles.filter(a => a.content_extracted).length;
       }
 
@@ -112,7 +115,7 @@ export class RSSProcessor {
   /**
    * Fetch RSS XML from URL
    */
-  private async fetchFeedXML(feedUrl: string): Promise<string> {
+  private async fetchFeedXML(feedUrl: string, signal?: AbortSignal): Promise<string> {
     try {
       const response = await fetch(feedUrl, {
         headers: {
@@ -120,7 +123,8 @@ export class RSSProcessor {
           'Accept': 'application/rss+xml, application/xml, text/xml, */*',
           'Accept-Encoding': 'gzip, deflate',
         },
-        timeout: envConfig.apiTimeouts.rss
+        timeout: envConfig.apiTimeouts.rss,
+        signal
       });
 
       if (!response.ok) {
@@ -308,10 +312,10 @@ export class RSSProcessor {
   /**
    * Extract full content from article URLs
    */
-  private async extractFullContent(articles: RSSArticle[], errors: string[]): Promise<void> {
+  private async extractFullContent(articles: RSSArticle[], errors: string[], signal?: AbortSignal): Promise<void> {
     const extractionPromises = articles
       .filter(article => !article.content_extracted && article.link)
-      .map(article => this.extractSingleArticle(article, errors));
+      .map(article => this.extractSingleArticle(article, errors, signal));
 
     await Promise.allSettled(extractionPromises);
   }
@@ -319,11 +323,12 @@ export class RSSProcessor {
   /**
    * Extract content from a single article URL
    */
-  private async extractSingleArticle(article: RSSArticle, errors: string[]): Promise<void> {
+  private async extractSingleArticle(article: RSSArticle, errors: string[], signal?: AbortSignal): Promise<void> {
     try {
       const response = await fetch(article.link, {
         headers: { 'User-Agent': this.userAgent },
-        timeout: 10000 // 10 second timeout per article
+        timeout: 10000, // 10 second timeout per article
+        signal
       });
 
       if (!response.ok) {
@@ -340,9 +345,10 @@ export class RSSProcessor {
       }
 
       // Add small delay to be respectful
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await sleep(1000, signal);
 
     } catch (error: any) {
+      if (signal?.aborted) return;
       errors.push(`Failed to extract content from ${article.link}: ${error.message}`);
       logger.debug(`Content extraction failed for ${article.link}`, error);
     }
@@ -2,6 +2,7 @@
 
 import { WebClient } from '@slack/web-api';
 import logger from '../logger';
+import { abortable } from '../../utils/abort';
 
 export interface SlackDigestData {
   title: string;
@@ -25,18 +26,18 @@ export class SlackClient {
   }
 
   /**
-   * Post digest to Slack channel
+   * Post digest to Slack channel. Aborting `signal` stops waiting for Slack.
    */
-  async postDigest(digestData: SlackDigestData, channelId?: string): Promise<void> {
+  async postDigest(digestData: SlackDigestData, channelId?: string, signal?: AbortSignal): Promise<void> {
     try {
       const channel = channelId || this.defaultChannel;
       const blocks = this.buildDigestBlocks(digestData);
 
-      const result = await this.client.chat.postMessage({
+      const result = await abortable(this.client.chat.postMessage({
         channel: channel,
         text: `New Digest: ${digestData.title}`,
         blocks: blocks
-      });
+      }), signal);
 
       logger.info('Digest posted to Slack', {
         digest_id: digestData.metadata.digest_id,
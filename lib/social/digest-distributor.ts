@@ -36,21 +36,24 @@ export class DigestDistributor {
   }
 
   /**
-   * Distribute digest to configured platforms
+   * Distribute digest to configured platforms. Aborting `signal` stops
+   * posting; platforms not reached yet are skipped.
    */
   async distributeDigest(
     digestData: any, 
     config: DistributionConfig = {
       enableTwitter: true,
       tweetFormat: 'thread',
-    }
+    },
+    signal?: AbortSignal
   ): Promise<DistributionResult[]> {
     
     const results: DistributionResult[] = [];
 
     if (config.enableTwitter) {
+      signal?.throwIfAborted();
       try {
-        const twitterResult = await this.distributeToTwitter(digestData, config);
+        const twitterResult = await this.distributeToTwitter(digestData, config, signal);
         results.push(twitterResult);
         
         // Store result in database for tracking
@@ -73,7 +76,7 @@ export class DigestDistributor {
   /**
    * Distribute to Twitter
    */
-  private async distributeToTwitter(digestData: any, config: DistributionConfig): Promise<DistributionResult> {
+  private async distributeToTwitter(digestData: any, config: DistributionConfig, signal?: AbortSignal): Promise<DistributionResult> {
     if (!this.twitterClient.canPost()) {
       return {
         platform: 'twitter',
@@ -88,9 +91,9 @@ export class DigestDistributor {
     let result: TweetResult;
     
     if (config.tweetFormat === 'thread') {
-      result = await this.twitterClient.postDigestThread(digestTweet);
+      result = await this.twitterClient.postDigestThread(digestTweet, signal);
     } else {
-      result = await this.twitterClient.postDigestSummary(digestTweet);
+      result = await this.twitterClient.postDigestSummary(digestTweet, signal);
     }
 
     return {
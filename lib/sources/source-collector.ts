@@ -0,0 +1,298 @@
+// lib/sources/source-collector.ts
+
+import { TwitterClient } from '../twitter/twitter-client';
+import { TwitterCache } from '../twitter/twitter-cache';
+import { TelegramScraper } from '../telegram/telegram-scraper';
+import { TelegramCache } from '../telegram/telegram-cache';
+import { RSSProcessor } from '../rss/rss-processor';
+import { RSSCache } from '../rss/rss-cache';
+import { AutomationConfig } from '../automation/config-manager';
+import { ContentPlatform } from '../digest/content-budget';
+import { sleep } from '../../utils/abort';
+import logger from '../logger';
+
+export type SourceCollectionStatus = 'fetched' | 'cached' | 'failed' | 'skipped';
+
+export interface SourceCollectionResult {
+  platform: ContentPlatform;
+  source: string;
+  status: SourceCollectionStatus;
+  items: number;
+  durationMs: number; // excludes waiting for the platform's start spacing
+  error?: string;
+}
+
+export interface PlatformCollectionSummary {
+  sources: number;
+  fetched: number;
+  cached: number;
+  failed: number;
+  skipped: number;
+  items: number;
+  durationMs: number; // wall time for the whole platform
+  concurrency: number;
+}
+
+export interface CollectionReport {
+  startedAt: string;
+  durationMs: number;
+  items: number;
+  failed: number;
+  platforms: Record<ContentPlatform, PlatformCollectionSummary>;
+  sources: SourceCollectionResult[];
+}
+
+export interface CollectedContent {
+  tweets: any[];
+  telegramMessages: any[];
+  rssArticles: any[];
+  report: CollectionReport;
+}
+
+/**
+ * Clients for the platforms to collect; a missing platform is skipped
+ */
+export interface SourceCollectorClients {
+  twitter?: { client: TwitterClient; cache: TwitterCache };
+  telegram?: { scraper: TelegramScraper; cache: TelegramCache };
+  rss?: { processor: RSSProcessor; cache: RSSCache };
+}
+
+type DataSources = AutomationConfig['data_sources'];
+
+// Sources in flight per platform unless data_sources.<platform>.max_concurrency is set.
+// Twitter stays serial: all accounts share one API rate limit.
+export const DEFAULT_PLATFORM_CONCURRENCY: Record<ContentPlatform, number> = {
+  twitter: 1,
+  telegram: 2,
+  rss: 5
+};
+
+const PLATFORMS: ContentPlatform[] = ['twitter', 'telegram', 'rss'];
+
+interface PlatformPlan {
+  platform: ContentPlatform;
+  sources: string[];
+  concurrency: number;
+  startIntervalMs: number; // minimum gap between starting two fetches (cache hits aren't spaced)
+  readCache: (source: string) => Promise<any[] | undefined>; // undefined when stale
+  fetch: (source: string, signal: AbortSignal) => Promise<any[]>; // fetch and cache
+  haltReason?: (error: any) => string | undefined; // stop the platform's remaining sources
+}
+
+interface PlatformCollection {
+  items: any[];
+  results: SourceCollectionResult[];
+  summary: PlatformCollectionSummary;
+}
+
+/**
+ * Collects Twitter, Telegram and RSS sources for a digest run. Platforms run
+ * in parallel; within a platform, sources run up to its concurrency limit and
+ * starts are spaced by its configured delay. A failing source is recorded in
+ * the report and doesn't stop the others.
+ */
+export class SourceCollector {
+  private clients: SourceCollectorClients;
+
+  constructor(clients: SourceCollectorClients) {
+    this.clients = clients;
+  }
+
+  /**
+   * Collect every enabled source. Aborting `signal` rejects with its reason.
+   */
+  async collect(dataSources: DataSources, signal: AbortSignal = new AbortController().signal): Promise<CollectedContent> {
+    const startedAt = new Date();
+    const plans = this.plan(dataSources);
+
+    const [twitter, telegram, rss] = await Promise.all(
+      PLATFORMS.map(platform => this.collectPlatform(platform, plans[platform], signal))
+    );
+    signal.throwIfAborted();
+
+    const sources = [...twitter.results, ...telegram.results, ...rss.results];
+    const report: CollectionReport = {
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      items: twitter.items.length + telegram.items.length + rss.items.length,
+      failed: sources.filter(result => result.status === 'failed').length,
+      platforms: {
+        twitter: twitter.summary,
+        telegram: telegram.summary,
+        rss: rss.summary
+      },
+      sources
+    };
+
+    logger.info(`Collected ${report.items} items from ${sources.length} sources in ${report.durationMs}ms`, {
+      platforms: report.platforms,
+      failures: sources
+        .filter(result => result.status === 'failed' || result.status === 'skipped')
+        .map(result => `${result.platform}:${result.source} (${result.status}): ${result.error}`)
+    });
+
+    return {
+      tweets: twitter.items,
+      telegramMessages: telegram.items,
+      rssArticles: rss.items,
+      report
+    };
+  }
+
+  /**
+   * How each enabled platform is collected, from the current data source config
+   */
+  private plan(dataSources: DataSources): Partial<Record<ContentPlatform, PlatformPlan>> {
+    const plans: Partial<Record<ContentPlatform, PlatformPlan>> = {};
+    const { twitter, telegram, rss } = this.clients;
+
+    if (twitter && dataSources.twitter.enabled) {
+      plans.twitter = {
+        platform: 'twitter',
+        sources: [...dataSources.twitter.accounts],
+        concurrency: dataSources.twitter.max_concurrency || DEFAULT_PLATFORM_CONCURRENCY.twitter,
+        startIntervalMs: dataSources.twitter.request_spacing_ms || 0,
+        readCache: async username => await twitter.cache.isCacheFresh(username)
+          ? twitter.cache.getCachedTweets(username)
+          : undefined,
+        fetch: async (username, signal) => {
+          const tweets = await twitter.client.fetchUserTweets(username, signal);
+          await twitter.cache.storeTweets(tweets);
+          return tweets;
+        },
+        // Further accounts would only hit the same exhausted limit
+        haltReason: error => isRateLimitError(error) ? 'Twitter rate limit reached' : undefined
+      };
+    }
+
+    if (telegram && dataSources.telegram.enabled) {
+      plans.telegram = {
+        platform: 'telegram',
+        sources: [...dataSources.telegram.channels],
+        concurrency: dataSources.telegram.max_concurrency || DEFAULT_PLATFORM_CONCURRENCY.telegram,
+        startIntervalMs: dataSources.telegram.scraping_delay_ms,
+        readCache: async channel => await telegram.cache.isCacheFresh(channel)
+          ? telegram.cache.getCachedMessages(channel)
+          : undefined,
+        fetch: async (channel, signal) => {
+          const result = await telegram.scraper.scrapeChannel(channel, { signal });
+          await telegram.cache.storeMessages(result.messages);
+          return result.messages;
+        }
+      };
+    }
+
+    if (rss && dataSources.rss.enabled) {
+      plans.rss = {
+        platform: 'rss',
+        sources: [...dataSources.rss.feeds],
+        concurrency: dataSources.rss.max_concurrency || DEFAULT_PLATFORM_CONCURRENCY.rss,
+        startIntervalMs: 0,
+        readCache: async feedUrl => await rss.cache.isCacheFresh(feedUrl)
+          ? rss.cache.getCachedArticles(feedUrl)
+          : undefined,
+        fetch: async (feedUrl, signal) => {
+          const result = await rss.processor.processFeed(feedUrl, { signal });
+          await rss.cache.storeArticles(result.articles);
+          return result.articles;
+        }
+      };
+    }
+
+    return plans;
+  }
+
+  /**
+   * Run one platform's sources through a pool of `concurrency` workers
+   */
+  private async collectPlatform(
+    platform: ContentPlatform,
+    plan: PlatformPlan | undefined,
+    signal: AbortSignal
+  ): Promise<PlatformCollection> {
+    const startTime = Date.now();
+    if (!plan || plan.sources.length === 0) {
+      return { items: [], results: [], summary: summarize([], 0, plan?.concurrency || 0) };
+    }
+
+    const items: any[][] = plan.sources.map(() => []);
+    const results: SourceCollectionResult[] = new Array(plan.sources.length);
+    let next = 0;
+    let nextStartAt = 0;
+    let haltReason: string | undefined;
+
+    const worker = async () => {
+      while (next < plan.sources.length) {
+        const index = next++;
+        const source = plan.sources[index];
+
+        if (haltReason) {
+          results[index] = { platform, source, status: 'skipped', items: 0, durationMs: 0, error: haltReason };
+          continue;
+        }
+
+        let sourceStart = Date.now();
+        try {
+          let collected = await plan.readCache(source);
+          const cached = collected !== undefined;
+
+          if (!collected) {
+            // Reserve a start slot before waiting, so workers keep the spacing between them
+            const startAt = Math.max(Date.now(), nextStartAt);
+            nextStartAt = startAt + plan.startIntervalMs;
+            await sleep(startAt - Date.now(), signal);
+
+            sourceStart = Date.now();
+            collected = await plan.fetch(source, signal);
+          }
+
+          items[index] = collected;
+          results[index] = {
+            platform,
+            source,
+            status: cached ? 'cached' : 'fetched',
+            items: collected.length,
+            durationMs: Date.now() - sourceStart
+          };
+          logger.debug(`${cached ? 'Used cached' : 'Fetched'} ${platform} source ${source}: ${collected.length} items`);
+        } catch (error: any) {
+          signal.throwIfAborted();
+
+          const message = error?.message || String(error);
+          results[index] = { platform, source, status: 'failed', items: 0, durationMs: Date.now() - sourceStart, error: message };
+          logger.error(`Failed to collect ${platform} source ${source}`, { error: message });
+
+          haltReason = haltReason || plan.haltReason?.(error);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(plan.concurrency, plan.sources.length) }, worker));
+
+    return {
+      items: items.flat(),
+      results,
+      summary: summarize(results, Date.now() - startTime, plan.concurrency)
+    };
+  }
+}
+
+function summarize(results: SourceCollectionResult[], durationMs: number, concurrency: number): PlatformCollectionSummary {
+  const count = (status: SourceCollectionStatus) => results.filter(result => result.status === status).length;
+
+  return {
+    sources: results.length,
+    fetched: count('fetched'),
+    cached: count('cached'),
+    failed: count('failed'),
+    skipped: count('skipped'),
+    items: results.reduce((sum, result) => sum + result.items, 0),
+    durationMs,
+    concurrency
+  };
+}
+
+function isRateLimitError(error: any): boolean {
+  return error?.code === 429 || !!error?.rateLimitError || /rate limit/i.test(error?.message || '');
+}
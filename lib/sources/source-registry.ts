@@ -0,0 +1,457 @@
+// lib/sources/source-registry.ts
+
+import { sourceStore } from '../../config/data-sources-config';
+import {
+  SourceStore,
+  SourceType,
+  normalizeSourceIdentifier,
+  validateSourceOverrides
+} from '../../config/source-store';
+import { Source } from '../../types/database';
+import { AutomationConfig, configManager } from '../automation/config-manager';
+import { SupabaseBackedStore } from '../storage/store-factory';
+import logger from '../logger';
+
+export type { SourceType } from '../../config/source-store';
+
+/**
+ * A row of the `sources` table with its identifier resolved
+ */
+export interface RegisteredSource extends Pick<Source, 'name' | 'is_active' | 'config' | 'created_at' | 'updated_at'> {
+  id: string;
+  type: SourceType;
+  identifier: string; // username for twitter/telegram, feed URL for rss
+}
+
+export interface SourceInput {
+  type: SourceType;
+  identifier: string; // username for twitter/telegram, feed URL for rss
+  name?: string;
+  isActive?: boolean;
+  config?: Record<string, any>;
+}
+
+export interface SourceListFilter {
+  type?: SourceType;
+  activeOnly?: boolean;
+}
+
+export interface ActiveSourceIdentifiers {
+  twitter: string[];
+  telegram: string[];
+  rss: string[];
+}
+
+type DataSources = AutomationConfig['data_sources'];
+
+const SOURCE_TYPES: SourceType[] = ['twitter', 'telegram', 'rss'];
+
+// Every row has a url (profile URL for Twitter/Telegram), unique per type - see schema.sql
+const SOURCE_CONFLICT_COLUMNS = 'type,url';
+const UNIQUE_VIOLATION = '23505';
+
+function configuredIdentifiers(dataSources: DataSources, type: SourceType): string[] {
+  const identifiers = type === 'twitter'
+    ? dataSources.twitter.accounts
+    : type === 'telegram' ? dataSources.telegram.channels : dataSources.rss.feeds;
+  return identifiers.map(identifier => normalizeSourceIdentifier(type, identifier));
+}
+
+/**
+ * Single source of truth for data sources, backed by the `sources` table
+ * (shared by the app and the daemon). An empty table is seeded from the
+ * automation config.
+ *
+ * The table wins over the source lists in the automation config: every
+ * registry change rewrites those lists, and edits to them are imported with
+ * importAutomationConfigEdits (added = add or enable, removed = disable).
+ * Each source's `config` overrides are cached in the SourceStore for the
+ * per-source config getters.
+ */
+export class SourceRegistry extends SupabaseBackedStore {
+  private store: SourceStore;
+  private seeded = false;
+
+  constructor(store: SourceStore = sourceStore) {
+    super();
+    this.store = store;
+  }
+
+  /**
+   * List sources, optionally filtered by type and active state
+   */
+  async list(filter: SourceListFilter = {}): Promise<RegisteredSource[]> {
+    await this.ensureSeeded();
+
+    let query = this.supabase
+      .from('sources')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (filter.type) {
+      query = query.eq('type', filter.type);
+    }
+    if (filter.activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list sources: ${error.message}`);
+    }
+
+    return (data || []).map((row: Source) => this.toRegistered(row));
+  }
+
+  /**
+   * Get a single source by type and identifier
+   */
+  async get(type: SourceType, identifier: string): Promise<RegisteredSource | null> {
+    await this.ensureSeeded();
+
+    const normalized = normalizeSourceIdentifier(type, identifier);
+    const { data, error } = await this.supabase
+      .from('sources')
+      .select('*')
+      .eq('type', type)
+      .eq(this.identifierColumn(type), normalized)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load ${this.describe(type, normalized)}: ${error.message}`);
+    }
+
+    return data ? this.toRegistered(data) : null;
+  }
+
+  /**
+   * Add a new source (the table's unique indexes reject one that already exists)
+   */
+  async add(input: SourceInput): Promise<RegisteredSource> {
+    const identifier = normalizeSourceIdentifier(input.type, input.identifier);
+    const config = validateSourceOverrides(input.type, input.config || {});
+    await this.ensureSeeded();
+
+    const added = await this.insertRow({
+      ...this.buildRow(input.type, identifier),
+      name: input.name || this.describe(input.type, identifier),
+      is_active: input.isActive ?? true,
+      config
+    });
+
+    logger.info('Source added to registry', { type: input.type, identifier });
+    await this.syncToAutomationConfig();
+
+    return added;
+  }
+
+  /**
+   * Remove a source, returning the deleted entry so callers can restore it
+   */
+  async remove(type: SourceType, identifier: string): Promise<RegisteredSource> {
+    const existing = await this.requireSource(type, identifier);
+
+    const { error } = await this.supabase
+      .from('sources')
+      .delete()
+      .eq('id', existing.id);
+
+    if (error) {
+      throw new Error(`Failed to remove ${this.describe(type, existing.identifier)}: ${error.message}`);
+    }
+
+    this.store.cacheRegistryOverrides(type, existing.identifier, undefined);
+    logger.info('Source removed from registry', { type, identifier: existing.identifier });
+    await this.syncToAutomationConfig();
+
+    return existing;
+  }
+
+  /**
+   * Put back a previously removed source exactly as it was (used by rollbacks)
+   */
+  async restore(source: RegisteredSource): Promise<RegisteredSource> {
+    const config = validateSourceOverrides(source.type, source.config || {});
+    const existing = await this.get(source.type, source.identifier);
+    const values = { name: source.name, is_active: source.is_active, config };
+
+    const restored = existing
+      ? await this.updateRow(existing.id, values)
+      : await this.insertRow({
+          ...this.buildRow(source.type, normalizeSourceIdentifier(source.type, source.identifier)),
+          ...values,
+          created_at: source.created_at
+        });
+
+    logger.info('Source restored in registry', { type: source.type, identifier: restored.identifier });
+    await this.syncToAutomationConfig();
+
+    return restored;
+  }
+
+  /**
+   * Enable or disable a source without deleting it
+   */
+  async setActive(type: SourceType, identifier: string, isActive: boolean): Promise<RegisteredSource> {
+    const existing = await this.requireSource(type, identifier);
+    const updated = await this.updateRow(existing.id, { is_active: isActive });
+
+    logger.info(`Source ${isActive ? 'enabled' : 'disabled'}`, { type, identifier: updated.identifier });
+    await this.syncToAutomationConfig();
+
+    return updated;
+  }
+
+  /**
+   * Merge per-source overrides into the source's config (null values remove a key)
+   */
+  async updateOverrides(type: SourceType, identifier: string, overrides: Record<string, any>): Promise<RegisteredSource> {
+    const existing = await this.requireSource(type, identifier);
+
+    const config: Record<string, any> = { ...existing.config };
+    for (const [key, value] of Object.entries(overrides)) {
+      if (value === null || value === undefined) {
+        delete config[key];
+      } else {
+        config[key] = value;
+      }
+    }
+
+    const updated = await this.updateRow(existing.id, { config: validateSourceOverrides(type, config) });
+    logger.info('Source overrides updated', { type, identifier: updated.identifier, overrides });
+
+    return updated;
+  }
+
+  /**
+   * Get identifiers of all active sources grouped by type
+   */
+  async getActiveIdentifiers(): Promise<ActiveSourceIdentifiers> {
+    const sources = await this.list({ activeOnly: true });
+    const identifiers: ActiveSourceIdentifiers = { twitter: [], telegram: [], rss: [] };
+
+    for (const source of sources) {
+      identifiers[source.type].push(source.identifier);
+    }
+
+    return identifiers;
+  }
+
+  /**
+   * Apply edits made to the source lists of the automation config: sources
+   * added there are added (or re-enabled), sources removed there are disabled.
+   * The registry stays authoritative and the lists are rewritten from it.
+   */
+  async importAutomationConfigEdits(previous: DataSources, next: DataSources): Promise<void> {
+    try {
+      let changed = 0;
+
+      for (const type of SOURCE_TYPES) {
+        const before = new Set(configuredIdentifiers(previous, type));
+        const after = new Set(configuredIdentifiers(next, type));
+
+        for (const identifier of after) {
+          if (before.has(identifier)) continue;
+
+          const existing = await this.get(type, identifier);
+          if (!existing) {
+            changed += await this.insertMissing([this.buildNewRow(type, identifier)]);
+          } else if (!existing.is_active) {
+            await this.updateRow(existing.id, { is_active: true });
+            changed++;
+          }
+        }
+
+        for (const identifier of before) {
+          if (after.has(identifier)) continue;
+
+          const existing = await this.get(type, identifier);
+          if (existing?.is_active) {
+            await this.updateRow(existing.id, { is_active: false });
+            changed++;
+          }
+        }
+      }
+
+      if (changed > 0) {
+        logger.info(`Imported ${changed} source changes from automation config`);
+        await this.syncToAutomationConfig();
+      }
+    } catch (error: any) {
+      logger.warn('Failed to import source changes from automation config', { error: error.message });
+    }
+  }
+
+  private async requireSource(type: SourceType, identifier: string): Promise<RegisteredSource> {
+    const existing = await this.get(type, identifier);
+    if (!existing) {
+      throw new Error(`${this.describe(type, normalizeSourceIdentifier(type, identifier))} not found`);
+    }
+    return existing;
+  }
+
+  private async insertRow(row: Partial<Source> & Pick<Source, 'type'>): Promise<RegisteredSource> {
+    const { data, error } = await this.supabase
+      .from('sources')
+      .insert(row)
+      .select('*')
+      .single();
+
+    if (error) {
+      const identifier = (row.type === 'rss' ? row.url : row.username) || '';
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error(`${this.describe(row.type, identifier)} already exists`);
+      }
+      throw new Error(`Failed to add ${this.describe(row.type, identifier)}: ${error.message}`);
+    }
+
+    return this.toRegistered(data);
+  }
+
+  /**
+   * Insert the rows that don't exist yet (safe against other processes
+   * inserting the same sources), returning how many were inserted
+   */
+  private async insertMissing(rows: Partial<Source>[]): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('sources')
+      .upsert(rows, { onConflict: SOURCE_CONFLICT_COLUMNS, ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to add sources: ${error.message}`);
+    }
+
+    return (data || []).length;
+  }
+
+  private async updateRow(id: string, updates: Partial<Source>): Promise<RegisteredSource> {
+    const { data, error } = await this.supabase
+      .from('sources')
+      .update(updates)
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update source ${id}: ${error.message}`);
+    }
+
+    return this.toRegistered(data);
+  }
+
+  /**
+   * Map a table row to a registered source, caching its overrides for the config getters
+   */
+  private toRegistered(row: Source): RegisteredSource {
+    const identifier = (row.type === 'rss' ? row.url : row.username) || '';
+    const config = row.config || {};
+    this.store.cacheRegistryOverrides(row.type, identifier, config);
+
+    return {
+      id: row.id,
+      type: row.type,
+      identifier,
+      name: row.name,
+      is_active: row.is_active,
+      config,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  /**
+   * Seed an empty table from the automation config so existing setups keep
+   * their sources, and create the source defaults file on first use
+   */
+  private async ensureSeeded(): Promise<void> {
+    if (this.seeded) return;
+
+    await this.store.ensureCreated();
+
+    const { count, error } = await this.supabase
+      .from('sources')
+      .select('id', { count: 'exact', head: true });
+
+    if (error) {
+      throw new Error(`Failed to read sources table: ${error.message}`);
+    }
+
+    if (!count) {
+      const { data_sources } = configManager.getConfig();
+      const rows = [
+        ...data_sources.twitter.accounts.map(account => ({ type: 'twitter' as const, identifier: account })),
+        ...data_sources.telegram.channels.map(channel => ({ type: 'telegram' as const, identifier: channel })),
+        ...data_sources.rss.feeds.map(feed => ({ type: 'rss' as const, identifier: feed }))
+      ].map(({ type, identifier }) => this.buildNewRow(type, normalizeSourceIdentifier(type, identifier)));
+
+      // Another process may be seeding at the same time - its rows are kept
+      const inserted = rows.length > 0 ? await this.insertMissing(rows) : 0;
+      if (inserted > 0) {
+        logger.info(`Seeded sources table with ${inserted} sources from automation config`);
+      }
+    }
+
+    this.seeded = true;
+  }
+
+  /**
+   * Mirror active sources into the automation config for ConfigManager watchers
+   */
+  private async syncToAutomationConfig(): Promise<void> {
+    try {
+      const active = await this.getActiveIdentifiers();
+      const { data_sources } = configManager.getConfig();
+
+      configManager.updateConfig({
+        data_sources: {
+          twitter: { ...data_sources.twitter, accounts: active.twitter },
+          telegram: { ...data_sources.telegram, channels: active.telegram },
+          rss: { ...data_sources.rss, feeds: active.rss }
+        }
+      });
+    } catch (error: any) {
+      logger.warn('Failed to sync sources to automation config', { error: error.message });
+    }
+  }
+
+  private buildRow(type: SourceType, identifier: string): Pick<Source, 'type' | 'url' | 'username'> {
+    return type === 'rss'
+      ? { type, url: identifier }
+      : { type, username: identifier, url: this.profileUrl(type, identifier) };
+  }
+
+  /**
+   * Row for a newly configured, active source without overrides
+   */
+  private buildNewRow(type: SourceType, identifier: string): Partial<Source> {
+    return {
+      ...this.buildRow(type, identifier),
+      name: this.describe(type, identifier),
+      is_active: true,
+      config: {}
+    };
+  }
+
+  private identifierColumn(type: SourceType): 'url' | 'username' {
+    return type === 'rss' ? 'url' : 'username';
+  }
+
+  private profileUrl(type: SourceType, username: string): string {
+    return type === 'twitter' ? `https://x.com/${username}` : `https://t.me/${username}`;
+  }
+
+  private describe(type: SourceType, identifier: string): string {
+    switch (type) {
+      case 'twitter':
+        return `@${identifier}`;
+      case 'telegram':
+        return `t.me/${identifier}`;
+      case 'rss':
+        return `RSS feed ${identifier}`;
+    }
+  }
+}
+
+// Global registry instance
+export const sourceRegistry = new SourceRegistry();
@@ -0,0 +1,100 @@
+// lib/storage/json-file-store.ts
+
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import logger from '../logger';
+
+/**
+ * Runs async tasks one at a time, in the order they were queued. A failed
+ * task doesn't block the ones after it.
+ */
+export class SerialQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task, task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Resolves once everything queued so far has finished
+   */
+  async idle(): Promise<void> {
+    await this.tail;
+  }
+}
+
+/**
+ * Write `data` as formatted JSON via a temp file + rename, so readers never
+ * see a partial file
+ */
+export async function writeJsonFileAtomic(filePath: string, data: unknown): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export interface JsonFileStoreOptions<D> {
+  schema: z.ZodType<D>;
+  empty: () => D;               // document to start from when the file is missing or invalid
+  label: string;                // what the file holds, for log messages
+  backupInvalid?: boolean;      // move an invalid file aside instead of overwriting it on the next write
+}
+
+/**
+ * One schema-validated JSON document in a file, for the single-host `file`
+ * variants of the stores. Transactions are serialized within the process.
+ */
+export class JsonFileStore<D> {
+  private filePath: string;
+  private options: JsonFileStoreOptions<D>;
+  private queue = new SerialQueue();
+
+  constructor(filePath: string, options: JsonFileStoreOptions<D>) {
+    this.filePath = filePath;
+    this.options = options;
+  }
+
+  /**
+   * Run an operation against the current file contents, writing it back if it changed
+   */
+  transaction<T>(operation: (document: D) => { result: T; changed: boolean }): Promise<T> {
+    return this.queue.run(async () => {
+      const document = await this.read();
+      const { result, changed } = operation(document);
+      if (changed) {
+        await writeJsonFileAtomic(this.filePath, document);
+      }
+      return result;
+    });
+  }
+
+  private async read(): Promise<D> {
+    if (!existsSync(this.filePath)) {
+      return this.options.empty();
+    }
+
+    try {
+      return this.options.schema.parse(JSON.parse(await fs.readFile(this.filePath, 'utf-8')));
+    } catch (error: any) {
+      if (this.options.backupInvalid) {
+        const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+        await fs.rename(this.filePath, backupPath).catch(() => undefined);
+        logger.warn(`Invalid ${this.options.label} file ${this.filePath}, moved to ${backupPath} and starting empty`, { error: error.message });
+      } else {
+        logger.warn(`Invalid ${this.options.label} file ${this.filePath}, starting empty`, { error: error.message });
+      }
+      return this.options.empty();
+    }
+  }
+}
@@ -0,0 +1,40 @@
+// lib/storage/store-factory.ts
+
+import { createClient } from '@supabase/supabase-js';
+import { envConfig } from '../../config/environment';
+import logger from '../logger';
+
+export type StoreType = 'memory' | 'file' | 'supabase';
+
+/**
+ * Base for the Supabase variants of the stores. The client is created on
+ * first use, so picking another store never needs the Supabase env vars.
+ */
+export abstract class SupabaseBackedStore {
+  private _supabase?: any;
+
+  protected get supabase() {
+    if (!this._supabase) {
+      this._supabase = createClient(envConfig.supabaseUrl, envConfig.supabaseServiceKey);
+    }
+    return this._supabase;
+  }
+}
+
+/**
+ * Create the store variant named by `type`, or by the `envVar` env var
+ * (memory | file | supabase, default file). Unknown names fall back to file.
+ */
+export function createStore<S>(
+  envVar: string,
+  type: string | undefined,
+  variants: Record<StoreType, () => S>
+): S {
+  const selected = type || process.env[envVar] || 'file';
+  if (Object.prototype.hasOwnProperty.call(variants, selected)) {
+    return variants[selected as StoreType]();
+  }
+
+  logger.warn(`Unknown ${envVar} "${selected}", using file store`);
+  return variants.file();
+}
@@ -2,16 +2,18 @@
 
 import fetch from 'node-fetch';
 import { JSDOM } from 'jsdom';
-import { TelegramChannel, TelegramMessage, TelegramScrapeResult } from '../../types/telegram';
+import { TelegramChannel, TelegramChannelValidation, TelegramMessage, TelegramScrapeResult } from '../../types/telegram';
 import { getTelegramChannelConfig } from '../../config/data-sources-config';
 import { envConfig } from '../../config/environment';
 import logger from '../logger';
 import { ProgressTracker } from '../../utils/progress';
+import { sleep } from '../../utils/abort';
 
 interface ScrapingOptions {
   maxMessages?: number;
   beforeDate?: Date;
   afterDate?: Date;
+  signal?: AbortSignal; // stops requests and rate-limit waits
 }
 
 export class TelegramScraper {
@@ -36,7 +38,7 @@ export class TelegramScraper {
       progress.update(1, { step: 'Loading channel' });
       
       const channelUrl = `${this.baseUrl}/${channelUsername}`;
-      const channelData = await this.fetchChannelPage(channelUrl);
+      const channelData = await this.fetchChannelPage(channelUrl, options.signal);
       
       if (!channelData.channel) {
         throw new Error(`Channel @${channelUsername} not found or is private`);
@@ -55,7 +57,8 @@ export class TelegramScraper {
         const pageMessages = await this.scrapeMessagesPage(
           channelUsername, 
           channelData.channel,
-          offset
+          offset,
+          options.signal
         );
 
         if (pageMessages.length === 0) {
@@ -71,7 +74,7 @@ export class TelegramScraper {
         offset += pageMessages.length;
 
         // Rate limiting
-        await this.respectRateLimit();
+        await this.respectRateLimit(options.signal);
 
         // Check if we should continue
         if (pageMessages.length < 20) hasMore = false; // Telegram typically shows 20 per page
@@ -105,7 +108,7 @@ export class TelegramScraper {
   /**
    * Fetch and parse channel main page
    */
-  private async fetchChannelPage(url: string): Promise<{ channel: TelegramChannel | null; html: string }> {
+  private async fetchChannelPage(url: string, signal?: AbortSignal): Promise<{ channel: TelegramChannel | null; html: string }> {
     try {
       const response = await fetch(url, {
         headers: {
@@ -115,7 +118,8 @@ export class TelegramScraper {
           'Accept-Encoding': 'gzip, deflate',
           'Connection': 'keep-alive',
         },
-        timeout: envConfig.apiTimeouts.telegram
+        timeout: envConfig.apiTimeouts.telegram,
+        signal
       });
 
       if (!response.ok) {
@@ -188,7 +192,8 @@ export class TelegramScraper {
   private async scrapeMessagesPage(
     channelUsername: string, 
     channel: TelegramChannel,
-    offset: number = 0
+    offset: number = 0,
+    signal?: AbortSignal
   ): Promise<TelegramMessage[]> {
     try {
       // Telegram uses different URLs for pagination
@@ -198,7 +203,8 @@ export class TelegramScraper {
 
       const response = await fetch(pageUrl, {
         headers: { 'User-Agent': this.userAgent },
-        timeout: envConfig.apiTimeouts.telegram
+        timeout: envConfig.apiTimeouts.telegram,
+        signal
       });
 
       if (!response.ok) {
@@ -209,6 +215,8 @@ export class TelegramScraper {
       return this.parseMessages(html, channel);
 
     } catch (error) {
+      // A cancelled scrape must not look like an empty page
+      signal?.throwIfAborted();
       logger.error(`Failed to scrape messages page for ${channelUsername}`, error);
       return [];
     }
@@ -417,8 +425,60 @@ export class TelegramScraper {
   /**
    * Rate limiting
    */
-  private async respectRateLimit(): Promise<void> {
-    await new Promise(resolve => setTimeout(resolve, this.rateLimitDelay));
+  private async respectRateLimit(signal?: AbortSignal): Promise<void> {
+    await sleep(this.rateLimitDelay, signal);
+  }
+
+  /**
+   * Check that a channel exists and has a public web preview (t.me/s/<channel>),
+   * which is what scrapeChannel relies on
+   */
+  async validateChannel(channelUsername: string): Promise<TelegramChannelValidation> {
+    const previewUrl = `${this.baseUrl}/s/${channelUsername}`;
+
+    try {
+      const response = await fetch(previewUrl, {
+        headers: { 'User-Agent': this.userAgent },
+        timeout: envConfig.apiTimeouts.telegram
+      });
+
+      if (!response.ok) {
+        return {
+          valid: false,
+          recentMessages: 0,
+          error: response.status === 404 ? 'Channel not found' : `HTTP ${response.status}: ${response.statusText}`
+        };
+      }
+
+      // Telegram redirects to t.me/<name> when there is no public preview
+      // (private channels, groups and user accounts)
+      if (!response.url.includes('/s/')) {
+        return {
+          valid: false,
+          recentMessages: 0,
+          error: 'Channel has no public preview (it may be private, a group or a user account)'
+        };
+      }
+
+      const html = await response.text();
+      const channel = html.includes('tgme_channel_info')
+        ? this.parseChannelInfo(html, `${this.baseUrl}/${channelUsername}`)
+        : null;
+
+      if (!channel) {
+        return { valid: false, recentMessages: 0, error: 'Channel not found' };
+      }
+
+      return {
+        valid: true,
+        channel,
+        recentMessages: this.parseMessages(html, channel).length
+      };
+
+    } catch (error: any) {
+      logger.error(`Telegram channel validation failed for ${channelUsername}`, error);
+      return { valid: false, recentMessages: 0, error: error.message };
+    }
   }
 
   /**
@@ -6,6 +6,7 @@ import { getXAccountConfig } from '../../config/data-sources-config';
 import { envConfig } from '../../config/environment';
 import logger from '../logger';
 import { ProgressTracker } from '../../utils/progress';
+import { abortable, sleep } from '../../utils/abort';
 import { config } from 'dotenv';
 
 // Load environment variables
@@ -117,9 +118,10 @@ export class TwitterClient {
   }
 
   /**
-   * Post a digest as a Twitter thread
+   * Post a digest as a Twitter thread. Aborting `signal` stops before the
+   * next tweet (already posted tweets stay up).
    */
-  async postDigestThread(digest: DigestTweet): Promise<TweetResult> {
+  async postDigestThread(digest: DigestTweet, signal?: AbortSignal): Promise<TweetResult> {
     if (!this.canWrite || !this.writeClient) {
       return {
         success: false,
@@ -134,7 +136,7 @@ export class TwitterClient {
       const threadTweets = this.buildDigestThread(digest);
       
       // Post the thread
-      const threadResult = await this.postThread(threadTweets);
+      const threadResult = await this.postThread(threadTweets, signal);
 
       if (threadResult.success && threadResult.threadIds && threadResult.threadIds.length > 0) {
         const mainTweetId = threadResult.threadIds[0];
@@ -166,7 +168,7 @@ export class TwitterClient {
   /**
    * Post a simple digest summary tweet
    */
-  async postDigestSummary(digest: DigestTweet): Promise<TweetResult> {
+  async postDigestSummary(digest: DigestTweet, signal?: AbortSignal): Promise<TweetResult> {
     if (!this.canWrite || !this.writeClient) {
       return {
         success: false,
@@ -177,7 +179,7 @@ export class TwitterClient {
     try {
       const tweetText = this.formatDigestSummary(digest);
       
-      const result = await this.writeClient.v2.tweet(tweetText);
+      const result = await abortable(this.writeClient.v2.tweet(tweetText), signal);
       
       logger.info('Digest summary posted to Twitter', { 
         tweetId: result.data.id 
@@ -255,7 +257,7 @@ ${digest.summary}
   /**
    * Post a thread of tweets
    */
-  private async postThread(tweets: string[]): Promise<TweetResult> {
+  private async postThread(tweets: string[], signal?: AbortSignal): Promise<TweetResult> {
     if (!this.writeClient) {
       return { success: false, error: 'Write client not available' };
     }
@@ -265,6 +267,7 @@ ${digest.summary}
 
     try {
       for (let i = 0; i < tweets.length; i++) {
+        signal?.throwIfAborted();
         const tweetOptions: any = {
           text: tweets[i]
         };
@@ -274,13 +277,13 @@ ${digest.summary}
           tweetOptions.reply = { in_reply_to_tweet_id: replyToId };
         }
 
-        const result = await this.writeClient.v2.tweet(tweetOptions);
+        const result = await abortable(this.writeClient.v2.tweet(tweetOptions), signal);
         threadIds.push(result.data.id);
         replyToId = result.data.id;
 
         // Add small delay between tweets to avoid rate limits
         if (i < tweets.length - 1) {
-          await this.sleep(1000); // 1 second delay
+          await sleep(1000, signal); // 1 second delay
         }
       }
 
@@ -348,11 +351,12 @@ ${topTopics.join(' ')} #TechDigest #AI`;
   }
 
   /**
-   * Fetch tweets from a specific user
+   * Fetch tweets from a specific user. Aborting `signal` stops waiting for
+   * the API and rate limits.
    */
-  async fetchUserTweets(username: string): Promise<TweetWithEngagement[]> {
+  async fetchUserTweets(username: string, signal?: AbortSignal): Promise<TweetWithEngagement[]> {
     // Check API quota before starting expensive operations
-    await this.checkApiQuota();
+    await abortable(this.checkApiQuota(), signal);
     
     const config = getXAccountConfig(username);
     const progress = new ProgressTracker({
@@ -362,10 +366,10 @@ ${topTopics.join(' ')} #TechDigest #AI`;
 
     try {
       // Check rate limits before starting
-      await this.checkRateLimit('users/by/username/:username/tweets');
+      await this.checkRateLimit('users/by/username/:username/tweets', signal);
 
       // Get user info first
-      const user = await this.getUserByUsername(username);
+      const user = await abortable(this.getUserByUsername(username), signal);
       if (!user) {
         throw new Error(`User @${username} not found`);
       }
@@ -379,10 +383,10 @@ ${topTopics.join(' ')} #TechDigest #AI`;
       for (let page = 0; page < maxPagesForTesting; page++) {
         progress.update(page + 1);
 
-        const tweets = await this.fetchTweetPage(user.id, {
+        const tweets = await abortable(this.fetchTweetPage(user.id, {
           max_results: Math.min(config.tweetsPerRequest, 10), // Limit to 10 tweets per request
           pagination_token: nextToken,
-        });
+        }), signal);
 
         if (!tweets.data?.data?.length) {
           logger.info(`No more tweets found for @${username} on page ${page + 1}`);
@@ -402,7 +406,7 @@ ${topTopics.join(' ')} #TechDigest #AI`;
         if (!nextToken) break;
 
         // Respect rate limits with longer delays
-        await this.waitForRateLimit();
+        await this.waitForRateLimit(signal);
       }
 
       progress.complete(`Collected ${allTweets.length} quality tweets from @${username}`);
@@ -565,7 +569,7 @@ ${topTopics.join(' ')} #TechDigest #AI`;
   /**
    * Rate limiting management
    */
-  private async checkRateLimit(endpoint: string): Promise<void> {
+  private async checkRateLimit(endpoint: string, signal?: AbortSignal): Promise<void> {
     const rateLimit = this.rateLimitInfo.get(endpoint);
     
     if (!rateLimit) return; // No previous info, proceed
@@ -576,15 +580,15 @@ ${topTopics.join(' ')} #TechDigest #AI`;
       const waitTime = (rateLimit.reset - now + 1) * 1000;
       logger.info(`Rate limit reached for ${endpoint}. Waiting ${waitTime}ms`);
       
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+      await sleep(waitTime, signal);
     }
   }
 
-  private async waitForRateLimit(): Promise<void> {
+  private async waitForRateLimit(signal?: AbortSignal): Promise<void> {
     // Much more conservative delay between requests to preserve API quota
     const delay = envConfig.development ? 3000 : 5000; // 3-5 seconds between requests
     logger.info(`Waiting ${delay}ms to respect rate limits...`);
-    await new Promise(resolve => setTimeout(resolve, delay));
+    await sleep(delay, signal);
   }
 
   /**
@@ -637,13 +641,6 @@ ${topTopics.join(' ')} #TechDigest #AI`;
     }
   }
 
-  /**
-   * Sleep for a given number of milliseconds
-   */
-  private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Check if client is ready for read operations
    */
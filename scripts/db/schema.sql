@@ -105,6 +105,7 @@ CREATE TABLE digests (
     -- Source data window
     data_from TIMESTAMP WITH TIME ZONE NOT NULL,
     data_to TIMESTAMP WITH TIME ZONE NOT NULL,
+    focus_topics TEXT[], -- Set when the digest was scoped to specific topics
     
     -- Publishing
     published_to_slack BOOLEAN DEFAULT false,
@@ -114,7 +115,55 @@ CREATE TABLE digests (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Pending chat actions awaiting user confirmation
+CREATE TABLE pending_actions (
+    id VARCHAR(255) PRIMARY KEY,
+    intent JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    consumed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Scheduled task runs; retries are attempts of the same run
+CREATE TABLE task_runs (
+    id VARCHAR(255) PRIMARY KEY,
+    task_name VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'completed', 'failed', 'retrying', 'cancelled')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    error TEXT,
+    retry_count INTEGER DEFAULT 0,
+    attempts JSONB NOT NULL DEFAULT '[]',
+    next_retry_at TIMESTAMP WITH TIME ZONE,
+    trigger VARCHAR(20) CHECK (trigger IN ('schedule', 'catch_up', 'manual')),
+    scheduled_for TIMESTAMP WITH TIME ZONE -- missed fire time a catch-up run stands in for
+);
+
+-- When each task's schedule last fired, to catch up runs missed while down
+CREATE TABLE task_fire_times (
+    task_name VARCHAR(255) PRIMARY KEY,
+    last_fired_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- AI spend per model call, for daily budgets and cost analytics
+CREATE TABLE ai_cost_ledger (
+    id UUID PRIMARY KEY,
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    day DATE NOT NULL, -- calendar day in the budget timezone
+    provider VARCHAR(50),
+    model VARCHAR(255) NOT NULL,
+    prompt_tokens INTEGER DEFAULT 0,
+    completion_tokens INTEGER DEFAULT 0,
+    total_tokens INTEGER DEFAULT 0,
+    cost_usd DECIMAL(12,6) DEFAULT 0,
+    context VARCHAR(100)
+);
+
 -- Create indexes for better query performance
+-- One row per source: usernames for Twitter/Telegram, feed URLs for RSS
+CREATE UNIQUE INDEX idx_sources_type_username ON sources(type, username);
+CREATE UNIQUE INDEX idx_sources_type_url ON sources(type, url);
+
 CREATE INDEX idx_tweets_created_at ON tweets(created_at DESC);
 CREATE INDEX idx_tweets_author_username ON tweets(author_username);
 CREATE INDEX idx_tweets_engagement_score ON tweets(engagement_score DESC);
@@ -127,6 +176,12 @@ CREATE INDEX idx_rss_articles_feed ON rss_articles(feed_url);
 
 CREATE INDEX idx_digests_created ON digests(created_at DESC);
 
+CREATE INDEX idx_pending_actions_expires ON pending_actions(expires_at);
+
+CREATE INDEX idx_ai_cost_ledger_day ON ai_cost_ledger(day DESC);
+
+CREATE INDEX idx_task_runs_task_started ON task_runs(task_name, started_at DESC);
+
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -1,27 +1,21 @@
 // scripts/digest/run-continuous.ts
 
-import { DigestPipeline } from '../../lib/automation/digest-pipeline';
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+import { AutomationDaemon } from '../../lib/automation/daemon';
+import { configManager } from '../../lib/automation/config-manager';
+import { controlServerOptionsFromEnv } from '../../lib/automation/control-server';
 import { SlackNotifier } from '../../lib/slack/slack-notifier';
 import logger from '../../lib/logger';
 
 class ContinuousRunner {
-  private pipeline: DigestPipeline;
+  private daemon: AutomationDaemon;
   private slackNotifier: SlackNotifier;
-  private intervalMinutes: number;
-  private isRunning: boolean = false;
 
-  constructor(intervalMinutes: number = 60) { // Default: run every hour
-    this.intervalMinutes = intervalMinutes;
-    this.pipeline = new DigestPipeline({
-      enableTwitter: true,
-      enableTelegram: true,
-      enableRSS: true,
-      aiModel: 'anthropic',
-      analysisType: 'digest',
-      postToSlack: false, // We handle notifications separately
-      minQualityThreshold: 0.5,
-      maxContentAge: 24
-    });
+  constructor(shutdownTimeoutMs: number) {
+    // Digests, cache cleanup and health checks run on the automation.json schedules
+    this.daemon = new AutomationDaemon({ shutdownTimeoutMs, control: controlServerOptionsFromEnv() });
     this.slackNotifier = new SlackNotifier();
   }
 
@@ -29,59 +23,37 @@ class ContinuousRunner {
    * Start the continuous runner
    */
   async start(): Promise<void> {
-    logger.info('Starting continuous digest runner', { 
-      intervalMinutes: this.intervalMinutes 
+    const schedule = configManager.getConfig().scheduling.digest_pipeline;
+    logger.info('Starting continuous digest runner', {
+      cronPattern: schedule.cron_pattern,
+      timezone: schedule.timezone
     });
 
+    await this.daemon.start();
+
     // Send startup notification (don't block on this)
     this.sendSlackNotificationSafely(
       () => this.slackNotifier.notifyInfo(
         'Digest Bot Started 🤖',
-        `Continuous runner started. Will generate digests every ${this.intervalMinutes} minutes.`
+        `Continuous runner started. Digests run on schedule \`${schedule.cron_pattern}\` (${schedule.timezone}).`
       )
     );
 
-    this.isRunning = true;
-
-    // Run immediately on startup
-    await this.runPipeline();
-
-    // Then run on interval
-    const intervalMs = this.intervalMinutes * 60 * 1000;
-    setInterval(async () => {
-      if (this.isRunning) {
-        await this.runPipeline();
-      }
-    }, intervalMs);
-
     // Handle graceful shutdown
     process.on('SIGINT', () => this.shutdown());
     process.on('SIGTERM', () => this.shutdown());
   }
 
-  /**
-   * Run the digest pipeline
-   */
-  private async runPipeline(): Promise<void> {
-    try {
-      logger.info('Running scheduled digest pipeline');
-      await this.pipeline.execute();
-    } catch (error) {
-      logger.error('Scheduled pipeline execution failed', error);
-      // Error notification is handled by the pipeline itself
-    }
-  }
-
   /**
    * Send Slack notification safely without blocking execution
    */
-  private sendSlackNotificationSafely(notificationFn: () => Promise<void>): void {
+  private sendSlackNotificationSafely(notificationFn: () => Promise<void>): Promise<unknown> {
     // Set a reasonable timeout for Slack notifications
     const timeoutMs = 10000; // 10 seconds
-    
-    Promise.race([
+
+    return Promise.race([
       notificationFn(),
-      new Promise((_, reject) => 
+      new Promise((_, reject) =>
         setTimeout(() => reject(new Error('Slack notification timeout')), timeoutMs)
       )
     ]).catch(error => {
@@ -91,32 +63,33 @@ class ContinuousRunner {
   }
 
   /**
-   * Shutdown gracefully
+   * Shutdown gracefully, letting running tasks finish first
    */
   private async shutdown(): Promise<void> {
     logger.info('Shutting down continuous runner');
-    this.isRunning = false;
+    const drained = await this.daemon.stop();
 
-    // Send shutdown notification (don't block on this)
-    this.sendSlackNotificationSafely(
+    await this.sendSlackNotificationSafely(
       () => this.slackNotifier.notifyInfo(
         'Digest Bot Stopped 🛑',
-        'Continuous runner has been stopped.'
+        drained
+          ? 'Continuous runner has been stopped.'
+          : 'Continuous runner has been stopped before all running tasks finished.'
       )
     );
 
-    process.exit(0);
+    process.exit(drained ? 0 : 1);
   }
 }
 
 // Start the runner
 async function main() {
-  const intervalMinutes = parseInt(process.env.RUN_INTERVAL_MINUTES || '60');
-  const runner = new ContinuousRunner(intervalMinutes);
+  const shutdownTimeoutMs = parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '300000'); // 5 minutes
+  const runner = new ContinuousRunner(shutdownTimeoutMs);
   await runner.start();
 }
 
 main().catch(error => {
   console.error('Failed to start continuous runner:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
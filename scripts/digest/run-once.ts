@@ -14,7 +14,7 @@ async function runDigest() {
       enableTwitter: true,
       enableTelegram: true,
       enableRSS: true,
-      aiModel: 'anthropic',
+      priority: 'important', // model and budget tier from automation.json
       analysisType: 'digest',
       postToSlack: false,
       minQualityThreshold: 0.7,
@@ -104,8 +104,7 @@ async function testAdvancedAI() {
 
     // Test 4: Real AI Analysis with Templates
     console.log('\n4. Testing Template-Based Analysis:');
-    const aiService = AIService.getInstance();
-    aiService.useClaude('claude-3-5-sonnet-20241022');
+    const aiService = AIService.forProvider('anthropic', 'claude-3-5-sonnet-20241022');
 
     const testContent = {
       tweets: [{
@@ -16,28 +16,24 @@ const selectedProvider = providerArg ? providerArg.split('=')[1] : 'all';
 const PROVIDER_CONFIGS = {
   openai: {
     name: 'OpenAI',
-    method: 'useOpenAI',
     model: 'gpt-4o',
     envVar: 'OPENAI_API_KEY',
     costRates: { prompt: 0.0000025, completion: 0.00001 }
   },
   anthropic: {
     name: 'Anthropic Claude',
-    method: 'useClaude', 
     model: 'claude-3-5-sonnet-20241022',
     envVar: 'ANTHROPIC_API_KEY',
     costRates: { prompt: 0.000003, completion: 0.000015 }
   },
   google: {
     name: 'Google Gemini',
-    method: 'useGemini',
     model: 'gemini-1.5-pro',
     envVar: 'GOOGLE_GENERATIVE_AI_API_KEY',
     costRates: { prompt: 0.00000125, completion: 0.000005 }
   },
   ollama: {
     name: 'Ollama (Local)',
-    method: 'useOllama', 
     model: 'llama3.1:8b',
     envVar: null, // No API key required
     costRates: { prompt: 0, completion: 0 } // Local model, no cost
@@ -52,7 +48,6 @@ async function testAIIntegration() {
   }
 
   try {
-    const aiService = AIService.getInstance();
     const testResults: Array<{
       provider: string;
       success: boolean;
@@ -104,8 +99,8 @@ async function testAIIntegration() {
       console.log(`\n${index + 1}. Testing ${config.name} Connection:`);
       
       try {
-        // Configure the service for this provider
-        (aiService as any)[config.method](config.model);
+        // Create a service for this provider
+        const aiService = AIService.forProvider(provider as keyof typeof PROVIDER_CONFIGS, config.model);
         
         // Test connection
         const connected = await aiService.testConnection();
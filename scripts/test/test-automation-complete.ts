@@ -251,11 +251,11 @@ class AutomationTestSuite {
       console.log(`   ✅ Running tasks: ${runningTasks.length}`);
 
       // Check task history
-      const taskHistory = taskScheduler.getTaskHistory(5);
+      const taskHistory = await taskScheduler.getTaskHistory(5);
       console.log(`   ✅ Task history entries: ${taskHistory.length}`);
 
       // Get task statistics
-      const taskStats = taskScheduler.getTaskStats('test-automation');
+      const taskStats = await taskScheduler.getTaskStats('test-automation');
       console.log(`   ✅ Task stats: ${taskStats.total_executions} executions, ${(taskStats.success_rate * 100).toFixed(1)}% success rate`);
 
       // Clean up
@@ -310,7 +310,7 @@ class AutomationTestSuite {
       // Wait for retries to complete
       await new Promise(resolve => setTimeout(resolve, 8000));
 
-      const taskStats = taskScheduler.getTaskStats('error-test');
+      const taskStats = await taskScheduler.getTaskStats('error-test');
       console.log(`   ✅ Error handling test: ${taskStats.total_executions} executions`);
       
       if (taskStats.completed > 0) {
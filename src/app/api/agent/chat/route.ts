@@ -3,11 +3,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { IntentParser } from '../../../../../lib/agent/intent-parser';
 import { ConfigurationAgent } from '../../../../../lib/agent/configuration-agent';
+import { ScheduleManager } from '../../../../../lib/agent/schedule-manager';
+import { AIModelManager } from '../../../../../lib/agent/ai-model-manager';
+import { ScheduleParser } from '../../../../../lib/agent/schedule-parser';
 import { ActionPreview, PreviewChange } from '../../../../../types/chat';
+import { AIModelOptions, AISettingsUpdate } from '../../../../../types/ai';
 import logger from '../../../../../lib/logger';
 
 const intentParser = new IntentParser();
 const configAgent = new ConfigurationAgent();
+const scheduleManager = new ScheduleManager();
+const aiModelManager = new AIModelManager();
 
 import { pendingActions } from '../shared-storage';
 
@@ -80,7 +86,7 @@ export async function POST(request: NextRequest) {
       
       // Store pending action only when there are actual changes
       const actionId = `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      pendingActions.set(actionId, { intent, timestamp: Date.now() });
+      await pendingActions.save(actionId, intent);
       
 
 
@@ -121,7 +127,11 @@ function shouldRequireConfirmation(intent: any): boolean {
     'REMOVE_TWITTER_SOURCE',
     'ADD_RSS_SOURCE',
     'REMOVE_RSS_SOURCE',
+    'ADD_TELEGRAM_SOURCE',
+    'REMOVE_TELEGRAM_SOURCE',
     'CHANGE_AI_MODEL',
+    'ADJUST_AI_SETTINGS',
+    'SCHEDULE_DIGEST',
     'MULTI_ACTION'
   ];
   
@@ -133,6 +143,7 @@ async function generateActionPreview(intent: any): Promise<ActionPreview> {
   let title = 'Configuration Change';
   let description = 'Review the changes below before applying.';
   let estimatedImpact: 'low' | 'medium' | 'high' = 'low';
+  const warnings = generateWarnings(intent);
 
   switch (intent.type) {
     case 'ADD_TWITTER_SOURCE':
@@ -169,6 +180,40 @@ async function generateActionPreview(intent: any): Promise<ActionPreview> {
       });
       break;
 
+    case 'ADD_TELEGRAM_SOURCE':
+      title = 'Add Telegram Channels';
+      description = `Add ${intent.entities.telegramChannels?.length || 0} Telegram channel(s) to monitoring.`;
+      estimatedImpact = 'low';
+      
+      intent.entities.telegramChannels?.forEach((channel: string) => {
+        changes.push({
+          type: 'add',
+          category: 'telegram',
+          description: `Add t.me/${channel} to Telegram sources`,
+          details: {
+            value: `t.me/${channel}`
+          }
+        });
+      });
+      break;
+
+    case 'REMOVE_TELEGRAM_SOURCE':
+      title = 'Remove Telegram Channels';
+      description = `Stop monitoring ${intent.entities.telegramChannels?.length || 0} Telegram channel(s).`;
+      estimatedImpact = 'low';
+      
+      intent.entities.telegramChannels?.forEach((channel: string) => {
+        changes.push({
+          type: 'remove',
+          category: 'telegram',
+          description: `Remove t.me/${channel} from Telegram sources`,
+          details: {
+            value: `t.me/${channel}`
+          }
+        });
+      });
+      break;
+
     case 'CHANGE_AI_MODEL':
       title = 'Switch AI Model';
       description = `Change AI provider to ${intent.entities.aiModel?.toUpperCase()}.`;
@@ -184,6 +229,68 @@ async function generateActionPreview(intent: any): Promise<ActionPreview> {
       });
       break;
 
+    case 'ADJUST_AI_SETTINGS': {
+      const update: AISettingsUpdate = intent.entities.aiSettings || {};
+      if (Object.keys(update).length === 0) break;
+
+      const { provider, modelName, before, after, validation } = aiModelManager.previewSettings(update);
+      title = 'Adjust AI Settings';
+      description = `Tune ${provider}/${modelName}: ${aiModelManager.describeSettings(update)}.`;
+      estimatedImpact = 'medium';
+      warnings.push(...validation.errors, ...validation.warnings);
+
+      (Object.keys(update) as (keyof AISettingsUpdate)[]).forEach(key => {
+        changes.push({
+          type: 'modify',
+          category: 'ai_model',
+          description: `Change ${AI_SETTING_LABELS[key]}`,
+          details: {
+            before: formatAISetting(key, before),
+            after: formatAISetting(key, after)
+          }
+        });
+      });
+      break;
+    }
+
+    case 'SCHEDULE_DIGEST': {
+      if (!intent.entities.cronPattern && !intent.entities.timezone) break;
+
+      const { before, after, errors } = scheduleManager.previewDigestSchedule({
+        cronPattern: intent.entities.cronPattern,
+        timezone: intent.entities.timezone,
+        enabled: intent.entities.cronPattern ? true : undefined
+      });
+      title = 'Update Digest Schedule';
+      description = `Run the digest pipeline ${ScheduleParser.describe(after.cron_pattern, after.timezone).replace(/^Every/, 'every')}.`;
+      estimatedImpact = 'medium';
+      warnings.push(...errors);
+
+      if (before.cron_pattern !== after.cron_pattern || before.enabled !== after.enabled) {
+        changes.push({
+          type: 'modify',
+          category: 'settings',
+          description: 'Change digest cron pattern',
+          details: {
+            before: `${before.cron_pattern}${before.enabled ? '' : ' (disabled)'}`,
+            after: after.cron_pattern
+          }
+        });
+      }
+      if (before.timezone !== after.timezone) {
+        changes.push({
+          type: 'modify',
+          category: 'settings',
+          description: 'Change digest timezone',
+          details: {
+            before: before.timezone,
+            after: after.timezone
+          }
+        });
+      }
+      break;
+    }
+
     case 'MULTI_ACTION':
       title = 'Multiple Changes';
       description = 'Multiple configuration changes will be applied.';
@@ -218,10 +325,30 @@ async function generateActionPreview(intent: any): Promise<ActionPreview> {
     changes,
     requiresConfirmation: changes.length > 0,
     estimatedImpact,
-    warnings: generateWarnings(intent)
+    warnings
   };
 }
 
+const AI_SETTING_LABELS: Record<keyof AISettingsUpdate, string> = {
+  temperature: 'temperature',
+  max_tokens: 'max tokens',
+  reasoning_effort: 'reasoning effort',
+  thinking: 'extended thinking',
+  baseURL: 'Ollama server URL'
+};
+
+function formatAISetting(key: keyof AISettingsUpdate, options: AIModelOptions): string {
+  if (key === 'thinking') {
+    if (!options.thinking) return 'default';
+    return options.thinking.type === 'enabled'
+      ? `enabled (${options.thinking.budgetTokens ?? 'default'} token budget)`
+      : 'disabled';
+  }
+
+  const value = options[key];
+  return value === undefined ? 'default' : String(value);
+}
+
 function generateWarnings(intent: any): string[] {
   const warnings: string[] = [];
   
@@ -246,9 +373,23 @@ function getPreviewMessage(intent: any): string {
       const usernames = intent.entities.twitterUsernames?.map((u: string) => `@${u}`).join(', ');
       return `I'll add ${usernames} to your Twitter sources. Please review the changes below.`;
     
+    case 'ADD_TELEGRAM_SOURCE':
+      const channelsToAdd = intent.entities.telegramChannels?.map((c: string) => `t.me/${c}`).join(', ');
+      return `I'll add ${channelsToAdd} to your Telegram sources once I've checked they're public. Please review the changes below.`;
+    
+    case 'REMOVE_TELEGRAM_SOURCE':
+      const channelsToRemove = intent.entities.telegramChannels?.map((c: string) => `t.me/${c}`).join(', ');
+      return `I'll stop monitoring ${channelsToRemove}. Please review the changes below.`;
+    
     case 'CHANGE_AI_MODEL':
       return `I'll switch your AI model to ${intent.entities.aiModel?.toUpperCase()}. Please confirm this change.`;
     
+    case 'ADJUST_AI_SETTINGS':
+      return `I'll update your AI settings (${aiModelManager.describeSettings(intent.entities.aiSettings || {})}). Please review the changes below.`;
+    
+    case 'SCHEDULE_DIGEST':
+      return `I'll update the automated digest schedule${intent.entities.cronPattern ? ` to ${ScheduleParser.describe(intent.entities.cronPattern, intent.entities.timezone)}` : ''}. Please review the changes below.`;
+    
     case 'MULTI_ACTION':
       return 'I understand you want to make multiple changes. Please review them below.';
     
@@ -271,9 +412,21 @@ function getClarificationMessage(intent: any): string {
     case 'REMOVE_RSS_SOURCE':
       return '❌ I couldn\'t find any RSS feeds to remove. Please specify which feeds to remove.';
     
+    case 'ADD_TELEGRAM_SOURCE':
+      return '❌ I couldn\'t find any Telegram channels to add. Please specify channels like "t.me/durov" or "@telegram".';
+    
+    case 'REMOVE_TELEGRAM_SOURCE':
+      return '❌ I couldn\'t find any Telegram channels to remove. Please specify which channels to remove.';
+    
     case 'CHANGE_AI_MODEL':
       return '❌ I couldn\'t determine which AI model to switch to. Please specify a model like "Gemini", "Claude", "OpenAI", or "Ollama".';
     
+    case 'ADJUST_AI_SETTINGS':
+      return '❌ I couldn\'t find any AI settings to change. You can set temperature, max tokens, reasoning effort, thinking budget or the Ollama server URL.';
+    
+    case 'SCHEDULE_DIGEST':
+      return '❌ I couldn\'t work out a new schedule, or it matches the current one. Try something like "run the digest every weekday at 8am Berlin time".';
+    
     default:
       return '❌ I understood your intent but couldn\'t find the specific details needed. Could you please be more specific?';
   }
@@ -313,6 +466,22 @@ function getClarificationSuggestions(intent: any) {
         }
       ];
     
+    case 'ADD_TELEGRAM_SOURCE':
+      return [
+        {
+          label: "Add Telegram Channel",
+          description: "Monitor a public Telegram channel",
+          command: "Add t.me/durov to Telegram sources",
+          category: 'common'
+        },
+        {
+          label: "View Sources",
+          description: "See the channels you already monitor",
+          command: "Show me current sources",
+          category: 'info'
+        }
+      ];
+    
     case 'CHANGE_AI_MODEL':
       return [
         {
@@ -329,6 +498,38 @@ function getClarificationSuggestions(intent: any) {
         }
       ];
     
+    case 'ADJUST_AI_SETTINGS':
+      return [
+        {
+          label: "Lower Temperature",
+          description: "Make digests more focused and consistent",
+          command: "Set temperature to 0.3",
+          category: 'common'
+        },
+        {
+          label: "Longer Output",
+          description: "Allow longer AI responses",
+          command: "Set max tokens to 4000",
+          category: 'common'
+        }
+      ];
+    
+    case 'SCHEDULE_DIGEST':
+      return [
+        {
+          label: "Weekday Mornings",
+          description: "Run the digest every weekday morning",
+          command: "Run the digest every weekday at 8am Berlin time",
+          category: 'common'
+        },
+        {
+          label: "Every Few Hours",
+          description: "Run the digest on an interval",
+          command: "Run the digest every 3 hours",
+          category: 'common'
+        }
+      ];
+    
     default:
       return [
         {
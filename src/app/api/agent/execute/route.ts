@@ -3,15 +3,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ConfigurationAgent } from '../../../../../lib/agent/configuration-agent';
 import { pendingActions } from '../shared-storage';
+import { ConsumeFailureReason } from '../../../../../lib/agent/pending-action-store';
 import logger from '../../../../../lib/logger';
 
 const configAgent = new ConfigurationAgent();
 
+const CONSUME_FAILURES: Record<ConsumeFailureReason, { message: string; status: number }> = {
+  not_found: { message: '❌ Action not found. Please try again.', status: 404 },
+  expired: { message: '⏰ This action has expired. Please ask again to get a fresh preview.', status: 410 },
+  consumed: { message: '⚠️ This action has already been executed.', status: 409 }
+};
+
 export async function POST(request: NextRequest) {
   try {
     const { messageId, action, actionId } = await request.json();
 
     if (action !== 'confirm') {
+      if (actionId) {
+        await pendingActions.delete(actionId);
+      }
       return NextResponse.json({
         success: false,
         message: '👍 Action cancelled successfully.'
@@ -20,21 +30,16 @@ export async function POST(request: NextRequest) {
 
     logger.info('Executing confirmed action', { messageId, actionId });
 
-    // Retrieve the stored intent
-    const storedAction = pendingActions.get(actionId);
-    if (!storedAction) {
-      logger.error('Pending action not found', { actionId });
-      return NextResponse.json({
-        success: false,
-        message: '❌ Action not found or expired. Please try again.'
-      }, { status: 404 });
+    // Claim the stored intent - this fails if it expired or was already executed
+    const claim = await pendingActions.consume(actionId);
+    if (!claim.ok) {
+      logger.warn('Pending action rejected', { actionId, reason: claim.reason });
+      const { message, status } = CONSUME_FAILURES[claim.reason];
+      return NextResponse.json({ success: false, message }, { status });
     }
 
     // Execute the stored intent
-    const result = await configAgent.executeIntent(storedAction.intent);
-    
-    // Clean up the stored action
-    pendingActions.delete(actionId);
+    const result = await configAgent.executeIntent(claim.action.intent);
 
     logger.info('Action executed', { 
       actionId, 
@@ -46,6 +51,7 @@ export async function POST(request: NextRequest) {
       success: result.success,
       message: result.message,
       changes: result.changes || [],
+      runId: result.runId,
       rollbackAvailable: !!result.changeId
     });
 
@@ -0,0 +1,76 @@
+// app/api/agent/runs/[id]/events/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { pipelineRuns, PipelineRunEvent } from '../../../../../../../lib/automation/pipeline-runs';
+import logger from '../../../../../../../lib/logger';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Stream a digest pipeline run's progress as Server-Sent Events.
+ * Events recorded before the client connected are replayed first; the
+ * stream closes after the `completed` or `failed` event.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const run = pipelineRuns.get(id);
+
+  if (!run) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const send = (event: PipelineRunEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`));
+        if (event.type !== 'progress') {
+          close();
+        }
+      };
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_MS);
+
+      const unsubscribe = pipelineRuns.subscribe(id, send);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        controller.close();
+      };
+      cleanup = close;
+
+      request.signal.addEventListener('abort', close);
+
+      // Replay what happened before the client connected
+      for (const event of [...run.events]) {
+        send(event);
+      }
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  logger.debug('Streaming pipeline run events', { runId: id, status: run.status });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
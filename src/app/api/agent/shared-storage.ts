@@ -1,42 +1,18 @@
 // src/app/api/agent/shared-storage.ts
 
+import { PendingActionStore, createPendingActionStore } from '../../../../lib/agent/pending-action-store';
+
 /**
- * Shared storage for pending actions across API routes
- * Using global to ensure shared state across Next.js API routes
- * In production, this would be replaced with Redis or database storage
+ * Shared storage for pending actions across API routes.
+ * The backend (memory, file or Supabase) is picked by PENDING_ACTION_STORE;
+ * global keeps one instance across Next.js API routes and dev reloads.
  */
-
-// Use global to persist across module reloads in development
 declare global {
-  var _pendingActionsStorage: Map<string, any> | undefined;
+  var _pendingActionStore: PendingActionStore | undefined;
 }
 
-if (!global._pendingActionsStorage) {
-  global._pendingActionsStorage = new Map<string, any>();
+if (!global._pendingActionStore) {
+  global._pendingActionStore = createPendingActionStore();
 }
 
-export const pendingActions = {
-  get(key: string) { 
-    return global._pendingActionsStorage!.get(key); 
-  },
-
-  set(key: string, value: any) { 
-    global._pendingActionsStorage!.set(key, value); 
-  },
-
-  delete(key: string) { 
-    return global._pendingActionsStorage!.delete(key); 
-  },
-
-  has(key: string) {
-    return global._pendingActionsStorage!.has(key);
-  },
-
-  clear() {
-    global._pendingActionsStorage!.clear();
-  },
-
-  size() {
-    return global._pendingActionsStorage!.size;
-  }
-};
\ No newline at end of file
+export const pendingActions = global._pendingActionStore;
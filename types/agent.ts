@@ -1,5 +1,7 @@
 // types/agent.ts
 
+import { AISettingsUpdate } from './ai';
+
 // Primary intent categories
 type IntentType = 
   // Source management
@@ -39,6 +41,7 @@ export interface ExtractedEntities {
     // AI model settings
     aiModel?: 'openai' | 'anthropic' | 'google' | 'ollama';
     modelName?: string;
+    aiSettings?: AISettingsUpdate;
     
     // Digest parameters
     timeRange?: string;
@@ -48,6 +51,8 @@ export interface ExtractedEntities {
     
     // System parameters
     schedule?: string;
+    cronPattern?: string;
+    timezone?: string;
     outputFormat?: string;
 }
   
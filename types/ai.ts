@@ -23,22 +23,51 @@ export interface AIModelConfig {
       baseURL?: string; // Custom Ollama server URL
       keepAlive?: string; // Keep model loaded in memory
     };
+    // Tried in order when this provider fails (e.g. anthropic → openai → ollama)
+    fallbacks?: AIModelFallback[];
   }
+
+  export interface AIModelFallback {
+    provider: AIModelConfig['provider'];
+    modelName?: string;            // provider default when omitted
+    options?: AIModelConfig['options'];
+  }
+  
+  export type AIModelOptions = AIModelConfig['options'];
+
+  /** Model options that can be tuned from chat */
+  export type AISettingsUpdate = Pick<AIModelOptions, 'temperature' | 'max_tokens' | 'reasoning_effort' | 'thinking' | 'baseURL'>;
   
   export interface TokenUsage {
     prompt_tokens: number;
     completion_tokens: number;
     total_tokens: number;
-    reasoning_tokens?: number; // For OpenAI o1 models
-    cache_read_tokens?: number; // For Anthropic caching
+    reasoning_tokens?: number; // included in completion_tokens (OpenAI reasoning models)
+    cache_read_tokens?: number; // included in prompt_tokens (OpenAI/Anthropic prompt caching)
   }
   
   export interface AIAnalysisRequest {
     content: ContentForAnalysis;
-    analysisType: 'digest' | 'summary' | 'categorization' | 'sentiment';
+    analysisType: 'digest' | 'summary' | 'categorization' | 'sentiment' | 'market_intelligence' | 'technical_analysis' | 'news_synthesis';
+    template?: string; // prompt template to use instead of the one named after analysisType (e.g. a custom template)
     instructions?: string;
     outputFormat?: 'json' | 'markdown' | 'text';
+    focusTopics?: string[]; // restrict the digest to these subjects
+    analysisMode?: AnalysisMode; // default 'auto'
+    chunkTokenLimit?: number; // map-reduce: max estimated content tokens per chunk
   }
+
+  /**
+   * single: one prompt with all content
+   * map_reduce: summarize token-sized chunks, then merge the partial insights
+   * auto: map_reduce only when the content is too large for one prompt
+   */
+  export type AnalysisMode = 'single' | 'map_reduce' | 'auto';
+
+  /**
+   * How much an analysis may cost; selects the model tier (automation.json ai.model_configs)
+   */
+  export type AnalysisPriority = 'critical' | 'important' | 'routine';
   
   export interface ContentForAnalysis {
     tweets?: AnalysisTweet[];
@@ -55,6 +84,7 @@ export interface AIModelConfig {
         telegram: number;
         rss: number;
       };
+      focus_topics?: string[];
     };
   }
   
@@ -65,6 +95,7 @@ export interface AIModelConfig {
     created_at: string;
     engagement_score: number;
     quality_score: number;
+    topic_relevance?: number; // 0-1, set when the digest has focus topics
     url: string;
   }
   
@@ -76,6 +107,7 @@ export interface AIModelConfig {
     message_date: string;
     views: number;
     quality_score: number;
+    topic_relevance?: number;
     url: string;
   }
   
@@ -88,6 +120,7 @@ export interface AIModelConfig {
     published_at: string;
     source: string;
     quality_score: number;
+    topic_relevance?: number;
     url: string;
   }
   
@@ -95,12 +128,77 @@ export interface AIModelConfig {
     analysis: DigestAnalysis;
     token_usage: TokenUsage;
     model_info: {
-      provider: string;
+      provider: string; // the provider that actually produced the analysis
       model: string;
       reasoning_time_ms?: number;
+      fallback_attempts?: ProviderFailure[]; // providers that failed before this one
     };
+    analysis_mode: Exclude<AnalysisMode, 'auto'> | 'reasoning_chain';
+    template?: string; // prompt template the analysis ran through
+    stage_usage: StageTokenUsage[]; // token_usage is the sum of these
     processing_time_ms: number;
   }
+
+  export interface StageTokenUsage {
+    stage: 'analysis' | 'map' | 'reduce' | 'chain_step';
+    chunk_index?: number; // map stages only
+    step?: string; // reasoning chain step name
+    cached?: boolean; // chain step restored from an earlier run (tokens were spent then)
+    items?: number; // content items in the stage's prompt
+    provider: string;
+    model: string;
+    token_usage: TokenUsage;
+  }
+
+  /**
+   * Token usage of one model call, reported as soon as the call returns -
+   * including calls whose output was rejected or whose run failed later
+   */
+  export interface ModelCallUsage {
+    provider: string;
+    model: string;
+    operation: string; // what the call was for: the output name (template, chain step...) or 'text'
+    token_usage: TokenUsage;
+  }
+
+  /**
+   * Estimated size of one model call, for budgeting before a run
+   */
+  export interface ModelCallEstimate {
+    prompt_tokens: number;
+    completion_tokens: number; // the most the call can bill, thinking included
+  }
+
+  /**
+   * What the map step of a map-reduce analysis extracts from one content chunk
+   */
+  export interface PartialInsights {
+    summary: string;
+    key_points: string[];
+    topics: {
+      topic: string;
+      mentions: number;
+      evidence: string[];
+      trend_direction: 'rising' | 'stable' | 'declining';
+    }[];
+    sentiment: {
+      overall: 'positive' | 'negative' | 'neutral';
+      breakdown: {
+        positive: number;
+        neutral: number;
+        negative: number;
+      };
+    };
+    high_quality_items: number;
+    notable_items: string[];
+  }
+  
+  export interface ProviderFailure {
+    provider: string;
+    model: string;
+    error_kind: string;
+    message: string;
+  }
   
   export interface DigestAnalysis {
     title: string;
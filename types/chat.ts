@@ -15,6 +15,24 @@ export interface ChatMessage {
     previewData?: ActionPreview;
     executionResult?: ConfigOperationResult;
     suggestedActions?: SuggestedAction[];
+    digestRun?: DigestRunState;
+  }
+
+  export interface DigestRunState {
+    runId: string;
+    status: 'running' | 'completed' | 'failed';
+    step?: string;
+    current: number;
+    total: number;
+    result?: {
+      digestId?: string;
+      title?: string;
+      twitterUrl?: string;
+      sourcesCount: number;
+      processingTimeMs: number;
+      message: string;
+    };
+    error?: string;
   }
   
   export interface ActionPreview {
@@ -15,13 +15,15 @@ export interface ConfigurationChange {
     | 'ADD_RSS_SOURCE' | 'REMOVE_RSS_SOURCE'
     | 'ADD_TELEGRAM_SOURCE' | 'REMOVE_TELEGRAM_SOURCE'
     | 'CHANGE_AI_MODEL' | 'UPDATE_AI_SETTINGS'
-    | 'UPDATE_CACHE_SETTINGS' | 'UPDATE_FILTER_SETTINGS';
+    | 'UPDATE_CACHE_SETTINGS' | 'UPDATE_FILTER_SETTINGS'
+    | 'UPDATE_SCHEDULE';
   
   export interface ConfigOperationResult {
     success: boolean;
     changeId?: string;
     message: string;
     changes?: ConfigurationChange[];
+    runId?: string; // digest pipeline run to follow at /api/agent/runs/[id]/events
     rollbackAvailable?: boolean;
     validationErrors?: string[];
     warnings?: string[];
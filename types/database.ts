@@ -44,6 +44,31 @@ export interface Database {
           };
           Update: Partial<Digest>;
         };
+        pending_actions: {
+          Row: PendingActionRow;
+          Insert: Omit<PendingActionRow, 'created_at' | 'consumed_at'> & {
+            created_at?: string;
+            consumed_at?: string | null;
+          };
+          Update: Partial<PendingActionRow>;
+        };
+        ai_cost_ledger: {
+          Row: AICostLedgerRow;
+          Insert: Omit<AICostLedgerRow, 'recorded_at'> & {
+            recorded_at?: string;
+          };
+          Update: Partial<AICostLedgerRow>;
+        };
+        task_runs: {
+          Row: TaskRunRow;
+          Insert: TaskRunRow;
+          Update: Partial<TaskRunRow>;
+        };
+        task_fire_times: {
+          Row: TaskFireTimeRow;
+          Insert: TaskFireTimeRow;
+          Update: Partial<TaskFireTimeRow>;
+        };
       };
     };
   }
@@ -140,6 +165,7 @@ export interface Database {
     // Data scope
     data_from: string;
     data_to: string;
+    focus_topics?: string[]; // topics the digest was scoped to, if any
     
     // Publishing
     published_to_slack: boolean;
@@ -149,6 +175,46 @@ export interface Database {
     updated_at: string;
   }
   
+  export interface PendingActionRow {
+    id: string;
+    intent: Record<string, any>; // ParsedIntent awaiting confirmation
+    created_at: string;
+    expires_at: string;
+    consumed_at: string | null;
+  }
+
+  export interface TaskRunRow {
+    id: string;
+    task_name: string;
+    status: 'running' | 'completed' | 'failed' | 'retrying' | 'cancelled';
+    started_at: string;
+    ended_at: string | null;
+    error: string | null;
+    retry_count: number;
+    attempts: Record<string, any>[]; // one entry per attempt, retries included
+    next_retry_at: string | null;
+    trigger: 'schedule' | 'catch_up' | 'manual' | null;
+    scheduled_for: string | null;
+  }
+
+  export interface TaskFireTimeRow {
+    task_name: string;
+    last_fired_at: string;
+  }
+
+  export interface AICostLedgerRow {
+    id: string;
+    recorded_at: string;
+    day: string; // YYYY-MM-DD in the budget timezone
+    provider: string | null;
+    model: string;
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    cost_usd: number;
+    context: string | null;
+  }
+  
   // Supporting types
   export interface DigestContent {
     sections: DigestSection[];
@@ -205,4 +271,14 @@ export interface Database {
     completion_tokens: number;
     total_tokens: number;
     reasoning_tokens?: number;
+    stages?: {  // per-stage usage (one analysis stage, map stages plus reduce, or chain steps)
+      stage: 'analysis' | 'map' | 'reduce' | 'chain_step';
+      chunk_index?: number;
+      step?: string;
+      cached?: boolean;
+      items?: number;
+      provider: string;
+      model: string;
+      token_usage: Omit<TokenUsage, 'stages'>;
+    }[];
   }
\ No newline at end of file
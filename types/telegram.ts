@@ -40,4 +40,11 @@ export interface TelegramChannel {
     total_scraped: number;
     has_more: boolean;
     next_offset?: number;
-  }
\ No newline at end of file
+  }
+  
+  export interface TelegramChannelValidation {
+    valid: boolean;
+    channel?: TelegramChannel;    // Parsed channel info when valid
+    recentMessages: number;       // Messages visible in the public preview
+    error?: string;
+  }